@@ -0,0 +1,178 @@
+import express from 'express';
+import { z } from 'zod';
+import { isAuthenticated, requirePermission } from './auth';
+import { storage } from './storage';
+import { changeUserRole, RoleChangeError, staffMember } from './roles';
+import { buildDigest, renderDigest, sendWeeklyDigest } from './digest';
+import { newsletterSyncStatus, runNewsletterReconcile, runNewsletterSync } from './newsletterSync';
+import { emailKinds, userRoles } from '@shared/schema';
+
+const router = express.Router();
+
+const staffQuerySchema = z.object({
+  role: z.enum(userRoles).default('admin'),
+});
+
+const grantRoleSchema = z.object({
+  role: z.enum(userRoles),
+  reason: z.string().trim().max(500).optional(),
+});
+
+const revokeRoleSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+const auditQuerySchema = z.object({
+  userId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const digestPreviewSchema = z.object({
+  format: z.enum(['html', 'text']).default('html'),
+});
+
+const emailLogQuerySchema = z.object({
+  kind: z.enum(emailKinds).optional(),
+  batch: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const newsletterSyncSchema = z.object({
+  reconcile: z.boolean().default(false),
+});
+
+router.use(isAuthenticated);
+
+// Users holding a role, e.g. ?role=moderator
+router.get('/users', requirePermission('manage_roles'), async (req, res) => {
+  try {
+    const { role } = staffQuerySchema.parse(req.query);
+    const users = await storage.getUsersByRole(role);
+    res.json(users.map(staffMember));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid role', errors: error.errors });
+    }
+    res.status(500).json({ message: 'Failed to fetch users' });
+  }
+});
+
+// Grant a role; granting 'user' is the same as revoking
+router.put('/users/:id/role', requirePermission('manage_roles'), async (req: any, res) => {
+  try {
+    const { role, reason } = grantRoleSchema.parse(req.body);
+    const { user, change } = await changeUserRole(req.user.id, parseInt(req.params.id), role, reason);
+    res.json({ user: staffMember(user), change });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid role data', errors: error.errors });
+    }
+    if (error instanceof RoleChangeError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Error granting role:', error);
+    res.status(500).json({ message: 'Failed to change role' });
+  }
+});
+
+// Drop a user back to the default role
+router.delete('/users/:id/role', requirePermission('manage_roles'), async (req: any, res) => {
+  try {
+    const { reason } = revokeRoleSchema.parse(req.body ?? {});
+    const { user, change } = await changeUserRole(req.user.id, parseInt(req.params.id), 'user', reason);
+    res.json({ user: staffMember(user), change });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid role data', errors: error.errors });
+    }
+    if (error instanceof RoleChangeError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Error revoking role:', error);
+    res.status(500).json({ message: 'Failed to change role' });
+  }
+});
+
+// Role change audit log, newest first
+router.get('/audit/roles', requirePermission('view_audit_log'), async (req, res) => {
+  try {
+    const query = auditQuerySchema.parse(req.query);
+    res.json(await storage.getRoleChanges(query));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid audit query', errors: error.errors });
+    }
+    res.status(500).json({ message: 'Failed to fetch audit log' });
+  }
+});
+
+// This week's digest as the signed-in admin would receive it
+router.get('/digest/preview', requirePermission('send_newsletter'), async (req: any, res) => {
+  try {
+    const { format } = digestPreviewSchema.parse(req.query);
+    const email = renderDigest(await buildDigest(), req.user.email || 'preview@example.com');
+    if (format === 'text') {
+      return res.type('text').send(email.text);
+    }
+    res.type('html').send(email.html);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid preview format', errors: error.errors });
+    }
+    console.error('Error rendering digest:', error);
+    res.status(500).json({ message: 'Failed to render digest' });
+  }
+});
+
+// Send this week's digest now; subscribers who already have it are skipped
+router.post('/digest/send', requirePermission('send_newsletter'), async (_req, res) => {
+  try {
+    res.json(await sendWeeklyDigest());
+  } catch (error) {
+    console.error('Error sending digest:', error);
+    res.status(500).json({ message: 'Failed to send digest' });
+  }
+});
+
+// Outgoing email log, newest first
+router.get('/email-log', requirePermission('send_newsletter'), async (req, res) => {
+  try {
+    res.json(await storage.getEmailSends(emailLogQuerySchema.parse(req.query)));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid email log query', errors: error.errors });
+    }
+    res.status(500).json({ message: 'Failed to fetch email log' });
+  }
+});
+
+// Newsletter provider sync: queue sizes, last worker runs and their errors
+router.get('/newsletter/sync', requirePermission('send_newsletter'), async (_req, res) => {
+  try {
+    res.json(await newsletterSyncStatus());
+  } catch (error) {
+    console.error('Error fetching newsletter sync status:', error);
+    res.status(500).json({ message: 'Failed to fetch newsletter sync status' });
+  }
+});
+
+// Push due changes now, and with { reconcile: true } pull unsubscribes back from the provider too
+router.post('/newsletter/sync', requirePermission('send_newsletter'), async (req, res) => {
+  try {
+    const { reconcile } = newsletterSyncSchema.parse(req.body ?? {});
+    const sync = await runNewsletterSync();
+    res.json({
+      sync,
+      reconcile: reconcile ? await runNewsletterReconcile() : null,
+      status: await newsletterSyncStatus(),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid sync request', errors: error.errors });
+    }
+    console.error('Error running newsletter sync:', error);
+    res.status(500).json({ message: 'Newsletter sync failed' });
+  }
+});
+
+export default router;
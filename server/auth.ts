@@ -1,9 +1,23 @@
 import passport from 'passport';
 import { Strategy as LocalStrategy } from 'passport-local';
+import { Strategy as GoogleStrategy, type VerifyCallback } from 'passport-google-oauth20';
+import { Strategy as GitHubStrategy, type Profile as GitHubProfile } from 'passport-github2';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { storage } from './storage';
-import { User } from '@shared/schema';
+import { grantListedAdmin, hasPermission, hasRole, type Permission } from './roles';
+import { isRestricted, type UnverifiedRestriction } from './emailVerification';
+import {
+  githubProfile,
+  googleProfile,
+  linkOAuthIdentity,
+  loginWithOAuth,
+  oauthCallbackUrl,
+  oauthEndpoints,
+  OAuthError,
+  type OAuthProfile,
+} from './oauth';
+import { User, type OAuthProvider, type UserRole } from '@shared/schema';
 import express from 'express';
 import session from 'express-session';
 
@@ -11,6 +25,9 @@ import session from 'express-session';
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
 const SESSION_SECRET = process.env.SESSION_SECRET || 'session-secret-change-in-production';
 
+// Social logins whose client credentials are configured
+export const enabledOAuthProviders: OAuthProvider[] = [];
+
 // Setup Passport configuration
 export function setupAuth(app: express.Express) {
   // Set up session middleware
@@ -28,16 +45,18 @@ export function setupAuth(app: express.Express) {
   app.use(passport.initialize());
   app.use(passport.session());
 
-  // Serialize user to session
+  // Serialize user to session, along with the session version it was issued for
   passport.serializeUser((user: any, done) => {
-    done(null, user.id);
+    done(null, { id: user.id, sv: user.sessionVersion ?? 0 });
   });
 
-  // Deserialize user from session
-  passport.deserializeUser(async (id: number, done) => {
+  // Deserialize user from session; sessions from before a password reset are dropped
+  passport.deserializeUser(async (session: number | { id: number; sv?: number }, done) => {
     try {
+      // Sessions created before versioning hold just the id
+      const { id, sv } = typeof session === 'number' ? { id: session, sv: 0 } : session;
       const user = await storage.getUser(id);
-      done(null, user);
+      done(null, user && isCurrentSession(user, sv) ? user : false);
     } catch (err) {
       done(err, null);
     }
@@ -69,12 +88,75 @@ export function setupAuth(app: express.Express) {
           return done(null, false, { message: 'Incorrect password.' });
         }
         
-        return done(null, user);
+        return done(null, await grantListedAdmin(user));
       } catch (err) {
         return done(err);
       }
     }
   ));
+
+  setupOAuthStrategies();
+}
+
+// Google and GitHub strategies, each registered once its client id and secret are set.
+// `state` ties the callback to the browser session that started the flow.
+function setupOAuthStrategies() {
+  if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+    passport.use(new GoogleStrategy(
+      {
+        clientID: process.env.GOOGLE_CLIENT_ID,
+        clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+        callbackURL: oauthCallbackUrl('google'),
+        scope: ['profile', 'email'],
+        state: true,
+        passReqToCallback: true,
+        ...oauthEndpoints('google'),
+      },
+      (req, _accessToken, _refreshToken, profile, done) => completeOAuth(req, googleProfile(profile), done)
+    ));
+    enabledOAuthProviders.push('google');
+  }
+
+  if (process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET) {
+    passport.use(new GitHubStrategy(
+      {
+        clientID: process.env.GITHUB_CLIENT_ID,
+        clientSecret: process.env.GITHUB_CLIENT_SECRET,
+        callbackURL: oauthCallbackUrl('github'),
+        scope: ['user:email'],
+        // Keeps the `verified` flag on each address, which decides whether it can be trusted
+        allRawEmails: true,
+        // Any truthy value gives session-backed state, and @types/passport-github2 only accepts a string.
+        // The value itself is never sent; each flow gets a fresh random state.
+        state: 'session',
+        passReqToCallback: true,
+        ...oauthEndpoints('github'),
+      },
+      (req: express.Request, _accessToken: string, _refreshToken: string, profile: GitHubProfile, done: VerifyCallback) => completeOAuth(req, githubProfile(profile), done)
+    ));
+    enabledOAuthProviders.push('github');
+  }
+}
+
+// Log in, or link the provider to the account that started the flow from /oauth/:provider/link
+function completeOAuth(req: express.Request, profile: OAuthProfile, done: VerifyCallback) {
+  const session = req.session as any;
+  const linkUserId: number | undefined = session.oauthLink;
+  delete session.oauthLink;
+
+  const result = linkUserId
+    ? storage.getUser(linkUserId).then((user) => {
+        if (!user) {
+          throw new OAuthError('Log in again to link an account', 401);
+        }
+        return linkOAuthIdentity(user, profile);
+      })
+    : loginWithOAuth(profile);
+
+  result
+    .then(grantListedAdmin)
+    .then(user => done(null, user))
+    .catch(err => err instanceof OAuthError ? done(null, false, { message: err.message }) : done(err));
 }
 
 // Generate JWT token for user
@@ -83,7 +165,8 @@ export function generateToken(user: User): string {
     { 
       id: user.id,
       email: user.email,
-      username: user.username
+      username: user.username,
+      sv: user.sessionVersion
     },
     JWT_SECRET,
     { expiresIn: '7d' }
@@ -99,6 +182,20 @@ export function verifyToken(token: string): any {
   }
 }
 
+// Tokens and sessions are only honoured while the user's session version is unchanged
+function isCurrentSession(user: User, sessionVersion: number | undefined): boolean {
+  return (sessionVersion ?? 0) === user.sessionVersion;
+}
+
+// Resolve a JWT to its user; undefined when it is invalid, expired or revoked by a password reset
+export async function userFromToken(token: string): Promise<User | undefined> {
+  const decoded = verifyToken(token);
+  if (!decoded) return undefined;
+
+  const user = await storage.getUser(decoded.id);
+  return user && isCurrentSession(user, decoded.sv) ? user : undefined;
+}
+
 // Authentication middleware
 export function isAuthenticated(req: express.Request, res: express.Response, next: express.NextFunction) {
   if (req.isAuthenticated()) {
@@ -109,24 +206,72 @@ export function isAuthenticated(req: express.Request, res: express.Response, nex
   const authHeader = req.headers.authorization;
   if (authHeader && authHeader.startsWith('Bearer ')) {
     const token = authHeader.substring(7);
-    const decoded = verifyToken(token);
     
-    if (decoded) {
-      // Attach user to request
-      storage.getUser(decoded.id)
-        .then(user => {
-          if (user) {
-            (req as any).user = user;
-            return next();
-          }
-          res.status(401).json({ message: 'Unauthorized' });
-        })
-        .catch(() => {
-          res.status(401).json({ message: 'Unauthorized' });
-        });
-      return;
-    }
+    // Attach user to request
+    userFromToken(token)
+      .then(user => {
+        if (user) {
+          (req as any).user = user;
+          return next();
+        }
+        res.status(401).json({ message: 'Unauthorized' });
+      })
+      .catch(() => {
+        res.status(401).json({ message: 'Unauthorized' });
+      });
+    return;
   }
   
   res.status(401).json({ message: 'Unauthorized' });
-}
\ No newline at end of file
+}
+
+// Attach the user when a session or JWT is present, but let anonymous requests through
+export function optionalAuth(req: express.Request, _res: express.Response, next: express.NextFunction) {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    userFromToken(authHeader.substring(7))
+      .then(user => {
+        if (user) {
+          (req as any).user = user;
+        }
+        next();
+      })
+      .catch(() => next());
+    return;
+  }
+
+  next();
+}
+
+// Role and permission checks - use after isAuthenticated
+export function requireRole(role: UserRole) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (hasRole((req as any).user, role)) {
+      return next();
+    }
+    res.status(403).json({ message: 'Forbidden' });
+  };
+}
+
+export function requirePermission(permission: Permission) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (hasPermission((req as any).user, permission)) {
+      return next();
+    }
+    res.status(403).json({ message: 'Forbidden' });
+  };
+}
+
+// Keeps accounts with an unverified email away from the actions in UNVERIFIED_RESTRICTIONS - use after isAuthenticated
+export function requireVerifiedEmail(action: UnverifiedRestriction) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (!isRestricted((req as any).user, action)) {
+      return next();
+    }
+    res.status(403).json({ message: 'Please verify your email address first', code: 'EMAIL_NOT_VERIFIED' });
+  };
+}
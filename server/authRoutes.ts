@@ -4,12 +4,19 @@ import bcrypt from 'bcryptjs';
 import { z } from 'zod';
 import { storage } from './storage';
 import { insertUserSchema } from '@shared/schema';
-import { generateToken, isAuthenticated } from './auth';
+import { enabledOAuthProviders, generateToken, isAuthenticated } from './auth';
+import { PasswordResetError, resetPassword, sendPasswordReset } from './passwordReset';
+import { EmailVerificationError, sendVerificationEmail, verifyEmail } from './emailVerification';
+import { isOAuthProvider, linkedIdentity, OAuthError, unlinkOAuthIdentity } from './oauth';
+import { appUrl } from './emailTemplates';
+import { grantListedAdmin } from './roles';
+import type { OAuthProvider } from '@shared/schema';
 
 const router = Router();
 
 // Email validation schema with stronger validation
-const emailSchema = z.string().email().min(5).max(100);
+// Lowercased, so the address matches however it is typed here or reported by a login provider
+const emailSchema = z.string().trim().toLowerCase().email().min(5).max(100);
 
 // Password validation schema with strong password requirements
 const passwordSchema = z.string()
@@ -50,7 +57,7 @@ router.post('/register', async (req, res) => {
     const hashedPassword = await bcrypt.hash(validatedData.password, 10);
     
     // Create user
-    const user = await storage.createUser({
+    const user = await grantListedAdmin(await storage.createUser({
       username: validatedData.username,
       email: validatedData.email,
       password: hashedPassword,
@@ -59,7 +66,11 @@ router.post('/register', async (req, res) => {
       provider: 'local',
       providerId: null,
       refreshToken: null,
-    });
+      emailVerified: false,
+    }));
+    
+    // Unverified accounts can log in right away; the policy limits what they can do until they confirm
+    sendVerificationEmail(user).catch(error => console.error('Failed to send verification email:', error));
     
     // Generate token
     const token = generateToken(user);
@@ -79,7 +90,9 @@ router.post('/register', async (req, res) => {
           avatar: user.avatar,
           displayName: user.displayName,
           level: user.level,
-          xp: user.xp
+          xp: user.xp,
+          role: user.role,
+          emailVerified: user.emailVerified
         },
         token,
       });
@@ -125,7 +138,9 @@ router.post('/login', (req, res, next) => {
           avatar: user.avatar,
           displayName: user.displayName,
           level: user.level,
-          xp: user.xp
+          xp: user.xp,
+          role: user.role,
+          emailVerified: user.emailVerified
         },
         token,
       });
@@ -133,6 +148,197 @@ router.post('/login', (req, res, next) => {
   })(req, res, next);
 });
 
+// Social logins the server has credentials for, so the login page knows which buttons to show
+router.get('/providers', (_req, res) => {
+  res.json({ providers: enabledOAuthProviders });
+});
+
+function oauthProvider(req: any, res: any): OAuthProvider | undefined {
+  const { provider } = req.params;
+  if (isOAuthProvider(provider) && enabledOAuthProviders.includes(provider)) {
+    return provider;
+  }
+  res.status(404).json({ message: 'Unknown login provider' });
+}
+
+// Where the browser lands after a social login or link
+function oauthRedirect(linking: boolean, params: Record<string, string> = {}): string {
+  const pathname = linking ? '/profile' : params.error ? '/login' : '/';
+  const query = new URLSearchParams(params).toString();
+  return appUrl(query ? `${pathname}?${query}` : pathname);
+}
+
+// Start a social login; the provider sends the browser back to the callback below
+router.get('/oauth/:provider', (req: any, res, next) => {
+  const provider = oauthProvider(req, res);
+  if (!provider) return;
+  
+  delete req.session.oauthLink;
+  passport.authenticate(provider)(req, res, next);
+});
+
+// Start linking another provider to the logged-in account, from the profile page
+router.get('/oauth/:provider/link', isAuthenticated, (req: any, res, next) => {
+  const provider = oauthProvider(req, res);
+  if (!provider) return;
+  
+  req.session.oauthLink = req.user.id;
+  passport.authenticate(provider)(req, res, next);
+});
+
+// Return from the provider: log in (creating or merging the account) or finish linking
+router.get('/oauth/:provider/callback', (req: any, res, next) => {
+  const provider = oauthProvider(req, res);
+  if (!provider) return;
+  
+  const linking = Boolean(req.session.oauthLink);
+  passport.authenticate(provider, (err: any, user: any, info: any) => {
+    if (err) {
+      console.error(`${provider} login error:`, err);
+      return res.redirect(oauthRedirect(linking, { error: 'Login failed, please try again' }));
+    }
+    
+    if (!user) {
+      return res.redirect(oauthRedirect(linking, { error: info?.message || 'Login was cancelled' }));
+    }
+    
+    req.login(user, (err: any) => {
+      if (err) {
+        return next(err);
+      }
+      res.redirect(oauthRedirect(linking, linking ? { linked: provider } : {}));
+    });
+  })(req, res, next);
+});
+
+// Providers linked to the current account
+router.get('/identities', isAuthenticated, async (req: any, res) => {
+  try {
+    const identities = await storage.getUserIdentities(req.user.id);
+    res.json({
+      identities: identities.map(linkedIdentity),
+      hasPassword: Boolean(req.user.password),
+    });
+  } catch (error) {
+    console.error('Failed to fetch linked accounts:', error);
+    res.status(500).json({ message: 'Failed to fetch linked accounts' });
+  }
+});
+
+router.delete('/identities/:provider', isAuthenticated, async (req: any, res) => {
+  try {
+    const { provider } = req.params;
+    if (!isOAuthProvider(provider)) {
+      return res.status(404).json({ message: 'Unknown login provider' });
+    }
+    
+    await unlinkOAuthIdentity(req.user, provider);
+    res.json({ message: 'Account unlinked' });
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Failed to unlink account:', error);
+    res.status(500).json({ message: 'Failed to unlink account' });
+  }
+});
+
+// Start a password reset. The answer is the same whether or not the email has an account,
+// and the mail goes out after responding so the timing doesn't give it away either.
+router.post('/forgot-password', async (req, res) => {
+  try {
+    const { email } = z.object({ email: emailSchema }).parse(req.body);
+    
+    sendPasswordReset(email).catch(error => console.error('Failed to send password reset:', error));
+    
+    res.status(202).json({ message: 'If an account exists for that email, a link to reset the password is on its way.' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: error.errors 
+      });
+    }
+    console.error('Forgot password error:', error);
+    res.status(500).json({ message: 'Failed to start password reset' });
+  }
+});
+
+// Finish a password reset with the token from the email. Signs the user out everywhere.
+router.post('/reset-password', async (req, res) => {
+  try {
+    const validationSchema = z.object({
+      token: z.string().min(1),
+      password: passwordSchema,
+      confirmPassword: z.string()
+    }).refine((data) => data.password === data.confirmPassword, {
+      message: "Passwords don't match",
+      path: ["confirmPassword"],
+    });
+    
+    const { token, password } = validationSchema.parse(req.body);
+    await resetPassword(token, password);
+    
+    // Drop this browser's session too; the user logs in again with the new password
+    req.logout((err) => {
+      if (err) {
+        console.error('Logout after password reset failed:', err);
+      }
+      res.json({ message: 'Your password has been reset. Please log in with your new password.' });
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: error.errors 
+      });
+    }
+    if (error instanceof PasswordResetError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Reset password error:', error);
+    res.status(500).json({ message: 'Failed to reset password' });
+  }
+});
+
+// Confirm the address with the token from the verification email
+router.post('/verify-email', async (req, res) => {
+  try {
+    const { token } = z.object({ token: z.string().min(1) }).parse(req.body);
+    const user = await grantListedAdmin(await verifyEmail(token));
+    res.json({ message: 'Your email address is verified.', emailVerified: user.emailVerified });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ 
+        message: 'Validation failed', 
+        errors: error.errors 
+      });
+    }
+    if (error instanceof EmailVerificationError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Email verification error:', error);
+    res.status(500).json({ message: 'Failed to verify email' });
+  }
+});
+
+// Send a fresh verification link, e.g. after the first one expired
+router.post('/resend-verification', isAuthenticated, async (req: any, res) => {
+  try {
+    await sendVerificationEmail(req.user);
+    res.status(202).json({ message: 'A new verification link is on its way.' });
+  } catch (error) {
+    if (error instanceof EmailVerificationError) {
+      if (error.retryAfter) {
+        res.set('Retry-After', String(error.retryAfter));
+      }
+      return res.status(error.status).json({ message: error.message, retryAfter: error.retryAfter });
+    }
+    console.error('Resend verification error:', error);
+    res.status(500).json({ message: 'Failed to send verification email' });
+  }
+});
+
 // Get current user
 router.get('/user', isAuthenticated, async (req, res) => {
   const user = req.user as any;
@@ -146,6 +352,8 @@ router.get('/user', isAuthenticated, async (req, res) => {
     xp: user.xp || 0,
     provider: user.provider || 'local',
     providerId: user.providerId,
+    role: user.role || 'user',
+    emailVerified: user.emailVerified,
   });
 });
 
@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+
+// Where uploaded files live. Keys are slash-separated paths such as "memes/<id>/thumbnail.jpg".
+export interface BlobStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<string>;
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+  url(key: string): string;
+  // Reverse of url() - undefined when the url doesn't belong to this storage
+  keyForUrl(url: string): string | undefined;
+}
+
+// A key that would reach outside the storage, e.g. "../secrets"
+export class InvalidBlobKeyError extends Error {
+  constructor(key: string) {
+    super(`Invalid blob key "${key}"`);
+    this.name = 'InvalidBlobKeyError';
+  }
+}
+
+// Writes blobs under a local directory that the app serves statically
+export class LocalBlobStorage implements BlobStorage {
+  constructor(public readonly rootDir: string, public readonly publicPath: string) {}
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<string> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+    return this.url(key);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  url(key: string): string {
+    return `${this.publicPath.replace(/\/$/, '')}/${key}`;
+  }
+
+  keyForUrl(url: string): string | undefined {
+    const prefix = `${this.publicPath.replace(/\/$/, '')}/`;
+    return url.startsWith(prefix) && url.length > prefix.length ? url.slice(prefix.length) : undefined;
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new InvalidBlobKeyError(key);
+    }
+    return filePath;
+  }
+}
+
+// Pick the blob backend from UPLOAD_STORAGE; only 'local' exists so far
+export function createBlobStorage(backend = process.env.UPLOAD_STORAGE || 'local'): BlobStorage {
+  switch (backend) {
+    case 'local':
+      return new LocalBlobStorage(
+        path.resolve(process.env.UPLOAD_DIR || 'uploads'),
+        process.env.UPLOAD_PUBLIC_URL || '/uploads',
+      );
+    default:
+      throw new Error(`Unknown UPLOAD_STORAGE "${backend}"`);
+  }
+}
+
+export const blobStorage = createBlobStorage();
@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import { decodeCursor, encodeCursor, isAfter, pagePositionSchema, type PagePosition } from './pagination';
+import type { Comment } from '@shared/schema';
+
+export const commentSortModes = ['best', 'new', 'old'] as const;
+export type CommentSort = typeof commentSortModes[number];
+
+// Comments at or below this net score are sent collapsed
+export const COLLAPSE_SCORE_THRESHOLD = -5;
+
+export interface CommentTreeOptions {
+  sort: CommentSort;
+  // Number of levels returned, counted from the requested parent
+  maxDepth: number;
+  // Siblings returned at the requested level
+  limit: number;
+  // Siblings returned under each nested comment before "load more replies"
+  replyLimit: number;
+  cursor?: CommentCursor;
+}
+
+// Where a "load more" request resumes: the parent whose replies to list, the newest comment
+// id when the thread was first loaded, and the last reply already shown
+export interface CommentCursor {
+  parentId: number | null;
+  maxId: number;
+  after?: PagePosition;
+}
+
+const commentCursorSchema = z.object({
+  parentId: z.number().int().nullable(),
+  maxId: z.number().int().min(0),
+  after: pagePositionSchema.optional(),
+});
+
+export interface MoreReplies {
+  count: number;
+  cursor: string;
+}
+
+export type CommentNode<T extends Comment = Comment> = T & {
+  depth: number;
+  replyCount: number;
+  collapsed: boolean;
+  replies: CommentNode<T>[];
+  moreReplies: MoreReplies | null;
+};
+
+export function encodeCommentCursor(cursor: CommentCursor): string {
+  return encodeCursor(cursor);
+}
+
+export function decodeCommentCursor(token: string): CommentCursor | undefined {
+  return decodeCursor(token, commentCursorSchema);
+}
+
+function netScore(comment: Comment): number {
+  return (comment.upvotes ?? 0) - (comment.downvotes ?? 0);
+}
+
+// Siblings are listed by this value, highest first, then by newest id; ids follow posting order
+const sortScores: Record<CommentSort, (comment: Comment) => number> = {
+  // Wilson score lower bound, stored on the comment and refreshed on each vote
+  best: comment => comment.bestScore,
+  new: comment => comment.id,
+  old: comment => -comment.id,
+};
+
+// Build a nested reply tree from a meme's flat comment list
+export function buildCommentTree<T extends Comment>(
+  comments: T[],
+  options: CommentTreeOptions,
+): { comments: CommentNode<T>[]; nextCursor: string | null } {
+  const byId = new Map(comments.map(comment => [comment.id, comment]));
+  const childrenOf = new Map<number | null, T[]>();
+
+  for (const comment of comments) {
+    // Replies to a missing parent are shown at the top level rather than dropped
+    const parentId = comment.parentId !== null && byId.has(comment.parentId) ? comment.parentId : null;
+    const siblings = childrenOf.get(parentId) ?? [];
+    siblings.push(comment);
+    childrenOf.set(parentId, siblings);
+  }
+
+  const scoreOf = sortScores[options.sort];
+  const positionOf = (comment: Comment): PagePosition => ({ score: scoreOf(comment), id: comment.id });
+  childrenOf.forEach(siblings => siblings.sort((a, b) => scoreOf(b) - scoreOf(a) || b.id - a.id));
+
+  // Later pages keep to the comments that existed when the thread was first loaded
+  const maxId = options.cursor?.maxId ?? comments.reduce((max, comment) => Math.max(max, comment.id), 0);
+
+  const depths = new Map<number, number>();
+  const depthOf = (comment: T): number => {
+    const known = depths.get(comment.id);
+    if (known !== undefined) return known;
+
+    const parent = comment.parentId !== null ? byId.get(comment.parentId) : undefined;
+    const depth = parent ? depthOf(parent) + 1 : 0;
+    depths.set(comment.id, depth);
+    return depth;
+  };
+
+  const buildLevel = (parentId: number | null, level: number, after: PagePosition | undefined, limit: number) => {
+    const siblings = (childrenOf.get(parentId) ?? []).filter(comment => isAfter(positionOf(comment), after));
+    const page = siblings.slice(0, limit);
+    const remaining = siblings.length - page.length;
+
+    const nodes = page.map((comment): CommentNode<T> => {
+      const children = childrenOf.get(comment.id) ?? [];
+      let replies: CommentNode<T>[] = [];
+      let moreReplies: MoreReplies | null = null;
+
+      if (children.length > 0 && level + 1 >= options.maxDepth) {
+        // Too deep to expand inline - hand back a continuation for the whole branch
+        moreReplies = { count: children.length, cursor: encodeCommentCursor({ parentId: comment.id, maxId }) };
+      } else if (children.length > 0) {
+        const nested = buildLevel(comment.id, level + 1, undefined, options.replyLimit);
+        replies = nested.nodes;
+        if (nested.remaining > 0) {
+          moreReplies = { count: nested.remaining, cursor: nested.cursor! };
+        }
+      }
+
+      return {
+        ...comment,
+        depth: depthOf(comment),
+        replyCount: children.length,
+        collapsed: netScore(comment) <= COLLAPSE_SCORE_THRESHOLD,
+        replies,
+        moreReplies,
+      };
+    });
+
+    const cursor = remaining > 0
+      ? encodeCommentCursor({ parentId, maxId, after: positionOf(page[page.length - 1]) })
+      : null;
+
+    return { nodes, remaining, cursor };
+  };
+
+  const { parentId = null, after } = options.cursor ?? {};
+  const root = buildLevel(parentId, 0, after, options.limit);
+  return { comments: root.nodes, nextCursor: root.cursor };
+}
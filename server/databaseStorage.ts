@@ -0,0 +1,1315 @@
+import { and, asc, desc, eq, exists, gt, gte, ilike, inArray, isNotNull, isNull, like, lt, lte, notExists, or, sql, type SQL } from "drizzle-orm";
+import {
+  users, type User, type InsertUser, type UserRole, type UserKarma,
+  authTokens, type AuthToken, type AuthTokenPurpose,
+  userIdentities, type UserIdentity, type OAuthProvider,
+  roleChanges, type RoleChange,
+  follows, type FollowCounts,
+  memes, type Meme, type InsertMeme, type MemeWithAuthor,
+  feedSnapshots, type FeedSnapshot,
+  memeTemplates, type MemeTemplate, type InsertMemeTemplate, type MemeTemplateStats,
+  tags, memeTags, type Tag, type InsertTag, type TagWithCount,
+  comments, type Comment, type InsertComment, type CommentThread,
+  gameSessions, type GameSession, type InsertGameSession, type GameLeaderboardEntry,
+  resources, type Resource, type InsertResource,
+  votes, type VoteTargetType, type VoteValue,
+  xpEvents, type XpEvent, type InsertXpEvent, type XpReason,
+  reports, type Report, type InsertReport, type ReportTargetType, type ReportStatus, type ReportQueueEntry,
+  moderationActions, type ModerationAction, type InsertModerationAction, type ModerationStatus,
+  notifications, type Notification,
+  newsletterSubscribers, type NewsletterSubscriber,
+  newsletterSyncJobs, type NewsletterSyncJob, type NewsletterSyncAction, type NewsletterSyncStats,
+  emailSends, type EmailSend, type InsertEmailSend, type EmailKind,
+  type SearchHit, type SearchTargetType
+} from "@shared/schema";
+import { alias, type AnyPgColumn } from "drizzle-orm/pg-core";
+import type { Database } from "./db";
+import { MAX_NOTIFICATION_ACTORS, memeAuthor, voteTallyDelta, type GameLeaderboardQuery, type IStorage, type MemeFeedQuery, type NotificationEvent, type NotificationQuery, type ReportQueueQuery, type ResourceQuery, type SearchQuery, type TagQuery } from "./storage";
+import { hotScore, rankingCutoff, RISING_GRAVITY, wilsonScore } from "./ranking";
+import { toPage, type Page, type PagePosition } from "./pagination";
+
+function toLeaderboardEntry(row: {
+  rank: number;
+  userId: number | null;
+  username: string;
+  avatar: string | null;
+  level: number | null;
+  sessionId: number;
+  score: number;
+  sanityLeft: number;
+  endedAt: Date | null;
+}): GameLeaderboardEntry {
+  return {
+    ...row,
+    userId: row.userId!,
+    level: row.level ?? 1,
+    endedAt: row.endedAt!,
+  };
+}
+
+// Keyset condition for lists ordered by (score desc, id desc)
+function afterPosition(score: SQL, id: AnyPgColumn, after: PagePosition): SQL {
+  return or(lt(score, after.score), and(eq(score, after.score), lt(id, after.id)))!;
+}
+
+// Search vectors per type - these must match the GIN index expressions in shared/schema.ts
+const searchVectors: Record<SearchTargetType, SQL> = {
+  meme: sql`to_tsvector('english', coalesce(${memes.caption}, ''))`,
+  comment: sql`to_tsvector('english', ${comments.body})`,
+  resource: sql`(setweight(to_tsvector('english', ${resources.title}), 'A') || setweight(to_tsvector('english', coalesce(${resources.markdown}, '')), 'B'))`,
+};
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(sql`lower(${users.email}) = ${email.toLowerCase()}`).orderBy(asc(users.id)).limit(1);
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values({
+        email: insertUser.email,
+        username: insertUser.username,
+        password: insertUser.password || null,
+        displayName: insertUser.displayName || null,
+        avatar: insertUser.avatar || null,
+        provider: insertUser.provider || 'local',
+        providerId: insertUser.providerId || null,
+        refreshToken: insertUser.refreshToken || null,
+        emailVerified: insertUser.emailVerified ?? false,
+        legacyAccount: false,
+      })
+      .returning();
+    return user;
+  }
+
+  async updateUser(id: number, data: Partial<User>): Promise<User> {
+    const { id: _id, createdAt: _createdAt, ...changes } = data;
+    const [user] = await this.db
+      .update(users)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+
+    if (!user) {
+      throw new Error(`User with id ${id} not found`);
+    }
+
+    return user;
+  }
+
+  async backfillLegacyAccounts(): Promise<number> {
+    // Proving the address means asking for a link or logging in through a provider, which leaves a
+    // send time or a linked identity behind
+    const updated = await this.db
+      .update(users)
+      .set({ emailVerified: false })
+      .where(and(
+        eq(users.legacyAccount, true),
+        eq(users.emailVerified, true),
+        isNull(users.emailVerificationSentAt),
+        notExists(this.db.select({ id: userIdentities.id }).from(userIdentities).where(eq(userIdentities.userId, users.id))),
+      ))
+      .returning({ id: users.id });
+    return updated.length;
+  }
+  async getUserKarma(userId: number): Promise<UserKarma> {
+    const totals = (table: typeof memes | typeof comments) => this.db
+      .select({
+        count: sql<number>`count(*)::int`,
+        karma: sql<number>`coalesce(sum(coalesce(${table.upvotes}, 0) - coalesce(${table.downvotes}, 0)), 0)::int`,
+      })
+      .from(table)
+      .where(and(eq(table.authorId, userId), eq(table.moderationStatus, 'visible')));
+
+    const [[memeTotals], [commentTotals]] = await Promise.all([totals(memes), totals(comments)]);
+    return {
+      memeCount: memeTotals.count,
+      memeKarma: memeTotals.karma,
+      commentCount: commentTotals.count,
+      commentKarma: commentTotals.karma,
+    };
+  }
+
+  // Linked identity operations
+  async getUserIdentity(provider: OAuthProvider, providerId: string): Promise<UserIdentity | undefined> {
+    const [identity] = await this.db
+      .select()
+      .from(userIdentities)
+      .where(and(eq(userIdentities.provider, provider), eq(userIdentities.providerId, providerId)));
+    return identity;
+  }
+
+  async getUserIdentities(userId: number): Promise<UserIdentity[]> {
+    return this.db.select().from(userIdentities).where(eq(userIdentities.userId, userId)).orderBy(asc(userIdentities.id));
+  }
+
+  async linkUserIdentity(identity: { userId: number; provider: OAuthProvider; providerId: string; email?: string | null }): Promise<UserIdentity | undefined> {
+    // Either unique index can be the one hit
+    const [userIdentity] = await this.db.insert(userIdentities).values(identity).onConflictDoNothing().returning();
+    return userIdentity;
+  }
+
+  async unlinkUserIdentity(userId: number, provider: OAuthProvider): Promise<boolean> {
+    const removed = await this.db
+      .delete(userIdentities)
+      .where(and(eq(userIdentities.userId, userId), eq(userIdentities.provider, provider)))
+      .returning({ id: userIdentities.id });
+    return removed.length > 0;
+  }
+
+  // Auth token operations
+  async createAuthToken(token: { userId: number; purpose: AuthTokenPurpose; tokenHash: string; expiresAt: Date }): Promise<AuthToken> {
+    const [authToken] = await this.db.insert(authTokens).values(token).returning();
+    return authToken;
+  }
+
+  async consumeAuthToken(purpose: AuthTokenPurpose, tokenHash: string, now: Date = new Date()): Promise<AuthToken | undefined> {
+    // A single conditional update, so two requests racing with the same token can't both win
+    const [token] = await this.db
+      .update(authTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gt(authTokens.expiresAt, now),
+      ))
+      .returning();
+    return token;
+  }
+
+  async revokeAuthTokens(userId: number, purpose: AuthTokenPurpose): Promise<number> {
+    const revoked = await this.db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose), isNull(authTokens.usedAt)))
+      .returning({ id: authTokens.id });
+    return revoked.length;
+  }
+
+  async countAuthTokensSince(userId: number, purpose: AuthTokenPurpose, since: Date): Promise<number> {
+    const [row] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(authTokens)
+      .where(and(
+        eq(authTokens.userId, userId),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gte(authTokens.createdAt, since),
+      ));
+    return row?.count ?? 0;
+  }
+
+
+  // Role operations
+  async getUsersByRole(role: UserRole): Promise<User[]> {
+    return this.db.select().from(users).where(eq(users.role, role)).orderBy(asc(users.id));
+  }
+
+  async setUserRole(userId: number, role: UserRole, { actorId, reason }: { actorId: number | null; reason?: string | null }): Promise<{ user: User; change: RoleChange } | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Lock the row so concurrent changes are audited in the order they are applied
+      const [current] = await tx.select().from(users).where(eq(users.id, userId)).for('update');
+      if (!current) return undefined;
+
+      const [user] = await tx
+        .update(users)
+        .set({ role, updatedAt: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+      const [change] = await tx
+        .insert(roleChanges)
+        .values({ actorId, userId, previousRole: current.role, newRole: role, reason: reason ?? null })
+        .returning();
+
+      return { user, change };
+    });
+  }
+
+  async getRoleChanges({ userId, limit }: { userId?: number; limit: number }): Promise<RoleChange[]> {
+    return this.db
+      .select()
+      .from(roleChanges)
+      .where(userId !== undefined ? eq(roleChanges.userId, userId) : undefined)
+      .orderBy(desc(roleChanges.createdAt), desc(roleChanges.id))
+      .limit(limit);
+  }
+
+  // Follow operations
+  async followUser(followerId: number, followeeId: number): Promise<boolean> {
+    const inserted = await this.db
+      .insert(follows)
+      .values({ followerId, followeeId })
+      .onConflictDoNothing()
+      .returning();
+    return inserted.length > 0;
+  }
+
+  async unfollowUser(followerId: number, followeeId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(follows)
+      .where(and(eq(follows.followerId, followerId), eq(follows.followeeId, followeeId)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async isFollowing(followerId: number, followeeId: number): Promise<boolean> {
+    const [row] = await this.db
+      .select({ followerId: follows.followerId })
+      .from(follows)
+      .where(and(eq(follows.followerId, followerId), eq(follows.followeeId, followeeId)));
+    return row !== undefined;
+  }
+
+  async getFollowCounts(userId: number): Promise<FollowCounts> {
+    const [row] = await this.db
+      .select({
+        followers: sql<number>`count(*) filter (where ${follows.followeeId} = ${userId})::int`,
+        following: sql<number>`count(*) filter (where ${follows.followerId} = ${userId})::int`,
+      })
+      .from(follows)
+      .where(or(eq(follows.followeeId, userId), eq(follows.followerId, userId)));
+    return { followers: row?.followers ?? 0, following: row?.following ?? 0 };
+  }
+
+  async getFollowerIds(userId: number): Promise<number[]> {
+    const rows = await this.db
+      .select({ id: follows.followerId })
+      .from(follows)
+      .where(eq(follows.followeeId, userId));
+    return rows.map(row => row.id);
+  }
+
+  async getFollowingIds(userId: number): Promise<number[]> {
+    const rows = await this.db
+      .select({ id: follows.followeeId })
+      .from(follows)
+      .where(eq(follows.followerId, userId));
+    return rows.map(row => row.id);
+  }
+
+  // Meme operations
+  async getMemes({ after, limit, ...query }: MemeFeedQuery): Promise<Page<MemeWithAuthor>> {
+    const { score, filter } = this.memeRanking(query);
+    const rows = await this.db
+      .select({ meme: memes, author: users, score: sql<number>`${score}`.mapWith(Number) })
+      .from(memes)
+      .leftJoin(users, eq(memes.authorId, users.id))
+      .where(and(filter, after ? afterPosition(score, memes.id, after) : undefined))
+      .orderBy(desc(score), desc(memes.id))
+      .limit(limit + 1);
+
+    const page = toPage(rows, limit, row => ({ score: row.score, id: row.meme.id }));
+    return { ...page, items: page.items.map(({ meme, author }) => ({ ...meme, author: memeAuthor(author ?? undefined) })) };
+  }
+
+  async getMemeRanking({ limit, ...query }: Omit<MemeFeedQuery, 'after'>): Promise<number[]> {
+    const { score, filter } = this.memeRanking(query);
+    const rows = await this.db
+      .select({ id: memes.id })
+      .from(memes)
+      .where(filter)
+      .orderBy(desc(score), desc(memes.id))
+      .limit(limit);
+    return rows.map(row => row.id);
+  }
+
+  // The sort value and filter shared by every page of a feed
+  private memeRanking({ sort, window = 'all', tagId, followerId, asOf = new Date() }: Omit<MemeFeedQuery, 'after' | 'limit'>) {
+    const cutoff = rankingCutoff(sort, window, asOf);
+    const net = sql`coalesce(${memes.upvotes}, 0) - coalesce(${memes.downvotes}, 0)`;
+    // Same values as feedScore() in server/ranking.ts
+    const ageHours = sql`greatest(extract(epoch from (${asOf.toISOString()}::timestamp - ${memes.createdAt})) / 3600, 0)`;
+    const score: SQL = sort === 'new'
+      ? sql`${memes.id}`
+      : sort === 'top'
+        ? net
+        : sort === 'rising'
+          ? sql`(${net}) / power(${ageHours} + 2, ${RISING_GRAVITY})`
+          : sql`${memes.hotScore}`;
+
+    return {
+      score,
+      filter: and(
+        eq(memes.moderationStatus, 'visible'),
+        lte(memes.createdAt, asOf),
+        cutoff ? gte(memes.createdAt, cutoff) : undefined,
+        tagId !== undefined
+          ? exists(this.db.select().from(memeTags).where(and(eq(memeTags.memeId, memes.id), eq(memeTags.tagId, tagId))))
+          : undefined,
+        followerId !== undefined
+          ? exists(this.db.select().from(follows).where(and(eq(follows.followerId, followerId), eq(follows.followeeId, memes.authorId))))
+          : undefined,
+      ),
+    };
+  }
+
+  async getMemesByIds(ids: number[]): Promise<MemeWithAuthor[]> {
+    if (ids.length === 0) return [];
+    const rows = await this.db
+      .select({ meme: memes, author: users })
+      .from(memes)
+      .leftJoin(users, eq(memes.authorId, users.id))
+      .where(and(inArray(memes.id, ids), eq(memes.moderationStatus, 'visible')));
+
+    const byId = new Map(rows.map(({ meme, author }) => [meme.id, { ...meme, author: memeAuthor(author ?? undefined) }]));
+    return ids.flatMap(id => byId.get(id) ?? []);
+  }
+
+  async getMemesByUser(userId: number, limit: number, after?: PagePosition): Promise<Page<MemeWithAuthor>> {
+    const rows = await this.db
+      .select({ meme: memes, author: users })
+      .from(memes)
+      .leftJoin(users, eq(memes.authorId, users.id))
+      .where(and(
+        eq(memes.authorId, userId),
+        eq(memes.moderationStatus, 'visible'),
+        after ? lt(memes.id, after.id) : undefined,
+      ))
+      .orderBy(desc(memes.id))
+      .limit(limit + 1);
+
+    const page = toPage(rows, limit, row => ({ score: row.meme.id, id: row.meme.id }));
+    return { ...page, items: page.items.map(({ meme, author }) => ({ ...meme, author: memeAuthor(author ?? undefined) })) };
+  }
+
+  async getMeme(id: number): Promise<MemeWithAuthor | undefined> {
+    const [row] = await this.db
+      .select({ meme: memes, author: users })
+      .from(memes)
+      .leftJoin(users, eq(memes.authorId, users.id))
+      .where(eq(memes.id, id));
+
+    if (!row) return undefined;
+    return { ...row.meme, author: memeAuthor(row.author ?? undefined) };
+  }
+
+  async createMeme(insertMeme: InsertMeme): Promise<Meme> {
+    const createdAt = new Date();
+    const [meme] = await this.db
+      .insert(memes)
+      .values({ ...insertMeme, createdAt, hotScore: hotScore(0, 0, createdAt) })
+      .returning();
+    return meme;
+  }
+
+  async refreshRankingScores(): Promise<number> {
+    // Rows added before the score columns existed still have the column default
+    const staleMemes = await this.db
+      .select({ id: memes.id, upvotes: memes.upvotes, downvotes: memes.downvotes, createdAt: memes.createdAt })
+      .from(memes)
+      .where(eq(memes.hotScore, 0));
+    for (const meme of staleMemes) {
+      await this.db
+        .update(memes)
+        .set({ hotScore: hotScore(meme.upvotes, meme.downvotes, meme.createdAt) })
+        .where(eq(memes.id, meme.id));
+    }
+
+    const staleComments = await this.db
+      .select({ id: comments.id, upvotes: comments.upvotes, downvotes: comments.downvotes })
+      .from(comments)
+      .where(and(eq(comments.bestScore, 0), sql`coalesce(${comments.upvotes}, 0) > 0`));
+    for (const comment of staleComments) {
+      await this.db
+        .update(comments)
+        .set({ bestScore: wilsonScore(comment.upvotes, comment.downvotes) })
+        .where(eq(comments.id, comment.id));
+    }
+
+    return staleMemes.length + staleComments.length;
+  }
+
+  // Feed snapshot operations
+  async createFeedSnapshot(snapshot: { id: string; memeIds: number[] }): Promise<FeedSnapshot> {
+    const [created] = await this.db.insert(feedSnapshots).values(snapshot).returning();
+    return created;
+  }
+
+  async getFeedSnapshot(id: string): Promise<FeedSnapshot | undefined> {
+    const [snapshot] = await this.db.select().from(feedSnapshots).where(eq(feedSnapshots.id, id));
+    return snapshot;
+  }
+
+  async deleteFeedSnapshots(before: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(feedSnapshots)
+      .where(lt(feedSnapshots.createdAt, before))
+      .returning({ id: feedSnapshots.id });
+    return deleted.length;
+  }
+
+  // Meme template operations
+  async getMemeTemplates(): Promise<MemeTemplate[]> {
+    return this.db.select().from(memeTemplates).orderBy(asc(memeTemplates.id));
+  }
+
+  async getMemeTemplate(id: number): Promise<MemeTemplate | undefined> {
+    const [template] = await this.db.select().from(memeTemplates).where(eq(memeTemplates.id, id));
+    return template;
+  }
+
+  async createMemeTemplate(insertTemplate: InsertMemeTemplate): Promise<MemeTemplate> {
+    const [template] = await this.db.insert(memeTemplates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async getMemeTemplateStats(recentSince: Date): Promise<MemeTemplateStats[]> {
+    const rows = await this.db
+      .select({
+        templateId: memes.templateId,
+        memeCount: sql<number>`count(*)::int`,
+        recentMemeCount: sql<number>`(count(*) filter (where ${memes.createdAt} >= ${recentSince}))::int`,
+        upvotes: sql<number>`coalesce(sum(${memes.upvotes}), 0)::int`,
+        lastUsedAt: sql<Date | null>`max(${memes.createdAt})`.mapWith(memes.createdAt),
+      })
+      .from(memes)
+      .where(isNotNull(memes.templateId))
+      .groupBy(memes.templateId);
+
+    return rows.map(row => ({ ...row, templateId: row.templateId! }));
+  }
+
+  // Tag operations
+  async getTag(id: number): Promise<Tag | undefined> {
+    const [tag] = await this.db.select().from(tags).where(eq(tags.id, id));
+    return tag;
+  }
+
+  async getTagBySlug(slug: string): Promise<Tag | undefined> {
+    const [tag] = await this.db.select().from(tags).where(eq(tags.slug, slug));
+    return tag;
+  }
+
+  async getTagsBySlugs(slugs: string[]): Promise<Tag[]> {
+    if (slugs.length === 0) return [];
+    return this.db.select().from(tags).where(inArray(tags.slug, slugs));
+  }
+
+  async getTags({ prefix, curatedOnly, sort, limit, offset = 0 }: TagQuery): Promise<TagWithCount[]> {
+    const memeCount = sql<number>`count(${memes.id})::int`;
+    const pattern = prefix ? `${prefix.toLowerCase().replace(/[\\%_]/g, '\\$&')}%` : undefined;
+
+    const rows = await this.db
+      .select({ tag: tags, memeCount })
+      .from(tags)
+      .leftJoin(memeTags, eq(memeTags.tagId, tags.id))
+      .leftJoin(memes, and(eq(memes.id, memeTags.memeId), eq(memes.moderationStatus, 'visible')))
+      .where(and(
+        isNull(tags.aliasOf),
+        curatedOnly ? eq(tags.curated, true) : undefined,
+        pattern ? or(like(tags.slug, pattern), ilike(tags.name, pattern)) : undefined,
+      ))
+      .groupBy(tags.id)
+      .orderBy(...(sort === 'name'
+        ? [asc(tags.slug)]
+        : [desc(memeCount), desc(tags.curated), asc(tags.slug)]))
+      .limit(limit)
+      .offset(offset);
+
+    return rows.map(({ tag, memeCount }) => ({ ...tag, memeCount }));
+  }
+
+  async getTagAliases(tagId: number): Promise<Tag[]> {
+    return this.db.select().from(tags).where(eq(tags.aliasOf, tagId)).orderBy(asc(tags.slug));
+  }
+
+  async countTagMemes(tagId: number): Promise<number> {
+    const [row] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(memeTags)
+      .innerJoin(memes, eq(memes.id, memeTags.memeId))
+      .where(and(eq(memeTags.tagId, tagId), eq(memes.moderationStatus, 'visible')));
+    return row?.count ?? 0;
+  }
+
+  async createTag(insertTag: InsertTag): Promise<Tag> {
+    const [tag] = await this.db.insert(tags).values(insertTag).returning();
+    return tag;
+  }
+
+  async updateTag(id: number, data: Partial<InsertTag>): Promise<Tag | undefined> {
+    const [tag] = await this.db.update(tags).set(data).where(eq(tags.id, id)).returning();
+    return tag;
+  }
+
+  async getMemeTags(memeIds: number[]): Promise<Map<number, Tag[]>> {
+    const result = new Map<number, Tag[]>(memeIds.map(id => [id, []]));
+    if (memeIds.length === 0) return result;
+
+    const rows = await this.db
+      .select({ memeId: memeTags.memeId, tag: tags })
+      .from(memeTags)
+      .innerJoin(tags, eq(tags.id, memeTags.tagId))
+      .where(inArray(memeTags.memeId, memeIds))
+      .orderBy(asc(memeTags.createdAt), asc(tags.id));
+
+    rows.forEach(({ memeId, tag }) => result.get(memeId)?.push(tag));
+    return result;
+  }
+
+  async setMemeTags(memeId: number, tagIds: number[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(memeTags).where(eq(memeTags.memeId, memeId));
+      if (tagIds.length > 0) {
+        await tx.insert(memeTags).values(tagIds.map(tagId => ({ memeId, tagId })));
+      }
+    });
+  }
+
+  async mergeTags(sourceId: number, targetId: number): Promise<number> {
+    return this.db.transaction(async (tx) => {
+      // Memes that had both tags keep a single link to the target
+      const moved = await tx
+        .update(memeTags)
+        .set({ tagId: targetId })
+        .where(and(
+          eq(memeTags.tagId, sourceId),
+          sql`not exists (select 1 from ${memeTags} as existing where existing.meme_id = ${memeTags.memeId} and existing.tag_id = ${targetId})`,
+        ))
+        .returning({ memeId: memeTags.memeId });
+      await tx.delete(memeTags).where(eq(memeTags.tagId, sourceId));
+
+      // The source and anything that pointed at it now resolve to the target
+      await tx
+        .update(tags)
+        .set({ aliasOf: targetId })
+        .where(or(eq(tags.id, sourceId), eq(tags.aliasOf, sourceId)));
+
+      return moved.length;
+    });
+  }
+
+  // Comment operations
+  async getComments(memeId: number, maxId?: number): Promise<Comment[]> {
+    return this.db
+      .select()
+      .from(comments)
+      .where(and(
+        eq(comments.memeId, memeId),
+        eq(comments.moderationStatus, 'visible'),
+        maxId !== undefined ? lte(comments.id, maxId) : undefined,
+      ))
+      .orderBy(desc(comments.createdAt), desc(comments.id));
+  }
+
+  async getComment(id: number): Promise<Comment | undefined> {
+    const [comment] = await this.db.select().from(comments).where(eq(comments.id, id));
+    return comment;
+  }
+
+  async getCommentsByUser(userId: number, limit: number): Promise<Comment[]> {
+    return this.db
+      .select()
+      .from(comments)
+      .where(and(eq(comments.authorId, userId), eq(comments.moderationStatus, 'visible')))
+      .orderBy(desc(comments.id))
+      .limit(limit);
+  }
+
+  async getCommentThreads(since: Date, limit: number): Promise<CommentThread[]> {
+    const replies = alias(comments, 'replies');
+    const replyCount = sql<number>`count(${replies.id})::int`;
+    const rows = await this.db
+      .select({ comment: comments, replyCount })
+      .from(comments)
+      // A thread under a hidden or removed meme is out of sight too
+      .innerJoin(memes, and(eq(memes.id, comments.memeId), eq(memes.moderationStatus, 'visible')))
+      .leftJoin(replies, and(eq(replies.parentId, comments.id), eq(replies.moderationStatus, 'visible')))
+      .where(and(
+        eq(comments.moderationStatus, 'visible'),
+        isNull(comments.parentId),
+        gt(comments.createdAt, since),
+      ))
+      .groupBy(comments.id)
+      .orderBy(
+        desc(replyCount),
+        desc(sql`coalesce(${comments.upvotes}, 0) - coalesce(${comments.downvotes}, 0)`),
+        desc(comments.id),
+      )
+      .limit(limit);
+    return rows.map(row => ({ ...row.comment, replyCount: row.replyCount }));
+  }
+
+  async countComments(memeId: number): Promise<number> {
+    const [row] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(comments)
+      .where(and(eq(comments.memeId, memeId), eq(comments.moderationStatus, 'visible')));
+    return row?.count ?? 0;
+  }
+
+  async createComment(insertComment: InsertComment): Promise<Comment> {
+    const [comment] = await this.db.insert(comments).values(insertComment).returning();
+    return comment;
+  }
+
+  // Game session operations
+  async getGameSessions(userId: number, limit: number = 10): Promise<GameSession[]> {
+    return this.db
+      .select()
+      .from(gameSessions)
+      .where(eq(gameSessions.userId, userId))
+      .orderBy(desc(gameSessions.createdAt), desc(gameSessions.id))
+      .limit(limit);
+  }
+
+  async getGameSession(id: number): Promise<GameSession | undefined> {
+    const [session] = await this.db.select().from(gameSessions).where(eq(gameSessions.id, id));
+    return session;
+  }
+
+  async createGameSession(insertSession: InsertGameSession): Promise<GameSession> {
+    const [session] = await this.db.insert(gameSessions).values(insertSession).returning();
+    return session;
+  }
+
+  async updateGameSession(id: number, data: Partial<GameSession>): Promise<GameSession> {
+    const { id: _id, createdAt: _createdAt, ...changes } = data;
+    const [session] = await this.db
+      .update(gameSessions)
+      .set(changes)
+      .where(eq(gameSessions.id, id))
+      .returning();
+
+    if (!session) throw new Error('Game session not found');
+    return session;
+  }
+
+  async getGameLeaderboard({ since, userIds, limit, offset = 0 }: GameLeaderboardQuery): Promise<GameLeaderboardEntry[]> {
+    const ranked = this.rankedGameSessions(since, userIds);
+    const rows = await this.db
+      .with(ranked)
+      .select()
+      .from(ranked)
+      .orderBy(ranked.rank)
+      .limit(limit)
+      .offset(offset);
+    return rows.map(toLeaderboardEntry);
+  }
+
+  async getGameLeaderboardEntry(userId: number, { since, userIds }: Pick<GameLeaderboardQuery, 'since' | 'userIds'>): Promise<GameLeaderboardEntry | undefined> {
+    const ranked = this.rankedGameSessions(since, userIds);
+    const [row] = await this.db
+      .with(ranked)
+      .select()
+      .from(ranked)
+      .where(eq(ranked.userId, userId));
+    return row ? toLeaderboardEntry(row) : undefined;
+  }
+
+  // Best completed session per user, ranked by score, then sanity left, then earliest finish
+  private rankedGameSessions(since?: Date, userIds?: number[]) {
+    const score = sql`coalesce(${gameSessions.score}, 0)`;
+    const sanityLeft = sql`coalesce(${gameSessions.sanityLeft}, 0)`;
+    const best = this.db
+      .selectDistinctOn([gameSessions.userId], {
+        sessionId: gameSessions.id,
+        userId: gameSessions.userId,
+        score: sql<number>`${score}`.as('score'),
+        sanityLeft: sql<number>`${sanityLeft}`.as('sanity_left'),
+        endedAt: gameSessions.endedAt,
+      })
+      .from(gameSessions)
+      .where(and(
+        isNotNull(gameSessions.endedAt),
+        isNotNull(gameSessions.userId),
+        since ? gte(gameSessions.endedAt, since) : undefined,
+        userIds ? inArray(gameSessions.userId, userIds) : undefined,
+      ))
+      .orderBy(gameSessions.userId, desc(score), desc(sanityLeft), asc(gameSessions.endedAt), asc(gameSessions.id))
+      .as('best');
+
+    return this.db.$with('ranked').as(
+      this.db
+        .select({
+          rank: sql<number>`row_number() over (order by ${best.score} desc, ${best.sanityLeft} desc, ${best.endedAt} asc, ${best.sessionId} asc)::int`.as('rank'),
+          userId: best.userId,
+          username: users.username,
+          avatar: users.avatar,
+          level: users.level,
+          sessionId: best.sessionId,
+          score: best.score,
+          sanityLeft: best.sanityLeft,
+          endedAt: best.endedAt,
+        })
+        .from(best)
+        .innerJoin(users, eq(users.id, best.userId)),
+    );
+  }
+
+  // Resource operations
+  async getResources({ category, since, after, limit }: ResourceQuery): Promise<Page<Resource>> {
+    const score = sql`coalesce(${resources.votes}, 0)`;
+    const rows = await this.db
+      .select()
+      .from(resources)
+      .where(and(
+        eq(resources.moderationStatus, 'visible'),
+        category ? eq(resources.category, category) : undefined,
+        since ? gt(resources.createdAt, since) : undefined,
+        after ? afterPosition(score, resources.id, after) : undefined,
+      ))
+      .orderBy(desc(score), desc(resources.id))
+      .limit(limit + 1);
+
+    return toPage(rows, limit, resource => ({ score: resource.votes ?? 0, id: resource.id }));
+  }
+
+  async getResource(id: number): Promise<Resource | undefined> {
+    const [resource] = await this.db.select().from(resources).where(eq(resources.id, id));
+    return resource;
+  }
+
+  async createResource(insertResource: InsertResource): Promise<Resource> {
+    const [resource] = await this.db.insert(resources).values(insertResource).returning();
+    return resource;
+  }
+
+  // Vote operations
+  async getUserVotes(userId: number, targetType: VoteTargetType, targetIds: number[]): Promise<Map<number, VoteValue>> {
+    const userVotes = new Map<number, VoteValue>();
+    if (targetIds.length === 0) return userVotes;
+
+    const rows = await this.db
+      .select({ targetId: votes.targetId, value: votes.value })
+      .from(votes)
+      .where(and(
+        eq(votes.userId, userId),
+        eq(votes.targetType, targetType),
+        inArray(votes.targetId, targetIds),
+      ));
+
+    for (const row of rows) {
+      userVotes.set(row.targetId, row.value as VoteValue);
+    }
+    return userVotes;
+  }
+
+  async castVote(userId: number, targetType: VoteTargetType, targetId: number, value: VoteValue): Promise<VoteValue | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Lock the voted item first. A missing vote row can't be locked, so without this two
+      // concurrent first votes would both read `previous = 0` and both count. The lock also
+      // keeps a moderator from hiding the item between this check and the vote.
+      const [target] = targetType === 'meme'
+        ? await tx.select({ status: memes.moderationStatus }).from(memes).where(eq(memes.id, targetId)).for('update')
+        : targetType === 'comment'
+          ? await tx.select({ status: comments.moderationStatus }).from(comments).where(eq(comments.id, targetId)).for('update')
+          : await tx.select({ status: resources.moderationStatus }).from(resources).where(eq(resources.id, targetId)).for('update');
+      if (target?.status !== 'visible') return undefined;
+
+      const voteMatch = and(
+        eq(votes.userId, userId),
+        eq(votes.targetType, targetType),
+        eq(votes.targetId, targetId),
+      );
+      const [existingVote] = await tx.select().from(votes).where(voteMatch);
+      const previous = (existingVote?.value ?? 0) as VoteValue;
+
+      if (value === 0) {
+        await tx.delete(votes).where(voteMatch);
+      } else {
+        await tx
+          .insert(votes)
+          .values({ userId, targetType, targetId, value })
+          .onConflictDoUpdate({
+            target: [votes.userId, votes.targetType, votes.targetId],
+            set: { value, updatedAt: new Date() },
+          });
+      }
+
+      const { up, down } = voteTallyDelta(previous, value);
+      // The tally update locks the row, so the refreshed score always matches the final counts
+      if (targetType === 'meme') {
+        const [meme] = await tx
+          .update(memes)
+          .set({
+            upvotes: sql`coalesce(${memes.upvotes}, 0) + ${up}`,
+            downvotes: sql`coalesce(${memes.downvotes}, 0) + ${down}`,
+          })
+          .where(eq(memes.id, targetId))
+          .returning({ upvotes: memes.upvotes, downvotes: memes.downvotes, createdAt: memes.createdAt });
+        if (meme) {
+          await tx
+            .update(memes)
+            .set({ hotScore: hotScore(meme.upvotes, meme.downvotes, meme.createdAt) })
+            .where(eq(memes.id, targetId));
+        }
+      } else if (targetType === 'comment') {
+        const [comment] = await tx
+          .update(comments)
+          .set({
+            upvotes: sql`coalesce(${comments.upvotes}, 0) + ${up}`,
+            downvotes: sql`coalesce(${comments.downvotes}, 0) + ${down}`,
+          })
+          .where(eq(comments.id, targetId))
+          .returning({ upvotes: comments.upvotes, downvotes: comments.downvotes });
+        if (comment) {
+          await tx
+            .update(comments)
+            .set({ bestScore: wilsonScore(comment.upvotes, comment.downvotes) })
+            .where(eq(comments.id, targetId));
+        }
+      } else {
+        await tx
+          .update(resources)
+          .set({ votes: sql`coalesce(${resources.votes}, 0) + ${up - down}` })
+          .where(eq(resources.id, targetId));
+      }
+
+      return previous;
+    });
+  }
+
+  // XP operations
+  async recordXpEvent(
+    insertEvent: InsertXpEvent,
+    cap: { daily: number; since: Date },
+    levelFor: (xp: number) => number,
+  ): Promise<{ event: XpEvent; user: User; previousLevel: number } | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Locking the user serializes their awards, so the cap check and the insert can't interleave
+      const [locked] = await tx
+        .select({ xp: users.xp, level: users.level })
+        .from(users)
+        .where(eq(users.id, insertEvent.userId))
+        .for('update');
+      if (!locked) throw new Error(`User with id ${insertEvent.userId} not found`);
+
+      const eventMatch = and(eq(xpEvents.userId, insertEvent.userId), eq(xpEvents.reason, insertEvent.reason));
+      if (insertEvent.actorId != null) {
+        const [earlier] = await tx
+          .select({ id: xpEvents.id })
+          .from(xpEvents)
+          .where(and(
+            eventMatch,
+            eq(xpEvents.actorId, insertEvent.actorId),
+            insertEvent.sourceType != null ? eq(xpEvents.sourceType, insertEvent.sourceType) : isNull(xpEvents.sourceType),
+            insertEvent.sourceId != null ? eq(xpEvents.sourceId, insertEvent.sourceId) : isNull(xpEvents.sourceId),
+          ))
+          .limit(1);
+        if (earlier) return undefined;
+      }
+
+      const [earned] = await tx
+        .select({ total: sql<number>`coalesce(sum(${xpEvents.amount}), 0)::int` })
+        .from(xpEvents)
+        .where(and(eventMatch, gte(xpEvents.createdAt, cap.since)));
+      const amount = Math.min(insertEvent.amount, cap.daily - (earned?.total ?? 0));
+      if (amount <= 0) return undefined;
+
+      const [event] = await tx.insert(xpEvents).values({ ...insertEvent, amount }).returning();
+      const xp = (locked.xp ?? 0) + amount;
+      const [user] = await tx
+        .update(users)
+        .set({ xp, level: levelFor(xp), updatedAt: new Date() })
+        .where(eq(users.id, insertEvent.userId))
+        .returning();
+      return { event, user, previousLevel: locked.level ?? 1 };
+    });
+  }
+
+  async getXpEarnedSince(userId: number, reason: XpReason, since: Date): Promise<number> {
+    const [row] = await this.db
+      .select({ total: sql<number>`coalesce(sum(${xpEvents.amount}), 0)::int` })
+      .from(xpEvents)
+      .where(and(
+        eq(xpEvents.userId, userId),
+        eq(xpEvents.reason, reason),
+        gte(xpEvents.createdAt, since),
+      ));
+    return row?.total ?? 0;
+  }
+
+  async getXpEvents(userId: number, limit: number = 50): Promise<XpEvent[]> {
+    return this.db
+      .select()
+      .from(xpEvents)
+      .where(eq(xpEvents.userId, userId))
+      .orderBy(desc(xpEvents.createdAt), desc(xpEvents.id))
+      .limit(limit);
+  }
+
+  // Moderation operations
+  async createReport(insertReport: InsertReport): Promise<Report | undefined> {
+    const [report] = await this.db
+      .insert(reports)
+      .values(insertReport)
+      .onConflictDoNothing({ target: [reports.reporterId, reports.targetType, reports.targetId] })
+      .returning();
+    return report;
+  }
+
+  async getReports(targetType: ReportTargetType, targetId: number, status?: ReportStatus): Promise<Report[]> {
+    return this.db
+      .select()
+      .from(reports)
+      .where(and(
+        eq(reports.targetType, targetType),
+        eq(reports.targetId, targetId),
+        status ? eq(reports.status, status) : undefined,
+      ))
+      .orderBy(desc(reports.createdAt), desc(reports.id));
+  }
+
+  async countReports(targetType: ReportTargetType, targetId: number, status: ReportStatus): Promise<number> {
+    const [row] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(reports)
+      .where(and(eq(reports.targetType, targetType), eq(reports.targetId, targetId), eq(reports.status, status)));
+    return row?.count ?? 0;
+  }
+
+  async getReportQueue({ status, targetType, limit, offset = 0 }: ReportQueueQuery): Promise<ReportQueueEntry[]> {
+    const reportCount = sql<number>`count(*)::int`;
+    const lastReportedAt = sql<Date>`max(${reports.createdAt})`.mapWith(reports.createdAt);
+    const inQueue = and(eq(reports.status, status), targetType ? eq(reports.targetType, targetType) : undefined);
+
+    const page = await this.db
+      .select({
+        targetType: reports.targetType,
+        targetId: reports.targetId,
+        reportCount,
+        firstReportedAt: sql<Date>`min(${reports.createdAt})`.mapWith(reports.createdAt),
+        lastReportedAt,
+      })
+      .from(reports)
+      .where(inQueue)
+      .groupBy(reports.targetType, reports.targetId)
+      .orderBy(desc(reportCount), desc(lastReportedAt), asc(reports.targetType), asc(reports.targetId))
+      .limit(limit)
+      .offset(offset);
+
+    if (page.length === 0) return [];
+
+    // Break each item's reports down by reason
+    const reasonRows = await this.db
+      .select({ targetType: reports.targetType, targetId: reports.targetId, reason: reports.reason, count: reportCount })
+      .from(reports)
+      .where(and(
+        inQueue,
+        or(...page.map(entry => and(eq(reports.targetType, entry.targetType), eq(reports.targetId, entry.targetId)))),
+      ))
+      .groupBy(reports.targetType, reports.targetId, reports.reason);
+
+    return page.map(entry => ({
+      ...entry,
+      reasons: Object.fromEntries(reasonRows
+        .filter(row => row.targetType === entry.targetType && row.targetId === entry.targetId)
+        .map(row => [row.reason, row.count])),
+    }));
+  }
+
+  async resolveReports(targetType: ReportTargetType, targetId: number, status: ReportStatus, resolvedBy: number | null): Promise<number> {
+    const resolved = await this.db
+      .update(reports)
+      .set({ status, resolvedBy, resolvedAt: new Date() })
+      .where(and(eq(reports.targetType, targetType), eq(reports.targetId, targetId), eq(reports.status, 'open')))
+      .returning({ id: reports.id });
+    return resolved.length;
+  }
+
+  async setModerationStatus(targetType: ReportTargetType, targetId: number, status: ModerationStatus): Promise<boolean> {
+    const table = targetType === 'meme' ? memes : targetType === 'comment' ? comments : resources;
+    const updated = await this.db
+      .update(table)
+      .set({ moderationStatus: status })
+      .where(eq(table.id, targetId))
+      .returning({ id: table.id });
+    return updated.length > 0;
+  }
+
+  async recordModerationAction(insertAction: InsertModerationAction): Promise<ModerationAction> {
+    const [action] = await this.db.insert(moderationActions).values(insertAction).returning();
+    return action;
+  }
+
+  async getModerationActions(targetType: ReportTargetType, targetId: number): Promise<ModerationAction[]> {
+    return this.db
+      .select()
+      .from(moderationActions)
+      .where(and(eq(moderationActions.targetType, targetType), eq(moderationActions.targetId, targetId)))
+      .orderBy(desc(moderationActions.createdAt), desc(moderationActions.id));
+  }
+
+  // Search operations
+  async search({ text, types, limit, offset = 0 }: SearchQuery): Promise<{ total: number; hits: SearchHit[] }> {
+    const query = sql`plainto_tsquery('english', ${text})`;
+
+    // Each type contributes its best offset + limit hits; the merged list is cut to the requested page
+    const perType = await Promise.all(types.map(async (type) => {
+      const table = type === 'meme' ? memes : type === 'comment' ? comments : resources;
+      const vector = searchVectors[type];
+      const matches = and(
+        sql`${vector} @@ ${query}`,
+        eq(table.moderationStatus, 'visible'),
+        // A comment under a hidden or removed meme is out of sight too
+        type === 'comment'
+          ? exists(this.db.select().from(memes).where(and(eq(memes.id, comments.memeId), eq(memes.moderationStatus, 'visible'))))
+          : undefined,
+      );
+      const score = sql<number>`ts_rank_cd(${vector}, ${query})`.mapWith(Number);
+
+      const [hits, [count]] = await Promise.all([
+        this.db
+          .select({ id: table.id, score })
+          .from(table)
+          .where(matches)
+          .orderBy(desc(score), desc(table.id))
+          .limit(offset + limit),
+        this.db.select({ total: sql<number>`count(*)::int` }).from(table).where(matches),
+      ]);
+
+      return { total: count?.total ?? 0, hits: hits.map(hit => ({ type, ...hit })) };
+    }));
+
+    const hits = perType
+      .flatMap(result => result.hits)
+      .sort((a, b) => b.score - a.score || a.type.localeCompare(b.type) || b.id - a.id);
+
+    return {
+      total: perType.reduce((sum, result) => sum + result.total, 0),
+      hits: hits.slice(offset, offset + limit),
+    };
+  }
+
+  // Notification operations
+  async addNotification({ userId, type, targetType, targetId, actorId }: NotificationEvent): Promise<Notification> {
+    const now = new Date();
+    const actor = sql`jsonb_build_array(${actorId}::int)`;
+    // The partial unique index only covers unread rows, so a read group starts over
+    const [notification] = await this.db
+      .insert(notifications)
+      .values({ userId, type, targetType, targetId, actorIds: [actorId], actorCount: 1, createdAt: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: [notifications.userId, notifications.type, notifications.targetType, notifications.targetId],
+        targetWhere: sql`${notifications.readAt} is null`,
+        set: {
+          actorCount: sql`case when ${notifications.actorIds} @> ${actor} then ${notifications.actorCount} else ${notifications.actorCount} + 1 end`,
+          // Newest actor first, then the earlier ones without it, up to the cap
+          actorIds: sql`${actor} || coalesce((
+            select jsonb_agg(previous.actor order by previous.position)
+            from jsonb_array_elements(${notifications.actorIds}) with ordinality as previous(actor, position)
+            where previous.actor <> to_jsonb(${actorId}::int) and previous.position < ${MAX_NOTIFICATION_ACTORS}
+          ), '[]'::jsonb)`,
+          updatedAt: now,
+        },
+      })
+      .returning();
+    return notification;
+  }
+
+  async getNotifications(userId: number, { unreadOnly, after, limit }: NotificationQuery): Promise<Page<Notification>> {
+    // Update times are always written from the app, so they have whole milliseconds
+    const score = sql`floor(extract(epoch from ${notifications.updatedAt}) * 1000)`;
+    const rows = await this.db
+      .select()
+      .from(notifications)
+      .where(and(
+        eq(notifications.userId, userId),
+        unreadOnly ? isNull(notifications.readAt) : undefined,
+        after ? afterPosition(score, notifications.id, after) : undefined,
+      ))
+      .orderBy(desc(notifications.updatedAt), desc(notifications.id))
+      .limit(limit + 1);
+
+    return toPage(rows, limit, notification => ({ score: notification.updatedAt?.getTime() ?? 0, id: notification.id }));
+  }
+
+  async countUnreadNotifications(userId: number): Promise<number> {
+    const [row] = await this.db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return row?.count ?? 0;
+  }
+
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+    if (ids && ids.length === 0) return 0;
+    const updated = await this.db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.userId, userId),
+        isNull(notifications.readAt),
+        ids ? inArray(notifications.id, ids) : undefined,
+      ))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  // Newsletter operations
+  async addNewsletterSubscriber(email: string): Promise<NewsletterSubscriber> {
+    const normalizedEmail = email.toLowerCase();
+    const [inserted] = await this.db
+      .insert(newsletterSubscribers)
+      .values({ email: normalizedEmail, status: 'pending' })
+      .onConflictDoNothing({ target: newsletterSubscribers.email })
+      .returning();
+    return inserted ?? (await this.getNewsletterSubscriber(normalizedEmail))!;
+  }
+
+  async getNewsletterSubscribers(): Promise<string[]> {
+    const rows = await this.db
+      .select({ email: newsletterSubscribers.email })
+      .from(newsletterSubscribers)
+      .where(eq(newsletterSubscribers.status, 'subscribed'))
+      .orderBy(asc(newsletterSubscribers.id));
+    return rows.map(row => row.email);
+  }
+
+  async getNewsletterSubscriber(email: string): Promise<NewsletterSubscriber | undefined> {
+    const [subscriber] = await this.db
+      .select()
+      .from(newsletterSubscribers)
+      .where(eq(newsletterSubscribers.email, email.toLowerCase()));
+    return subscriber;
+  }
+
+  async updateNewsletterSubscriber(id: number, data: Partial<NewsletterSubscriber>): Promise<NewsletterSubscriber> {
+    const { id: _id, email: _email, ...changes } = data;
+    const [subscriber] = await this.db
+      .update(newsletterSubscribers)
+      .set(changes)
+      .where(eq(newsletterSubscribers.id, id))
+      .returning();
+    if (!subscriber) {
+      throw new Error(`Newsletter subscriber with id ${id} not found`);
+    }
+    return subscriber;
+  }
+
+  async backfillNewsletterStatuses(): Promise<number> {
+    // A 'subscribed' row is only ever written with a confirmation time and without an unsubscribe
+    // time, so anything else in that state predates double opt-in
+    const updated = await this.db
+      .update(newsletterSubscribers)
+      .set({
+        status: sql`case when ${newsletterSubscribers.unsubscribedAt} is null then 'subscribed' else 'unsubscribed' end`,
+        confirmedAt: sql`coalesce(${newsletterSubscribers.confirmedAt}, ${newsletterSubscribers.createdAt}, now())`,
+      })
+      .where(and(
+        eq(newsletterSubscribers.status, 'subscribed'),
+        or(isNull(newsletterSubscribers.confirmedAt), isNotNull(newsletterSubscribers.unsubscribedAt)),
+      ))
+      .returning({ id: newsletterSubscribers.id });
+    return updated.length;
+  }
+
+  // Email send log
+  async logEmailSend(send: InsertEmailSend): Promise<EmailSend> {
+    const [logged] = await this.db.insert(emailSends).values(send).returning();
+    return logged;
+  }
+
+  async getSentRecipients(kind: EmailKind, batch: string): Promise<string[]> {
+    const rows = await this.db
+      .selectDistinct({ recipient: emailSends.recipient })
+      .from(emailSends)
+      .where(and(eq(emailSends.kind, kind), eq(emailSends.batch, batch), eq(emailSends.status, 'sent')));
+    return rows.map(row => row.recipient);
+  }
+
+  async getEmailSends({ kind, batch, limit }: { kind?: EmailKind; batch?: string; limit: number }): Promise<EmailSend[]> {
+    return this.db
+      .select()
+      .from(emailSends)
+      .where(and(
+        kind ? eq(emailSends.kind, kind) : undefined,
+        batch ? eq(emailSends.batch, batch) : undefined,
+      ))
+      .orderBy(desc(emailSends.id))
+      .limit(limit);
+  }
+
+  // Newsletter provider outbox
+  async queueNewsletterSync({ email, memberHash, action }: { email: string; memberHash: string; action: NewsletterSyncAction }): Promise<NewsletterSyncJob> {
+    const now = new Date();
+    const [job] = await this.db
+      .insert(newsletterSyncJobs)
+      .values({ email, memberHash, action, nextAttemptAt: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: newsletterSyncJobs.memberHash,
+        targetWhere: sql`${newsletterSyncJobs.status} = 'pending'`,
+        set: {
+          email,
+          action,
+          revision: sql`${newsletterSyncJobs.revision} + 1`,
+          attempts: 0,
+          nextAttemptAt: now,
+          lastError: null,
+          updatedAt: now,
+        },
+      })
+      .returning();
+    return job;
+  }
+
+  async getDueNewsletterSyncJobs(now: Date, limit: number): Promise<NewsletterSyncJob[]> {
+    return this.db
+      .select()
+      .from(newsletterSyncJobs)
+      .where(and(eq(newsletterSyncJobs.status, 'pending'), lte(newsletterSyncJobs.nextAttemptAt, now)))
+      .orderBy(asc(newsletterSyncJobs.nextAttemptAt), asc(newsletterSyncJobs.id))
+      .limit(limit);
+  }
+
+  async getPendingNewsletterSync(memberHash: string): Promise<NewsletterSyncJob | undefined> {
+    const [job] = await this.db
+      .select()
+      .from(newsletterSyncJobs)
+      .where(and(eq(newsletterSyncJobs.memberHash, memberHash), eq(newsletterSyncJobs.status, 'pending')));
+    return job;
+  }
+
+  async updateNewsletterSyncJob(id: number, revision: number, data: Partial<NewsletterSyncJob>): Promise<boolean> {
+    const { id: _id, revision: _revision, createdAt: _createdAt, ...changes } = data;
+    const updated = await this.db
+      .update(newsletterSyncJobs)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(newsletterSyncJobs.id, id), eq(newsletterSyncJobs.revision, revision)))
+      .returning({ id: newsletterSyncJobs.id });
+    return updated.length > 0;
+  }
+
+  async pruneNewsletterSyncJobs(before: Date): Promise<number> {
+    const deleted = await this.db
+      .delete(newsletterSyncJobs)
+      .where(and(eq(newsletterSyncJobs.status, 'done'), lt(newsletterSyncJobs.updatedAt, before)))
+      .returning({ id: newsletterSyncJobs.id });
+    return deleted.length;
+  }
+
+  async getNewsletterSyncStats(): Promise<NewsletterSyncStats> {
+    const rows = await this.db
+      .select({
+        status: newsletterSyncJobs.status,
+        count: sql<number>`count(*)::int`,
+        oldest: sql<Date | null>`min(${newsletterSyncJobs.createdAt})`.mapWith(newsletterSyncJobs.createdAt),
+      })
+      .from(newsletterSyncJobs)
+      .groupBy(newsletterSyncJobs.status);
+
+    const stats: NewsletterSyncStats = { pending: 0, failed: 0, done: 0, oldestPendingAt: null };
+    rows.forEach(row => {
+      stats[row.status] = row.count;
+      if (row.status === 'pending') stats.oldestPendingAt = row.oldest;
+    });
+    return stats;
+  }
+}
@@ -0,0 +1,178 @@
+import { storage } from './storage';
+import { mailer } from './mailer';
+import { unsubscribeUrl } from './newsletter';
+import { appUrl, digestEmail, type DigestEmailData, type RenderedEmail } from './emailTemplates';
+import type { EmailKind } from '@shared/schema';
+
+const DIGEST_KIND: EmailKind = 'weekly_digest';
+const DIGEST_MEMES = 5;
+const DIGEST_THREADS = 3;
+const DIGEST_RESOURCES = 5;
+
+const DAY = 24 * 60 * 60 * 1000;
+// How often the scheduler checks whether this week's digest is due
+const SCHEDULE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+// Everything in one issue except the per-subscriber unsubscribe link
+export type Digest = Omit<DigestEmailData, 'unsubscribeUrl'>;
+
+export interface DigestRun {
+  batch: string;
+  subscribers: number;
+  sent: number;
+  failed: number;
+  // Already received this issue in an earlier run
+  skipped: number;
+  // True when nothing happened this week, so nobody was mailed
+  empty: boolean;
+}
+
+// Monday 00:00 UTC of the week `now` falls in
+export function weekStart(now: Date = new Date()): Date {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+}
+
+// Issues are named after the Monday they go out in, e.g. "2026-10-12"
+export function digestBatch(now: Date = new Date()): string {
+  return weekStart(now).toISOString().slice(0, 10);
+}
+
+// The past seven days up to `now`
+export async function buildDigest(now: Date = new Date()): Promise<Digest> {
+  const since = new Date(now.getTime() - 7 * DAY);
+
+  const [memePage, threads, resourcePage] = await Promise.all([
+    storage.getMemes({ sort: 'top', window: 'week', asOf: now, limit: DIGEST_MEMES }),
+    storage.getCommentThreads(since, DIGEST_THREADS),
+    storage.getResources({ since, limit: DIGEST_RESOURCES }),
+  ]);
+
+  const threadItems = await Promise.all(threads.map(async (thread) => {
+    const [author, meme] = await Promise.all([
+      thread.authorId ? storage.getUser(thread.authorId) : undefined,
+      thread.memeId ? storage.getMeme(thread.memeId) : undefined,
+    ]);
+    return {
+      excerpt: thread.body,
+      author: author?.username ?? null,
+      memeCaption: meme?.caption ?? null,
+      replyCount: thread.replyCount,
+      url: appUrl(`/memes/${thread.memeId}#comment-${thread.id}`),
+    };
+  }));
+
+  return {
+    weekOf: weekStart(now),
+    memes: memePage.items.map(meme => ({
+      caption: meme.caption,
+      imageUrl: appUrl(meme.imageUrl),
+      url: appUrl(`/memes/${meme.id}`),
+      author: meme.author?.username ?? null,
+      score: (meme.upvotes ?? 0) - (meme.downvotes ?? 0),
+    })),
+    threads: threadItems,
+    resources: resourcePage.items.map(resource => ({
+      title: resource.title,
+      category: resource.category,
+      url: appUrl(`/resources/${resource.id}`),
+    })),
+  };
+}
+
+export function renderDigest(digest: Digest, email: string): RenderedEmail {
+  return digestEmail({ ...digest, unsubscribeUrl: unsubscribeUrl(email) });
+}
+
+function isEmpty(digest: Digest): boolean {
+  return digest.memes.length === 0 && digest.threads.length === 0 && digest.resources.length === 0;
+}
+
+let currentRun: Promise<DigestRun> | undefined;
+
+// Mail this week's issue to every subscriber who hasn't had it yet. Safe to call repeatedly:
+// the send log makes reruns pick up only failed or new recipients.
+export function sendWeeklyDigest(now: Date = new Date()): Promise<DigestRun> {
+  // A manual send while the scheduled one is running joins it instead of mailing twice
+  if (!currentRun) {
+    currentRun = runDigest(now).finally(() => {
+      currentRun = undefined;
+    });
+  }
+  return currentRun;
+}
+
+async function runDigest(now: Date): Promise<DigestRun> {
+  const batch = digestBatch(now);
+  const [digest, subscribers, alreadySent] = await Promise.all([
+    buildDigest(now),
+    storage.getNewsletterSubscribers(),
+    storage.getSentRecipients(DIGEST_KIND, batch),
+  ]);
+  const run: DigestRun = { batch, subscribers: subscribers.length, sent: 0, failed: 0, skipped: 0, empty: isEmpty(digest) };
+  if (run.empty) return run;
+
+  const sent = new Set(alreadySent);
+  for (const email of subscribers) {
+    if (sent.has(email)) {
+      run.skipped++;
+      continue;
+    }
+
+    const message = renderDigest(digest, email);
+    try {
+      const { messageId } = await mailer.send({
+        to: email,
+        ...message,
+        headers: {
+          'List-Unsubscribe': `<${unsubscribeUrl(email)}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        },
+      });
+      await storage.logEmailSend({ kind: DIGEST_KIND, batch, recipient: email, subject: message.subject, status: 'sent', messageId });
+      run.sent++;
+    } catch (error) {
+      console.error(`Failed to send digest to ${email}:`, error);
+      await storage.logEmailSend({
+        kind: DIGEST_KIND,
+        batch,
+        recipient: email,
+        subject: message.subject,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      run.failed++;
+    }
+  }
+
+  return run;
+}
+
+// Send the digest once the weekly slot (DIGEST_DAY, 0 = Sunday, and DIGEST_HOUR in UTC) has passed.
+// Only runs when a mail transport is configured, so development servers don't mail anyone.
+export function scheduleWeeklyDigest() {
+  if (!process.env.MAIL_TRANSPORT || process.env.DIGEST_SCHEDULE === 'off') return;
+
+  const day = parseInt(process.env.DIGEST_DAY || '1');
+  const hour = parseInt(process.env.DIGEST_HOUR || '9');
+
+  const check = () => {
+    const now = new Date();
+    const slot = new Date(weekStart(now).getTime() + ((day + 6) % 7) * DAY + hour * 60 * 60 * 1000);
+    if (now < slot) return;
+
+    // Later checks in the same week retry failures and catch new subscribers with the same issue
+    sendWeeklyDigest(slot)
+      .then((run) => {
+        if (run.sent > 0 || run.failed > 0) {
+          console.log(`Weekly digest ${run.batch}: ${run.sent} sent, ${run.failed} failed`);
+        }
+      })
+      .catch(error => console.error('Failed to send weekly digest:', error));
+  };
+
+  const timer = setInterval(check, SCHEDULE_CHECK_INTERVAL);
+  timer.unref();
+  check();
+}
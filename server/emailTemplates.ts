@@ -0,0 +1,227 @@
+// HTML and plain text bodies for outgoing email. Every template returns both parts;
+// links must be absolute since they are opened outside the app.
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Absolute link into the app; APP_URL is the public origin, e.g. https://clientfromhell.example
+export function appUrl(pathname: string): string {
+  const base = (process.env.APP_URL || 'http://localhost:5000').replace(/\/$/, '');
+  return /^https?:\/\//.test(pathname) ? pathname : `${base}${pathname.startsWith('/') ? '' : '/'}${pathname}`;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function truncate(text: string, length: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > length ? `${flat.slice(0, length - 1).trimEnd()}…` : flat;
+}
+
+// Shared frame: heading, body and a small-print footer
+function layout(title: string, body: string, footer: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:Helvetica,Arial,sans-serif;color:#18181b">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px">
+<tr><td style="padding:24px">
+<h1 style="margin:0 0 16px;font-size:24px">${escapeHtml(title)}</h1>
+${body}
+</td></tr>
+<tr><td style="padding:16px 24px;border-top:1px solid #e4e4e7;font-size:12px;color:#71717a">${footer}</td></tr>
+</table>
+</body>
+</html>`;
+}
+
+export interface DigestMemeItem {
+  caption: string | null;
+  imageUrl: string;
+  url: string;
+  author: string | null;
+  score: number;
+}
+
+export interface DigestThreadItem {
+  excerpt: string;
+  author: string | null;
+  memeCaption: string | null;
+  replyCount: number;
+  url: string;
+}
+
+export interface DigestResourceItem {
+  title: string;
+  category: string | null;
+  url: string;
+}
+
+export interface DigestEmailData {
+  weekOf: Date;
+  memes: DigestMemeItem[];
+  threads: DigestThreadItem[];
+  resources: DigestResourceItem[];
+  unsubscribeUrl: string;
+}
+
+function weekLabel(weekOf: Date): string {
+  return weekOf.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+function plural(count: number, singular: string, pluralForm = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : pluralForm}`;
+}
+
+function htmlSection(heading: string, items: string[]): string {
+  if (items.length === 0) return '';
+  return `<h2 style="margin:24px 0 8px;font-size:18px">${escapeHtml(heading)}</h2>\n${items.join('\n')}`;
+}
+
+function textSection(heading: string, items: string[]): string {
+  if (items.length === 0) return '';
+  return `${heading.toUpperCase()}\n${'-'.repeat(heading.length)}\n${items.join('\n\n')}\n`;
+}
+
+// The weekly "Hall of Shame": top memes, the liveliest comment threads and new resources
+export function digestEmail(data: DigestEmailData): RenderedEmail {
+  const title = `Hall of Shame - week of ${weekLabel(data.weekOf)}`;
+
+  const html = layout(title, [
+    '<p style="margin:0">The worst clients of the week, as voted by you.</p>',
+    htmlSection('Top memes', data.memes.map(meme => `<p style="margin:0 0 16px">
+<a href="${escapeHtml(meme.url)}"><img src="${escapeHtml(meme.imageUrl)}" alt="${escapeHtml(meme.caption ?? 'Meme')}" width="552" style="display:block;max-width:100%;border-radius:4px"></a>
+<strong>${escapeHtml(meme.caption ?? 'Untitled')}</strong><br>
+<span style="color:#71717a">${meme.author ? `by ${escapeHtml(meme.author)} · ` : ''}${plural(meme.score, 'point')}</span>
+</p>`)),
+    htmlSection('Hottest threads', data.threads.map(thread => `<p style="margin:0 0 16px">
+<a href="${escapeHtml(thread.url)}" style="color:#18181b">“${escapeHtml(truncate(thread.excerpt, 200))}”</a><br>
+<span style="color:#71717a">${thread.author ? `${escapeHtml(thread.author)} · ` : ''}${plural(thread.replyCount, 'reply', 'replies')}${thread.memeCaption ? ` on “${escapeHtml(truncate(thread.memeCaption, 60))}”` : ''}</span>
+</p>`)),
+    htmlSection('New resources', data.resources.map(resource => `<p style="margin:0 0 8px">
+<a href="${escapeHtml(resource.url)}">${escapeHtml(resource.title)}</a>${resource.category ? ` <span style="color:#71717a">(${escapeHtml(resource.category)})</span>` : ''}
+</p>`)),
+  ].filter(Boolean).join('\n'),
+  `You get this email because you subscribed to the Client From Hell newsletter. <a href="${escapeHtml(data.unsubscribeUrl)}" style="color:#71717a">Unsubscribe</a>`);
+
+  const text = [
+    title,
+    '',
+    'The worst clients of the week, as voted by you.',
+    '',
+    textSection('Top memes', data.memes.map(meme =>
+      `${meme.caption ?? 'Untitled'}\n${meme.author ? `by ${meme.author}, ` : ''}${plural(meme.score, 'point')}\n${meme.url}`)),
+    textSection('Hottest threads', data.threads.map(thread =>
+      `"${truncate(thread.excerpt, 200)}"\n${thread.author ? `${thread.author}, ` : ''}${plural(thread.replyCount, 'reply', 'replies')}\n${thread.url}`)),
+    textSection('New resources', data.resources.map(resource =>
+      `${resource.title}${resource.category ? ` (${resource.category})` : ''}\n${resource.url}`)),
+    '--',
+    'You get this email because you subscribed to the Client From Hell newsletter.',
+    `Unsubscribe: ${data.unsubscribeUrl}`,
+  ].join('\n');
+
+  return { subject: title, html, text };
+}
+
+export interface NewsletterConfirmationData {
+  confirmUrl: string;
+}
+
+// Double opt-in: nobody gets the newsletter until they follow this link
+export function newsletterConfirmationEmail(data: NewsletterConfirmationData): RenderedEmail {
+  const subject = 'Confirm your Client From Hell newsletter subscription';
+  const title = 'One more step';
+
+  const html = layout(title, `<p style="margin:0 0 16px">Someone (hopefully you) asked to get the weekly Hall of Shame from Client From Hell at this address.</p>
+<p style="margin:0 0 16px"><a href="${escapeHtml(data.confirmUrl)}" style="display:inline-block;padding:12px 20px;background:#dc2626;color:#ffffff;text-decoration:none;border-radius:6px;font-weight:bold">Confirm subscription</a></p>
+<p style="margin:0;color:#71717a">The link is valid for 7 days.</p>`,
+  'If you did not sign up, ignore this email and you will not hear from us again.');
+
+  const text = [
+    title,
+    '',
+    'Someone (hopefully you) asked to get the weekly Hall of Shame from Client From Hell at this address.',
+    '',
+    `Confirm your subscription: ${data.confirmUrl}`,
+    '',
+    'The link is valid for 7 days.',
+    '',
+    '--',
+    'If you did not sign up, ignore this email and you will not hear from us again.',
+  ].join('\n');
+
+  return { subject, html, text };
+}
+
+export interface PasswordResetData {
+  username: string;
+  resetUrl: string;
+  // Minutes until the link stops working
+  expiresIn: number;
+}
+
+export function passwordResetEmail(data: PasswordResetData): RenderedEmail {
+  const subject = 'Reset your Client From Hell password';
+  const title = 'Reset your password';
+
+  const html = layout(title, `<p style="margin:0 0 16px">Hi ${escapeHtml(data.username)}, someone asked to reset the password for your account.</p>
+<p style="margin:0 0 16px"><a href="${escapeHtml(data.resetUrl)}" style="display:inline-block;padding:12px 20px;background:#dc2626;color:#ffffff;text-decoration:none;border-radius:6px;font-weight:bold">Choose a new password</a></p>
+<p style="margin:0;color:#71717a">The link works once and expires in ${plural(data.expiresIn, 'minute')}. Resetting signs you out everywhere.</p>`,
+  'If you did not ask for this, ignore this email - your password stays the same.');
+
+  const text = [
+    title,
+    '',
+    `Hi ${data.username}, someone asked to reset the password for your account.`,
+    '',
+    `Choose a new password: ${data.resetUrl}`,
+    '',
+    `The link works once and expires in ${plural(data.expiresIn, 'minute')}. Resetting signs you out everywhere.`,
+    '',
+    '--',
+    'If you did not ask for this, ignore this email - your password stays the same.',
+  ].join('\n');
+
+  return { subject, html, text };
+}
+
+export interface EmailVerificationData {
+  username: string;
+  verifyUrl: string;
+  // Days until the link stops working
+  expiresIn: number;
+}
+
+export function emailVerificationEmail(data: EmailVerificationData): RenderedEmail {
+  const subject = 'Verify your Client From Hell email address';
+  const title = 'Verify your email';
+
+  const html = layout(title, `<p style="margin:0 0 16px">Welcome to Client From Hell, ${escapeHtml(data.username)}! Confirm this is your address to start posting.</p>
+<p style="margin:0 0 16px"><a href="${escapeHtml(data.verifyUrl)}" style="display:inline-block;padding:12px 20px;background:#dc2626;color:#ffffff;text-decoration:none;border-radius:6px;font-weight:bold">Verify email address</a></p>
+<p style="margin:0;color:#71717a">The link is valid for ${plural(data.expiresIn, 'day')}.</p>`,
+  'If you did not create an account, ignore this email.');
+
+  const text = [
+    title,
+    '',
+    `Welcome to Client From Hell, ${data.username}! Confirm this is your address to start posting.`,
+    '',
+    `Verify your email address: ${data.verifyUrl}`,
+    '',
+    `The link is valid for ${plural(data.expiresIn, 'day')}.`,
+    '',
+    '--',
+    'If you did not create an account, ignore this email.',
+  ].join('\n');
+
+  return { subject, html, text };
+}
@@ -0,0 +1,100 @@
+import jwt from 'jsonwebtoken';
+import { storage } from './storage';
+import { mailer } from './mailer';
+import { appUrl, emailVerificationEmail } from './emailTemplates';
+import type { User } from '@shared/schema';
+
+const VERIFICATION_SECRET = process.env.EMAIL_VERIFICATION_SECRET || process.env.JWT_SECRET || 'your-secret-key-change-in-production';
+// Days a verification link stays valid
+const VERIFICATION_TTL = 3;
+// An account gets at most one verification email per window
+const VERIFICATION_RESEND_INTERVAL = 5 * 60 * 1000;
+
+// What an account with an unverified email can be barred from
+export const unverifiedRestrictions = [
+  'post_memes',
+  'post_comments',
+  'post_resources',
+  'create_templates',
+  'upload_images',
+] as const;
+export type UnverifiedRestriction = typeof unverifiedRestrictions[number];
+
+export class EmailVerificationError extends Error {
+  constructor(message: string, public status: number = 400, public retryAfter?: number) {
+    super(message);
+    this.name = 'EmailVerificationError';
+  }
+}
+
+// UNVERIFIED_RESTRICTIONS is a comma separated list of the above; "none" lets unverified accounts do everything
+export function parseRestrictions(value = process.env.UNVERIFIED_RESTRICTIONS ?? 'post_memes,post_resources'): Set<UnverifiedRestriction> {
+  const restrictions = new Set<UnverifiedRestriction>();
+  for (const entry of value.split(',').map(entry => entry.trim()).filter(Boolean)) {
+    if (entry === 'none') continue;
+    if (!unverifiedRestrictions.includes(entry as UnverifiedRestriction)) {
+      throw new Error(`Unknown UNVERIFIED_RESTRICTIONS entry "${entry}"`);
+    }
+    restrictions.add(entry as UnverifiedRestriction);
+  }
+  return restrictions;
+}
+
+export const verificationPolicy = parseRestrictions();
+
+// Accounts from before verification existed are left alone until they verify
+export function isRestricted(user: Pick<User, 'emailVerified' | 'legacyAccount'> | undefined, action: UnverifiedRestriction): boolean {
+  return !user?.emailVerified && !user?.legacyAccount && verificationPolicy.has(action);
+}
+
+// Signed over the address too, so a link stops working if the account's email changes
+export function verificationToken(user: Pick<User, 'id' | 'email'>): string {
+  return jwt.sign({ id: user.id, email: user.email, purpose: 'email-verify' }, VERIFICATION_SECRET, { expiresIn: `${VERIFICATION_TTL}d` });
+}
+
+function verifiedClaims(token: string): { id: number; email: string } | undefined {
+  try {
+    const payload: any = jwt.verify(token, VERIFICATION_SECRET);
+    return payload?.purpose === 'email-verify' && typeof payload.id === 'number' && typeof payload.email === 'string'
+      ? { id: payload.id, email: payload.email }
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function verificationUrl(user: Pick<User, 'id' | 'email'>): string {
+  return appUrl(`/verify-email?${new URLSearchParams({ token: verificationToken(user) })}`);
+}
+
+// Mail a verification link, at most once per resend window
+export async function sendVerificationEmail(user: User, now: Date = new Date()): Promise<User> {
+  if (user.emailVerified) {
+    throw new EmailVerificationError('Your email address is already verified', 409);
+  }
+
+  const sentAt = user.emailVerificationSentAt ? new Date(user.emailVerificationSentAt).getTime() : 0;
+  const wait = sentAt + VERIFICATION_RESEND_INTERVAL - now.getTime();
+  if (wait > 0) {
+    throw new EmailVerificationError('A verification email was sent recently - please check your inbox', 429, Math.ceil(wait / 1000));
+  }
+
+  await mailer.send({
+    to: user.email,
+    ...emailVerificationEmail({ username: user.username, verifyUrl: verificationUrl(user), expiresIn: VERIFICATION_TTL }),
+  });
+  return storage.updateUser(user.id, { emailVerificationSentAt: now });
+}
+
+// The link from the verification email; verifying twice is fine
+export async function verifyEmail(token: string): Promise<User> {
+  const claims = verifiedClaims(token);
+  const user = claims && await storage.getUser(claims.id);
+  if (!user || user.email !== claims?.email) {
+    throw new EmailVerificationError('This verification link is invalid or has expired');
+  }
+  if (user.emailVerified) {
+    return user;
+  }
+  return storage.updateUser(user.id, { emailVerified: true });
+}
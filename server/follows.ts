@@ -0,0 +1,44 @@
+import { storage } from './storage';
+import { notifyInBackground } from './notifications';
+import type { User } from '@shared/schema';
+
+export class FollowError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'FollowError';
+  }
+}
+
+async function followTarget(followerId: number, username: string): Promise<User> {
+  const user = await storage.getUserByUsername(username);
+  if (!user) {
+    throw new FollowError('User not found', 404);
+  }
+  if (user.id === followerId) {
+    throw new FollowError('You cannot follow yourself', 400);
+  }
+  return user;
+}
+
+async function followState(followerId: number, user: User) {
+  const [following, counts] = await Promise.all([
+    storage.isFollowing(followerId, user.id),
+    storage.getFollowCounts(user.id),
+  ]);
+  return { username: user.username, following, followers: counts.followers };
+}
+
+// Following twice (or unfollowing someone you don't follow) is a no-op, so both are safe to retry
+export async function followUser(followerId: number, username: string) {
+  const user = await followTarget(followerId, username);
+  if (await storage.followUser(followerId, user.id)) {
+    notifyInBackground({ userId: user.id, type: 'follow', targetType: 'user', targetId: user.id, actorId: followerId });
+  }
+  return followState(followerId, user);
+}
+
+export async function unfollowUser(followerId: number, username: string) {
+  const user = await followTarget(followerId, username);
+  await storage.unfollowUser(followerId, user.id);
+  return followState(followerId, user);
+}
@@ -0,0 +1,130 @@
+import { storage } from './storage';
+import { awardXpInBackground } from './xp';
+import { leaderboardRanks, publishRankUpdates } from './leaderboard';
+import { gameScenarios, START_SCENARIO_ID, type GameScenario } from './gameScenarios';
+import type { GameSession } from '@shared/schema';
+
+export const STARTING_SANITY = 100;
+
+// One entry in gameSessions.choices, written only by the server
+export interface GameChoiceRecord {
+  scenarioId: string;
+  choiceId: string;
+  sanityDelta: number;
+  scoreDelta: number;
+  at: string;
+}
+
+export class GameEngineError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'GameEngineError';
+  }
+}
+
+function choiceLog(session: GameSession): GameChoiceRecord[] {
+  return Array.isArray(session.choices) ? session.choices as GameChoiceRecord[] : [];
+}
+
+// The scenario the player is currently facing, or null once the game is over
+export function currentScenario(session: GameSession): GameScenario | null {
+  if (session.endedAt) return null;
+
+  const log = choiceLog(session);
+  if (log.length === 0) return gameScenarios[START_SCENARIO_ID];
+
+  const last = log[log.length - 1];
+  const choice = gameScenarios[last.scenarioId]?.choices.find(c => c.id === last.choiceId);
+  return choice?.next ? gameScenarios[choice.next] ?? null : null;
+}
+
+// Scenario as shown to players - the effects of each choice stay on the server
+export function publicScenario(scenario: GameScenario | null) {
+  if (!scenario) return null;
+
+  return {
+    id: scenario.id,
+    client: scenario.client,
+    prompt: scenario.prompt,
+    choices: scenario.choices.map(({ id, text }) => ({ id, text })),
+  };
+}
+
+export async function startGame(userId: number) {
+  const session = await storage.createGameSession({
+    userId,
+    score: 0,
+    sanityLeft: STARTING_SANITY,
+    choices: [],
+  });
+  return { session, scenario: publicScenario(currentScenario(session)) };
+}
+
+// Choices for one session are applied one at a time so a double submit can't skip a scenario
+const sessionQueues = new Map<number, Promise<unknown>>();
+
+function serialize<T>(sessionId: number, task: () => Promise<T>): Promise<T> {
+  const previous = sessionQueues.get(sessionId) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(task);
+  sessionQueues.set(sessionId, run);
+  run.finally(() => {
+    if (sessionQueues.get(sessionId) === run) sessionQueues.delete(sessionId);
+  }).catch(() => undefined);
+  return run;
+}
+
+export function submitChoice(sessionId: number, userId: number, choiceId: string) {
+  return serialize(sessionId, async () => {
+    const session = await storage.getGameSession(sessionId);
+    if (!session) {
+      throw new GameEngineError('Game session not found', 404);
+    }
+
+    // Users can only play their own game sessions
+    if (session.userId !== userId) {
+      throw new GameEngineError('Unauthorized to update this game session', 403);
+    }
+
+    const scenario = currentScenario(session);
+    if (!scenario) {
+      throw new GameEngineError('Game session has already ended', 409);
+    }
+
+    const choice = scenario.choices.find(c => c.id === choiceId);
+    if (!choice) {
+      throw new GameEngineError(`Invalid choice for scenario "${scenario.id}"`, 400);
+    }
+
+    const sanityLeft = Math.max(0, Math.min(STARTING_SANITY, (session.sanityLeft ?? STARTING_SANITY) + choice.sanity));
+    const score = (session.score ?? 0) + choice.score;
+    const record: GameChoiceRecord = {
+      scenarioId: scenario.id,
+      choiceId: choice.id,
+      sanityDelta: choice.sanity,
+      scoreDelta: choice.score,
+      at: new Date().toISOString(),
+    };
+    const ended = sanityLeft === 0 || choice.next === null;
+    const previousRanks = ended ? await leaderboardRanks(userId) : undefined;
+
+    const updatedSession = await storage.updateGameSession(sessionId, {
+      score,
+      sanityLeft,
+      choices: [...choiceLog(session), record],
+      endedAt: ended ? new Date() : null,
+    });
+
+    if (ended) {
+      awardXpInBackground(userId, 'game_completed', { type: 'game_session', id: sessionId });
+      publishRankUpdates(userId, previousRanks).catch((error) => {
+        console.error('Failed to publish leaderboard ranks:', error);
+      });
+    }
+
+    return {
+      session: updatedSession,
+      outcome: { sanityDelta: choice.sanity, scoreDelta: choice.score },
+      scenario: publicScenario(currentScenario(updatedSession)),
+    };
+  });
+}
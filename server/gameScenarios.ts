@@ -0,0 +1,70 @@
+export interface GameChoice {
+  id: string;
+  text: string;
+  sanity: number;
+  score: number;
+  // Scenario that follows this choice, or null when the game ends here
+  next: string | null;
+}
+
+export interface GameScenario {
+  id: string;
+  client: string;
+  prompt: string;
+  choices: GameChoice[];
+}
+
+export const START_SCENARIO_ID = 'logo_redesign';
+
+export const gameScenarios: Record<string, GameScenario> = {
+  logo_redesign: {
+    id: 'logo_redesign',
+    client: 'Startup founder',
+    prompt: "Can you make the logo pop more? Also bigger. Also we need it by tomorrow morning.",
+    choices: [
+      { id: 'ask_examples', text: "Explain that \"pop\" isn't a spec and ask for examples", sanity: -5, score: 15, next: 'exposure' },
+      { id: 'all_nighter', text: 'Stay up all night making it bigger', sanity: -20, score: 5, next: 'exposure' },
+      { id: 'rush_fee', text: 'Quote a 50% rush fee', sanity: 0, score: 20, next: 'exposure' },
+    ],
+  },
+  exposure: {
+    id: 'exposure',
+    client: 'Local influencer',
+    prompt: "We can't pay you, but this will be amazing exposure for your portfolio!",
+    choices: [
+      { id: 'decline', text: 'Politely decline - exposure does not pay rent', sanity: -5, score: 25, next: 'scope_creep' },
+      { id: 'accept', text: 'Accept and hope for the best', sanity: -25, score: 0, next: 'scope_creep' },
+      { id: 'deposit', text: 'Offer a reduced rate with a deposit up front', sanity: -10, score: 15, next: 'scope_creep' },
+    ],
+  },
+  scope_creep: {
+    id: 'scope_creep',
+    client: 'Marketing manager',
+    prompt: "While you're at it, could you also do the website? Should be quick.",
+    choices: [
+      { id: 'change_order', text: 'Send a change order with a new quote', sanity: -5, score: 20, next: 'late_invoice' },
+      { id: 'do_it_free', text: 'Do it for free to keep them happy', sanity: -30, score: 5, next: 'late_invoice' },
+      { id: 'fire_client', text: 'Fire the client', sanity: 0, score: 10, next: null },
+    ],
+  },
+  late_invoice: {
+    id: 'late_invoice',
+    client: 'Accounts payable',
+    prompt: "Your invoice is 60 days overdue. \"Accounting is looking into it.\"",
+    choices: [
+      { id: 'late_fee', text: 'Apply the late fee from your contract', sanity: -10, score: 25, next: 'final_review' },
+      { id: 'wait', text: 'Wait another month', sanity: -20, score: 0, next: 'final_review' },
+      { id: 'withhold_files', text: 'Withhold the source files until paid', sanity: -5, score: 20, next: 'final_review' },
+    ],
+  },
+  final_review: {
+    id: 'final_review',
+    client: 'CEO',
+    prompt: "My nephew has Photoshop and says he could have done this in an hour.",
+    choices: [
+      { id: 'smile', text: 'Smile and nod', sanity: -10, score: 10, next: null },
+      { id: 'portfolio', text: 'Thank them and add the project to your portfolio', sanity: 0, score: 20, next: null },
+      { id: 'reply_all', text: 'Reply-all with a rant', sanity: -25, score: -10, next: null },
+    ],
+  },
+};
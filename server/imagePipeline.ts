@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { blobStorage, type BlobStorage } from './blobStorage';
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+const MAX_INPUT_PIXELS = 40_000_000;
+
+export type ImageType = 'jpeg' | 'png' | 'gif' | 'webp';
+
+const contentTypes: Record<ImageType, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+const extensions: Record<ImageType, string> = {
+  jpeg: 'jpg',
+  png: 'png',
+  gif: 'gif',
+  webp: 'webp',
+};
+
+// Variants generated for every upload; 'inside' bounds the longest edge, 'cover' crops a square
+export const imageVariants = {
+  large: { width: 2048, fit: 'inside' },
+  medium: { width: 1024, fit: 'inside' },
+  thumbnail: { width: 320, fit: 'cover' },
+} as const;
+
+export type ImageVariantName = keyof typeof imageVariants;
+
+export interface StoredVariant {
+  url: string;
+  width: number;
+  height: number;
+  bytes: number;
+  contentType: string;
+}
+
+export interface UploadedImage {
+  id: string;
+  type: ImageType;
+  url: string;
+  thumbnailUrl: string;
+  variants: Record<ImageVariantName, StoredVariant>;
+}
+
+export class ImageUploadError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ImageUploadError';
+  }
+}
+
+// Identify the real file type from its leading bytes - never trust the client's mimetype
+export function detectImageType(buffer: Buffer): ImageType | undefined {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'png';
+  }
+  if (buffer.length >= 6 && ['GIF87a', 'GIF89a'].includes(buffer.subarray(0, 6).toString('ascii'))) {
+    return 'gif';
+  }
+  if (buffer.length >= 12 && buffer.subarray(0, 4).toString('ascii') === 'RIFF' && buffer.subarray(8, 12).toString('ascii') === 'WEBP') {
+    return 'webp';
+  }
+  return undefined;
+}
+
+async function renderVariant(buffer: Buffer, type: ImageType, name: ImageVariantName) {
+  const { width, fit } = imageVariants[name];
+  const animated = type === 'gif' || type === 'webp';
+
+  // sharp drops EXIF/XMP/ICC metadata unless asked to keep it; rotate() bakes in the EXIF orientation first
+  const pipeline = sharp(buffer, { animated, limitInputPixels: MAX_INPUT_PIXELS })
+    .rotate()
+    .resize({ width, height: width, fit, withoutEnlargement: true });
+
+  const output = type === 'jpeg'
+    ? pipeline.jpeg({ quality: 85, mozjpeg: true })
+    : type === 'png'
+      ? pipeline.png({ compressionLevel: 9 })
+      : type === 'gif'
+        ? pipeline.gif()
+        : pipeline.webp({ quality: 85 });
+
+  const data = await output.toBuffer();
+  // Animated output stacks frames vertically, so read the per-frame height back
+  const { width: outputWidth = 0, height = 0, pageHeight } = await sharp(data).metadata();
+  return { data, width: outputWidth, height: pageHeight ?? height };
+}
+
+// Validate an uploaded image, strip its metadata and store every size variant
+export async function processImageUpload(buffer: Buffer, storage: BlobStorage = blobStorage): Promise<UploadedImage> {
+  if (buffer.length === 0) {
+    throw new ImageUploadError('Uploaded file is empty');
+  }
+  if (buffer.length > MAX_UPLOAD_BYTES) {
+    throw new ImageUploadError(`Images must be smaller than ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB`, 413);
+  }
+
+  const type = detectImageType(buffer);
+  if (!type) {
+    throw new ImageUploadError('Unsupported image type. Upload a JPEG, PNG, GIF or WebP image.', 415);
+  }
+
+  try {
+    await sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  } catch {
+    throw new ImageUploadError('Image could not be decoded');
+  }
+
+  const id = crypto.randomUUID();
+  const variants = {} as Record<ImageVariantName, StoredVariant>;
+
+  for (const name of Object.keys(imageVariants) as ImageVariantName[]) {
+    const { data, width, height } = await renderVariant(buffer, type, name);
+    const key = `memes/${id}/${name}.${extensions[type]}`;
+    const url = await storage.put(key, data, contentTypes[type]);
+    variants[name] = {
+      url,
+      width,
+      height,
+      bytes: data.length,
+      contentType: contentTypes[type],
+    };
+  }
+
+  return {
+    id,
+    type,
+    url: variants.large.url,
+    thumbnailUrl: variants.thumbnail.url,
+    variants,
+  };
+}
@@ -0,0 +1,101 @@
+import { EventEmitter } from 'events';
+import { storage } from './storage';
+import type { GameLeaderboardEntry } from '@shared/schema';
+
+export const leaderboardPeriods = ['daily', 'weekly', 'all-time'] as const;
+export type LeaderboardPeriod = typeof leaderboardPeriods[number];
+
+const HOUR = 60 * 60 * 1000;
+
+// Daily and weekly boards are rolling windows ending now
+export function periodStart(period: LeaderboardPeriod, now: Date = new Date()): Date | undefined {
+  switch (period) {
+    case 'daily':
+      return new Date(now.getTime() - 24 * HOUR);
+    case 'weekly':
+      return new Date(now.getTime() - 7 * 24 * HOUR);
+    case 'all-time':
+      return undefined;
+  }
+}
+
+// 'following' ranks the caller against the people they follow
+export const leaderboardScopes = ['global', 'following'] as const;
+export type LeaderboardScope = typeof leaderboardScopes[number];
+
+export interface LeaderboardOptions {
+  scope?: LeaderboardScope;
+  limit: number;
+  offset?: number;
+  // Include the caller's own rank with this many entries either side
+  userId?: number;
+  neighbours?: number;
+}
+
+export async function getLeaderboard(period: LeaderboardPeriod, options: LeaderboardOptions) {
+  const since = periodStart(period);
+  const scope = options.scope ?? 'global';
+  const userIds = scope === 'following' && options.userId
+    ? [options.userId, ...await storage.getFollowingIds(options.userId)]
+    : undefined;
+  const entries = await storage.getGameLeaderboard({ since, userIds, limit: options.limit, offset: options.offset });
+
+  let me: { entry: GameLeaderboardEntry; neighbours: GameLeaderboardEntry[] } | null = null;
+  if (options.userId) {
+    const entry = await storage.getGameLeaderboardEntry(options.userId, { since, userIds });
+    if (entry) {
+      const span = options.neighbours ?? 2;
+      const offset = Math.max(entry.rank - 1 - span, 0);
+      const neighbours = await storage.getGameLeaderboard({ since, userIds, limit: entry.rank - offset + span, offset });
+      me = { entry, neighbours };
+    }
+  }
+
+  return { period, scope, since: since ?? null, entries, me };
+}
+
+// Most displaced entries sent with one update; clients showing rows further down should refetch
+const MAX_SHIFTED_ENTRIES = 50;
+
+export interface RankUpdate {
+  period: LeaderboardPeriod;
+  entry: GameLeaderboardEntry;
+  // Entries the user moved ahead of, each now one place lower, in rank order
+  shifted: GameLeaderboardEntry[];
+  // True when more entries moved than `shifted` holds
+  truncated: boolean;
+}
+
+export type LeaderboardRanks = Partial<Record<LeaderboardPeriod, number>>;
+
+// Emits 'rank-update' with a RankUpdate for every board a finished game lands on
+export const leaderboardNotifier = new EventEmitter();
+
+// Where the user stands on each board; taken before a game is saved so the update knows who it displaced
+export async function leaderboardRanks(userId: number): Promise<LeaderboardRanks> {
+  const ranks: LeaderboardRanks = {};
+  for (const period of leaderboardPeriods) {
+    const entry = await storage.getGameLeaderboardEntry(userId, { since: periodStart(period) });
+    if (entry) ranks[period] = entry.rank;
+  }
+  return ranks;
+}
+
+export async function publishRankUpdates(userId: number, previousRanks: LeaderboardRanks = {}) {
+  for (const period of leaderboardPeriods) {
+    const since = periodStart(period);
+    const entry = await storage.getGameLeaderboardEntry(userId, { since });
+    if (!entry) continue;
+
+    // Everyone from the new rank down to the old one moved down a place; a first
+    // appearance pushes down everyone below it
+    const previous = previousRanks[period];
+    const moved = previous === undefined ? Infinity : previous - entry.rank;
+    const shifted = moved > 0
+      ? await storage.getGameLeaderboard({ since, offset: entry.rank, limit: Math.min(moved, MAX_SHIFTED_ENTRIES) })
+      : [];
+
+    const update: RankUpdate = { period, entry, shifted, truncated: moved > shifted.length && shifted.length === MAX_SHIFTED_ENTRIES };
+    leaderboardNotifier.emit('rank-update', update);
+  }
+}
@@ -0,0 +1,100 @@
+import { storage } from './storage';
+import { realtime } from './realtime';
+import { memeChannel, resourceChannel, type Channel } from '@shared/realtime';
+import type { VoteTargetType } from '@shared/schema';
+
+// Updates for the same item are coalesced and pushed at most once per interval,
+// so a meme getting hundreds of votes a second still sends one message per tick
+const FLUSH_INTERVAL = 1000;
+
+interface PendingUpdate {
+  channel: Channel;
+  event: string;
+  // Read the item's current state when the update is actually sent
+  load: () => Promise<unknown | undefined>;
+}
+
+const pending = new Map<string, PendingUpdate>();
+let flushTimer: NodeJS.Timeout | undefined;
+
+function schedule(key: string, update: PendingUpdate) {
+  pending.set(key, update);
+
+  if (!flushTimer) {
+    flushTimer = setTimeout(flush, FLUSH_INTERVAL);
+    flushTimer.unref();
+  }
+}
+
+async function flush() {
+  flushTimer = undefined;
+  const updates = Array.from(pending.values());
+  pending.clear();
+
+  for (const update of updates) {
+    // Nobody is watching - skip the lookup entirely
+    if (!realtime.hasSubscribers(update.channel)) continue;
+
+    try {
+      const data = await update.load();
+      if (data !== undefined) {
+        realtime.publish(update.channel, update.event, data);
+      }
+    } catch (error) {
+      console.error(`Failed to publish ${update.event} on ${update.channel}:`, error);
+    }
+  }
+}
+
+// Queue a score refresh for whatever was just voted on
+export function queueVoteUpdate(targetType: VoteTargetType, targetId: number, memeId?: number | null) {
+  switch (targetType) {
+    case 'meme':
+      schedule(`meme:${targetId}`, {
+        channel: memeChannel(targetId),
+        event: 'meme-score',
+        load: async () => {
+          const meme = await storage.getMeme(targetId);
+          return meme && { memeId: meme.id, upvotes: meme.upvotes ?? 0, downvotes: meme.downvotes ?? 0 };
+        },
+      });
+      break;
+
+    case 'comment':
+      // Comment scores are delivered to everyone viewing the meme thread
+      if (!memeId) return;
+      schedule(`comment:${targetId}`, {
+        channel: memeChannel(memeId),
+        event: 'comment-score',
+        load: async () => {
+          const comment = await storage.getComment(targetId);
+          return comment && {
+            memeId,
+            commentId: comment.id,
+            upvotes: comment.upvotes ?? 0,
+            downvotes: comment.downvotes ?? 0,
+          };
+        },
+      });
+      break;
+
+    case 'resource':
+      schedule(`resource:${targetId}`, {
+        channel: resourceChannel(targetId),
+        event: 'resource-score',
+        load: async () => {
+          const resource = await storage.getResource(targetId);
+          return resource && { resourceId: resource.id, votes: resource.votes ?? 0 };
+        },
+      });
+      break;
+  }
+}
+
+export function queueCommentCountUpdate(memeId: number) {
+  schedule(`comment-count:${memeId}`, {
+    channel: memeChannel(memeId),
+    event: 'comment-count',
+    load: async () => ({ memeId, commentCount: await storage.countComments(memeId) }),
+  });
+}
@@ -0,0 +1,85 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import nodemailer, { type Transporter } from 'nodemailer';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+// Outgoing email. Resolves with the transport's message id once the message is accepted.
+export interface Mailer {
+  send(message: MailMessage): Promise<{ messageId: string }>;
+}
+
+export class SmtpMailer implements Mailer {
+  private transporter: Transporter<SMTPTransport.SentMessageInfo>;
+
+  constructor(options: SMTPTransport.Options, private readonly from: string) {
+    this.transporter = nodemailer.createTransport(options);
+  }
+
+  async send(message: MailMessage): Promise<{ messageId: string }> {
+    const info = await this.transporter.sendMail({ from: this.from, ...message });
+    return { messageId: info.messageId };
+  }
+}
+
+// Writes each message to an .eml file that any mail client can open - for local testing
+export class FileMailer implements Mailer {
+  private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+  constructor(public readonly outDir: string, private readonly from: string) {}
+
+  async send(message: MailMessage): Promise<{ messageId: string }> {
+    const info = await this.transporter.sendMail({ from: this.from, ...message });
+    await fs.promises.mkdir(this.outDir, { recursive: true });
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`;
+    await fs.promises.writeFile(path.join(this.outDir, fileName), info.message as Buffer);
+    return { messageId: info.messageId };
+  }
+}
+
+// Prints the plain text part instead of sending anything
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<{ messageId: string }> {
+    const messageId = `<${crypto.randomUUID()}@console>`;
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+    return { messageId };
+  }
+}
+
+// Pick the transport from MAIL_TRANSPORT: 'smtp', 'file' or 'console' (the default outside production).
+// Production has to name one: the console transport would put live reset and verification links in the logs.
+export function createMailer(transport = process.env.MAIL_TRANSPORT): Mailer {
+  if (!transport && process.env.NODE_ENV === 'production') {
+    throw new Error('MAIL_TRANSPORT must be set in production');
+  }
+
+  const from = process.env.MAIL_FROM || 'Client From Hell <no-reply@localhost>';
+  switch (transport || 'console') {
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST must be set when MAIL_TRANSPORT is "smtp"');
+      }
+      return new SmtpMailer({
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587'),
+        secure: process.env.SMTP_SECURE === 'true',
+        auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+      }, from);
+    case 'file':
+      return new FileMailer(path.resolve(process.env.MAIL_DIR || 'mail'), from);
+    case 'console':
+      return new ConsoleMailer();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+  }
+}
+
+export const mailer = createMailer();
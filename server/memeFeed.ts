@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import { storage, type MemeFeedQuery } from './storage';
+import type { MemeWithAuthor } from '@shared/schema';
+
+// Deepest a ranked feed can be paged
+const SNAPSHOT_SIZE = 500;
+// Hours a snapshot can be paged through before the feed has to be reloaded
+const SNAPSHOT_TTL = 6;
+const CLEANUP_INTERVAL = 60 * 60 * 1000;
+
+// Where the next page of a snapshotted feed starts
+export interface SnapshotPosition {
+  snapshotId: string;
+  offset: number;
+}
+
+export interface RankedFeedPage {
+  items: MemeWithAuthor[];
+  next: SnapshotPosition | null;
+}
+
+function snapshotCutoff(now: Date = new Date()): Date {
+  return new Date(now.getTime() - SNAPSHOT_TTL * 60 * 60 * 1000);
+}
+
+async function pageOf(memeIds: number[], offset: number, limit: number, snapshotId?: string): Promise<RankedFeedPage> {
+  const end = Math.min(offset + limit, memeIds.length);
+  return {
+    // Memes moderated since the snapshot was taken drop out, so a page can come back short
+    items: await storage.getMemesByIds(memeIds.slice(offset, end)),
+    next: snapshotId && end < memeIds.length ? { snapshotId, offset: end } : null,
+  };
+}
+
+// Votes keep moving memes around the hot, top and rising feeds, so paging them by score could skip
+// or repeat memes. The first page freezes the order into a snapshot and later pages walk through it.
+// Undefined when the snapshot has expired.
+export async function getRankedFeedPage(
+  query: Omit<MemeFeedQuery, 'after' | 'limit'>,
+  limit: number,
+  position?: SnapshotPosition,
+): Promise<RankedFeedPage | undefined> {
+  if (position) {
+    const snapshot = await storage.getFeedSnapshot(position.snapshotId);
+    if (!snapshot || snapshot.createdAt < snapshotCutoff()) return undefined;
+    return pageOf(snapshot.memeIds, position.offset, limit, snapshot.id);
+  }
+
+  const memeIds = await storage.getMemeRanking({ ...query, limit: SNAPSHOT_SIZE });
+  // A feed that fits on one page has nothing to keep
+  const snapshot = memeIds.length > limit
+    ? await storage.createFeedSnapshot({ id: crypto.randomUUID(), memeIds })
+    : undefined;
+  return pageOf(memeIds, 0, limit, snapshot?.id);
+}
+
+export function startFeedSnapshotCleanup() {
+  const cleanup = () => storage.deleteFeedSnapshots(snapshotCutoff())
+    .catch(error => console.error('Failed to delete expired feed snapshots:', error));
+
+  setInterval(cleanup, CLEANUP_INTERVAL).unref();
+}
@@ -0,0 +1,236 @@
+import sharp from 'sharp';
+import { z } from 'zod';
+import { storage } from './storage';
+import { blobStorage, InvalidBlobKeyError, type BlobStorage } from './blobStorage';
+import { processImageUpload, type UploadedImage } from './imagePipeline';
+import type { MemeTemplate, MemeTemplateStats, TemplateTextBox } from '@shared/schema';
+
+// Memes made in this window count towards a template's trending score
+const RECENT_WINDOW_DAYS = 7;
+
+const MIN_FONT_SIZE = 12;
+const LINE_HEIGHT = 1.15;
+// Average glyph width of a condensed meme font, as a fraction of the font size
+const GLYPH_WIDTH = 0.6;
+const FONT_FAMILY = "Impact, Anton, 'Arial Black', 'DejaVu Sans', sans-serif";
+
+export const templateSortModes = ['popular', 'trending', 'new'] as const;
+export type TemplateSortMode = typeof templateSortModes[number];
+
+// Text per box id, as sent by the meme editor
+export const templateTextsSchema = z.record(z.string(), z.string().max(500));
+export type TemplateTexts = z.infer<typeof templateTextsSchema>;
+
+export type MemeTemplateWithStats = MemeTemplate & { stats: Omit<MemeTemplateStats, 'templateId'> };
+
+export class MemeTemplateError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'MemeTemplateError';
+  }
+}
+
+function recentSince(): Date {
+  return new Date(Date.now() - RECENT_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function withStats(template: MemeTemplate, stats?: MemeTemplateStats): MemeTemplateWithStats {
+  return {
+    ...template,
+    stats: {
+      memeCount: stats?.memeCount ?? 0,
+      recentMemeCount: stats?.recentMemeCount ?? 0,
+      upvotes: stats?.upvotes ?? 0,
+      lastUsedAt: stats?.lastUsedAt ?? null,
+    },
+  };
+}
+
+// All templates with their usage stats, most used (or most recently added) first
+export async function listMemeTemplates(sort: TemplateSortMode = 'popular'): Promise<MemeTemplateWithStats[]> {
+  const [templates, stats] = await Promise.all([
+    storage.getMemeTemplates(),
+    storage.getMemeTemplateStats(recentSince()),
+  ]);
+  const statsById = new Map(stats.map(entry => [entry.templateId, entry]));
+  const list = templates.map(template => withStats(template, statsById.get(template.id)));
+
+  return list.sort((a, b) => {
+    switch (sort) {
+      case 'new':
+        return b.id - a.id;
+      case 'trending':
+        return b.stats.recentMemeCount - a.stats.recentMemeCount
+          || b.stats.memeCount - a.stats.memeCount
+          || b.id - a.id;
+      default:
+        return b.stats.memeCount - a.stats.memeCount
+          || b.stats.upvotes - a.stats.upvotes
+          || b.id - a.id;
+    }
+  });
+}
+
+export async function getMemeTemplateWithStats(id: number): Promise<MemeTemplateWithStats | undefined> {
+  const template = await storage.getMemeTemplate(id);
+  if (!template) return undefined;
+
+  const stats = await storage.getMemeTemplateStats(recentSince());
+  return withStats(template, stats.find(entry => entry.templateId === id));
+}
+
+async function loadBaseImage(imageUrl: string, blobs: BlobStorage): Promise<Buffer | undefined> {
+  const key = blobs.keyForUrl(imageUrl);
+  try {
+    return key ? await blobs.get(key) : undefined;
+  } catch (error) {
+    // e.g. "/uploads/../x" - the client's mistake, not ours
+    if (error instanceof InvalidBlobKeyError) {
+      throw new MemeTemplateError('imageUrl is not a valid uploaded image');
+    }
+    throw error;
+  }
+}
+
+// Read the template's base image size; templates can only use images uploaded through /api/uploads
+export async function measureTemplateImage(imageUrl: string, blobs: BlobStorage = blobStorage) {
+  const image = await loadBaseImage(imageUrl, blobs);
+  if (!image) {
+    throw new MemeTemplateError('imageUrl must point to an image uploaded through /api/uploads/images');
+  }
+
+  const { width, height } = await sharp(image).metadata();
+  if (!width || !height) {
+    throw new MemeTemplateError('Template image could not be read');
+  }
+  return { width, height };
+}
+
+// Check submitted texts against the template's boxes; unknown or over-long boxes are rejected
+export function validateTemplateTexts(template: MemeTemplate, texts: TemplateTexts): TemplateTexts {
+  const boxes = new Map(template.textBoxes.map(box => [box.id, box]));
+  const cleaned: TemplateTexts = {};
+
+  for (const [boxId, raw] of Object.entries(texts)) {
+    const box = boxes.get(boxId);
+    if (!box) {
+      throw new MemeTemplateError(`Template has no text box "${boxId}"`);
+    }
+
+    const text = raw.trim();
+    if (text.length > box.maxLength) {
+      throw new MemeTemplateError(`Text for "${boxId}" must be at most ${box.maxLength} characters`);
+    }
+    if (text) cleaned[boxId] = text;
+  }
+
+  if (Object.keys(cleaned).length === 0) {
+    throw new MemeTemplateError('Enter text for at least one text box');
+  }
+  return cleaned;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Greedy word wrap for a line width measured in characters; over-long words are split
+function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (let word of paragraph.split(/\s+/).filter(Boolean)) {
+      while (word.length > maxChars) {
+        if (line) lines.push(line);
+        lines.push(word.slice(0, maxChars));
+        word = word.slice(maxChars);
+        line = '';
+      }
+      if (!line) {
+        line = word;
+      } else if (line.length + 1 + word.length <= maxChars) {
+        line += ` ${word}`;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+// Largest font size at which the wrapped text still fits inside the box
+export function fitText(text: string, boxWidth: number, boxHeight: number) {
+  let fontSize = Math.floor(boxHeight / LINE_HEIGHT);
+
+  while (true) {
+    const maxChars = Math.max(1, Math.floor(boxWidth / (fontSize * GLYPH_WIDTH)));
+    const lines = wrapText(text, maxChars);
+    if (lines.length * fontSize * LINE_HEIGHT <= boxHeight || fontSize <= MIN_FONT_SIZE) {
+      return { fontSize, lines };
+    }
+    fontSize = Math.max(MIN_FONT_SIZE, Math.floor(fontSize * 0.9));
+  }
+}
+
+function renderTextBox(box: TemplateTextBox, text: string, width: number, height: number): string {
+  const boxX = box.x * width;
+  const boxY = box.y * height;
+  const boxWidth = box.width * width;
+  const boxHeight = box.height * height;
+
+  const { fontSize, lines } = fitText(box.uppercase ? text.toUpperCase() : text, boxWidth, boxHeight);
+  const anchor = box.align === 'left' ? 'start' : box.align === 'right' ? 'end' : 'middle';
+  const x = box.align === 'left' ? boxX : box.align === 'right' ? boxX + boxWidth : boxX + boxWidth / 2;
+  // Centre the block of lines vertically inside the box
+  const blockHeight = lines.length * fontSize * LINE_HEIGHT;
+  const firstBaseline = boxY + Math.max(0, (boxHeight - blockHeight) / 2) + fontSize;
+
+  const tspans = lines
+    .map((line, index) => `<tspan x="${x}" y="${firstBaseline + index * fontSize * LINE_HEIGHT}">${escapeXml(line)}</tspan>`)
+    .join('');
+
+  return `<text font-size="${fontSize}" text-anchor="${anchor}" fill="${box.color}" stroke="${box.strokeColor}" ` +
+    `stroke-width="${Math.max(1, fontSize / 12)}" stroke-linejoin="round" paint-order="stroke">${tspans}</text>`;
+}
+
+// Draw the texts onto the template's base image and return the composed image
+export async function renderMemeTemplate(
+  template: MemeTemplate,
+  texts: TemplateTexts,
+  blobs: BlobStorage = blobStorage,
+): Promise<Buffer> {
+  const base = await loadBaseImage(template.imageUrl, blobs);
+  if (!base) {
+    throw new MemeTemplateError('Template image is missing', 500);
+  }
+
+  const image = sharp(base);
+  const { width = template.width, height = template.height, format } = await image.metadata();
+
+  const layers = template.textBoxes
+    .filter(box => texts[box.id])
+    .map(box => renderTextBox(box, texts[box.id], width, height))
+    .join('');
+  const overlay = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+    `font-family="${FONT_FAMILY}" font-weight="bold">${layers}</svg>`;
+
+  const composed = image.composite([{ input: Buffer.from(overlay), top: 0, left: 0 }]);
+  // Text edges look muddy in JPEG at high compression, so only photos stay JPEG
+  return format === 'jpeg'
+    ? composed.jpeg({ quality: 90 }).toBuffer()
+    : composed.png().toBuffer();
+}
+
+// Render the texts and store the result like any other uploaded meme image
+export async function composeMemeImage(template: MemeTemplate, texts: TemplateTexts): Promise<UploadedImage> {
+  return processImageUpload(await renderMemeTemplate(template, texts));
+}
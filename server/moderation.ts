@@ -0,0 +1,191 @@
+import { EventEmitter } from 'events';
+import { storage } from './storage';
+import type {
+  ModerationAction,
+  ModerationStatus,
+  Report,
+  ReportReason,
+  ReportStatus,
+  ReportTargetType,
+} from '@shared/schema';
+
+// Open reports from distinct users that hide an item until a moderator looks at it; 0 disables auto-hide
+export const AUTO_HIDE_THRESHOLD = process.env.REPORT_AUTO_HIDE_THRESHOLD !== undefined
+  ? Math.max(0, parseInt(process.env.REPORT_AUTO_HIDE_THRESHOLD) || 0)
+  : 5;
+
+// Actions a moderator can take on a reported item
+export const moderatorActions = ['hide', 'remove', 'dismiss', 'warn'] as const;
+export type ModeratorAction = typeof moderatorActions[number];
+
+export interface ModerationWarning {
+  userId: number;
+  targetType: ReportTargetType;
+  targetId: number;
+  note: string | null;
+}
+
+export const moderationNotifier = new EventEmitter();
+
+export class ModerationError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ModerationError';
+  }
+}
+
+export interface ModerationTarget {
+  authorId: number | null;
+  moderationStatus: ModerationStatus;
+  item: Record<string, unknown>;
+}
+
+// The reported item with the fields moderation cares about, whatever its type
+export async function loadModerationTarget(targetType: ReportTargetType, targetId: number): Promise<ModerationTarget | undefined> {
+  switch (targetType) {
+    case 'meme': {
+      const meme = await storage.getMeme(targetId);
+      return meme && { authorId: meme.authorId, moderationStatus: meme.moderationStatus, item: meme };
+    }
+    case 'comment': {
+      const comment = await storage.getComment(targetId);
+      return comment && { authorId: comment.authorId, moderationStatus: comment.moderationStatus, item: comment };
+    }
+    case 'resource': {
+      const resource = await storage.getResource(targetId);
+      return resource && { authorId: resource.createdBy, moderationStatus: resource.moderationStatus, item: resource };
+    }
+  }
+}
+
+export async function reportContent(
+  reporterId: number,
+  targetType: ReportTargetType,
+  targetId: number,
+  reason: ReportReason,
+  details?: string | null,
+): Promise<Report> {
+  const target = await loadModerationTarget(targetType, targetId);
+  if (!target || target.moderationStatus === 'removed') {
+    throw new ModerationError(`${targetType[0].toUpperCase()}${targetType.slice(1)} not found`, 404);
+  }
+  if (target.authorId === reporterId) {
+    throw new ModerationError('You cannot report your own content', 400);
+  }
+
+  const report = await storage.createReport({ reporterId, targetType, targetId, reason, details: details || null });
+  if (!report) {
+    throw new ModerationError('You have already reported this', 409);
+  }
+
+  if (AUTO_HIDE_THRESHOLD > 0 && target.moderationStatus === 'visible') {
+    const openReports = await storage.countReports(targetType, targetId, 'open');
+    if (openReports >= AUTO_HIDE_THRESHOLD) {
+      await storage.setModerationStatus(targetType, targetId, 'hidden');
+      await storage.recordModerationAction({
+        moderatorId: null,
+        action: 'auto_hide',
+        targetType,
+        targetId,
+        userId: target.authorId,
+        note: `Hidden automatically after ${openReports} reports`,
+      });
+    }
+  }
+
+  return report;
+}
+
+// Reported items with their report counts, most reported first
+export async function getModerationQueue(options: {
+  status: ReportStatus;
+  targetType?: ReportTargetType;
+  limit: number;
+  offset?: number;
+}) {
+  const entries = await storage.getReportQueue(options);
+
+  return Promise.all(entries.map(async (entry) => {
+    const target = await loadModerationTarget(entry.targetType, entry.targetId);
+    return {
+      ...entry,
+      moderationStatus: target?.moderationStatus ?? null,
+      target: target?.item ?? null,
+    };
+  }));
+}
+
+// Everything moderators need to decide on one item
+export async function getModerationCase(targetType: ReportTargetType, targetId: number) {
+  const target = await loadModerationTarget(targetType, targetId);
+  if (!target) {
+    throw new ModerationError('Reported item not found', 404);
+  }
+
+  const [reports, actions] = await Promise.all([
+    storage.getReports(targetType, targetId),
+    storage.getModerationActions(targetType, targetId),
+  ]);
+
+  return { targetType, targetId, moderationStatus: target.moderationStatus, target: target.item, reports, actions };
+}
+
+// Apply a moderator's decision and close the item's open reports
+export async function moderateContent(
+  moderatorId: number,
+  targetType: ReportTargetType,
+  targetId: number,
+  action: ModeratorAction,
+  note?: string | null,
+): Promise<{ action: ModerationAction; moderationStatus: ModerationStatus; resolvedReports: number }> {
+  const target = await loadModerationTarget(targetType, targetId);
+  if (!target) {
+    throw new ModerationError('Reported item not found', 404);
+  }
+
+  let moderationStatus = target.moderationStatus;
+  switch (action) {
+    case 'hide':
+      moderationStatus = 'hidden';
+      break;
+    case 'remove':
+      moderationStatus = 'removed';
+      break;
+    case 'dismiss':
+      // Dismissing the reports undoes an automatic hide; removals stay in place
+      if (moderationStatus === 'hidden') moderationStatus = 'visible';
+      break;
+    case 'warn':
+      if (!target.authorId) {
+        throw new ModerationError('This item has no author to warn', 400);
+      }
+      break;
+  }
+
+  if (moderationStatus !== target.moderationStatus) {
+    await storage.setModerationStatus(targetType, targetId, moderationStatus);
+  }
+
+  const resolvedReports = await storage.resolveReports(
+    targetType,
+    targetId,
+    action === 'dismiss' ? 'dismissed' : 'actioned',
+    moderatorId,
+  );
+
+  const logged = await storage.recordModerationAction({
+    moderatorId,
+    action,
+    targetType,
+    targetId,
+    userId: target.authorId,
+    note: note || null,
+  });
+
+  if (action === 'warn' && target.authorId) {
+    const warning: ModerationWarning = { userId: target.authorId, targetType, targetId, note: logged.note };
+    moderationNotifier.emit('warning', warning);
+  }
+
+  return { action: logged, moderationStatus, resolvedReports };
+}
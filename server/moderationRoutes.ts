@@ -0,0 +1,91 @@
+import express from 'express';
+import { z } from 'zod';
+import { isAuthenticated, requirePermission } from './auth';
+import {
+  getModerationCase,
+  getModerationQueue,
+  moderateContent,
+  ModerationError,
+  moderatorActions,
+} from './moderation';
+import { reportStatuses, reportTargetTypes } from '@shared/schema';
+
+const router = express.Router();
+
+const queueQuerySchema = z.object({
+  status: z.enum(reportStatuses).default('open'),
+  type: z.enum(reportTargetTypes).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const targetParamsSchema = z.object({
+  targetType: z.enum(reportTargetTypes),
+  targetId: z.coerce.number().int().positive(),
+});
+
+const actionSchema = z.object({
+  action: z.enum(moderatorActions),
+  note: z.string().trim().max(1000).optional(),
+});
+
+// Every moderation route requires a signed-in moderator
+router.use(isAuthenticated, requirePermission('moderate_content'));
+
+// Reported items grouped by target, with report counts per reason
+router.get('/queue', async (req, res) => {
+  try {
+    const query = queueQuerySchema.parse(req.query);
+    const queue = await getModerationQueue({
+      status: query.status,
+      targetType: query.type,
+      limit: query.limit,
+      offset: query.offset,
+    });
+    res.json(queue);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid queue query', errors: error.errors });
+    }
+    console.error('Error fetching moderation queue:', error);
+    res.status(500).json({ message: 'Failed to fetch moderation queue' });
+  }
+});
+
+// Individual reports and past actions for one item
+router.get('/:targetType/:targetId', async (req, res) => {
+  try {
+    const { targetType, targetId } = targetParamsSchema.parse(req.params);
+    res.json(await getModerationCase(targetType, targetId));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid moderation target', errors: error.errors });
+    }
+    if (error instanceof ModerationError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    res.status(500).json({ message: 'Failed to fetch reports' });
+  }
+});
+
+// Hide, remove, dismiss or warn - closes the item's open reports
+router.post('/:targetType/:targetId/actions', async (req: any, res) => {
+  try {
+    const { targetType, targetId } = targetParamsSchema.parse(req.params);
+    const { action, note } = actionSchema.parse(req.body);
+
+    const result = await moderateContent(req.user.id, targetType, targetId, action, note);
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid moderation action', errors: error.errors });
+    }
+    if (error instanceof ModerationError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Error applying moderation action:', error);
+    res.status(500).json({ message: 'Failed to apply moderation action' });
+  }
+});
+
+export default router;
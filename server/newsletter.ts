@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { storage } from './storage';
+import { mailer } from './mailer';
+import { queueNewsletterSync } from './newsletterSync';
+import { appUrl, newsletterConfirmationEmail } from './emailTemplates';
+import type { NewsletterStatus, NewsletterSubscriber } from '@shared/schema';
+
+const NEWSLETTER_SECRET = process.env.NEWSLETTER_SECRET || process.env.SESSION_SECRET || 'newsletter-secret-change-in-production';
+const CONFIRMATION_TTL = '7d';
+// A pending signup gets at most one confirmation email per window
+const CONFIRMATION_RESEND_INTERVAL = 10 * 60 * 1000;
+
+export class NewsletterError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'NewsletterError';
+  }
+}
+
+// Fields shown to the subscriber themselves
+export function subscriptionState(subscriber: NewsletterSubscriber) {
+  return {
+    email: subscriber.email,
+    status: subscriber.status,
+    confirmedAt: subscriber.confirmedAt,
+    unsubscribedAt: subscriber.unsubscribedAt,
+  };
+}
+
+export function confirmationToken(email: string): string {
+  return jwt.sign({ email: email.toLowerCase(), purpose: 'newsletter-confirm' }, NEWSLETTER_SECRET, { expiresIn: CONFIRMATION_TTL });
+}
+
+function confirmedEmail(token: string): string | undefined {
+  try {
+    const payload: any = jwt.verify(token, NEWSLETTER_SECRET);
+    return payload?.purpose === 'newsletter-confirm' && typeof payload.email === 'string' ? payload.email : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function confirmationUrl(email: string): string {
+  return appUrl(`/api/newsletter/confirm?${new URLSearchParams({ token: confirmationToken(email) })}`);
+}
+
+// Unsubscribe links never expire, so they are a plain signature over the address
+export function unsubscribeToken(email: string): string {
+  return crypto.createHmac('sha256', NEWSLETTER_SECRET).update(`unsubscribe:${email.toLowerCase()}`).digest('base64url');
+}
+
+export function isValidUnsubscribeToken(email: string, token: string): boolean {
+  const expected = Buffer.from(unsubscribeToken(email));
+  const given = Buffer.from(token);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+export function unsubscribeUrl(email: string): string {
+  const params = new URLSearchParams({ email: email.toLowerCase(), token: unsubscribeToken(email) });
+  return appUrl(`/api/newsletter/unsubscribe?${params}`);
+}
+
+// Start a signup (or a comeback after unsubscribing) by mailing a confirmation link
+export async function subscribe(email: string): Promise<{ status: NewsletterStatus; confirmationSent: boolean }> {
+  const subscriber = await storage.addNewsletterSubscriber(email);
+  if (subscriber.status === 'subscribed') {
+    return { status: 'subscribed', confirmationSent: false };
+  }
+
+  const sentAt = subscriber.confirmationSentAt ? new Date(subscriber.confirmationSentAt).getTime() : 0;
+  if (subscriber.status === 'pending' && Date.now() - sentAt < CONFIRMATION_RESEND_INTERVAL) {
+    return { status: 'pending', confirmationSent: false };
+  }
+
+  await mailer.send({ to: subscriber.email, ...newsletterConfirmationEmail({ confirmUrl: confirmationUrl(subscriber.email) }) });
+  await storage.updateNewsletterSubscriber(subscriber.id, { status: 'pending', confirmationSentAt: new Date() });
+  return { status: 'pending', confirmationSent: true };
+}
+
+// Second half of the double opt-in: the link from the confirmation email
+export async function confirmSubscription(token: string): Promise<NewsletterSubscriber> {
+  const email = confirmedEmail(token);
+  if (!email) {
+    throw new NewsletterError('This confirmation link is invalid or has expired');
+  }
+
+  const subscriber = await storage.getNewsletterSubscriber(email);
+  if (!subscriber) {
+    throw new NewsletterError('Subscription not found', 404);
+  }
+  if (subscriber.status === 'subscribed') {
+    return subscriber;
+  }
+  // An old link must not undo an unsubscribe that happened after it was sent
+  if (subscriber.status === 'unsubscribed') {
+    throw new NewsletterError('You have unsubscribed since this link was sent - sign up again to resubscribe', 410);
+  }
+
+  const confirmed = await storage.updateNewsletterSubscriber(subscriber.id, {
+    status: 'subscribed',
+    confirmedAt: new Date(),
+    unsubscribedAt: null,
+  });
+  await queueNewsletterSync(confirmed.email, 'subscribe');
+  return confirmed;
+}
+
+// Returns false when the address wasn't on the list
+export async function unsubscribe(email: string): Promise<boolean> {
+  const subscriber = await storage.getNewsletterSubscriber(email);
+  if (!subscriber || subscriber.status === 'unsubscribed') return false;
+
+  await storage.updateNewsletterSubscriber(subscriber.id, { status: 'unsubscribed', unsubscribedAt: new Date() });
+  // Pending addresses never reached the provider
+  if (subscriber.status === 'subscribed') {
+    await queueNewsletterSync(subscriber.email, 'unsubscribe');
+  }
+  return true;
+}
+
+// Undo an unsubscribe from the link in a newsletter. The signed link already proves the
+// address, so this skips the confirmation email; returns false if there was nothing to undo.
+export async function resubscribe(email: string): Promise<boolean> {
+  const subscriber = await storage.getNewsletterSubscriber(email);
+  if (!subscriber || subscriber.status !== 'unsubscribed' || !subscriber.confirmedAt) return false;
+
+  await storage.updateNewsletterSubscriber(subscriber.id, { status: 'subscribed', unsubscribedAt: null });
+  await queueNewsletterSync(subscriber.email, 'subscribe');
+  return true;
+}
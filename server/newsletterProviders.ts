@@ -0,0 +1,151 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import fetch from 'node-fetch';
+import type { NewsletterSyncAction } from '@shared/schema';
+
+export interface MemberChange {
+  email: string;
+  action: NewsletterSyncAction;
+}
+
+// Per-member outcome of a batch; `error` is set when that member was rejected
+export interface MemberSyncResult {
+  email: string;
+  error?: string;
+}
+
+// External list the newsletter is mirrored to. Only confirmed addresses are pushed;
+// double opt-in itself happens in server/newsletter.ts and delivery in server/newsletterSync.ts.
+export interface NewsletterProvider {
+  readonly name: string;
+  // Apply a batch of changes. Throws when the whole batch failed, e.g. the provider is down.
+  syncMembers(changes: MemberChange[]): Promise<MemberSyncResult[]>;
+  // Addresses unsubscribed on the provider's side (say, from its own footer link) since `since`
+  getUnsubscribed(since?: Date): Promise<string[]>;
+}
+
+export class NewsletterProviderError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'NewsletterProviderError';
+  }
+}
+
+// Mailchimp addresses list members by the MD5 hash of the lowercase email
+export function memberHash(email: string): string {
+  return crypto.createHash('md5').update(email.toLowerCase()).digest('hex');
+}
+
+// Page size when listing members
+const MAILCHIMP_PAGE_SIZE = 500;
+
+export class MailchimpProvider implements NewsletterProvider {
+  readonly name = 'mailchimp';
+
+  constructor(private readonly apiKey: string, private readonly listId: string, private readonly apiUrl: string) {}
+
+  async syncMembers(changes: MemberChange[]): Promise<MemberSyncResult[]> {
+    if (changes.length === 0) return [];
+
+    // Batch subscribe/unsubscribe; update_existing also brings back people who unsubscribed before
+    const data = await this.request('POST', `/lists/${this.listId}`, {
+      members: changes.map(change => ({
+        email_address: change.email,
+        status: change.action === 'subscribe' ? 'subscribed' : 'unsubscribed',
+      })),
+      update_existing: true,
+    });
+
+    const errors = new Map<string, string>();
+    for (const error of data?.errors ?? []) {
+      if (typeof error?.email_address === 'string') {
+        errors.set(memberHash(error.email_address), error.error ?? error.error_code ?? 'Rejected by Mailchimp');
+      }
+    }
+    return changes.map(change => ({ email: change.email, error: errors.get(memberHash(change.email)) }));
+  }
+
+  async getUnsubscribed(since?: Date): Promise<string[]> {
+    const emails: string[] = [];
+    for (let offset = 0; ; offset += MAILCHIMP_PAGE_SIZE) {
+      const params = new URLSearchParams({
+        status: 'unsubscribed',
+        fields: 'members.email_address,total_items',
+        count: String(MAILCHIMP_PAGE_SIZE),
+        offset: String(offset),
+      });
+      if (since) params.set('since_last_changed', since.toISOString());
+
+      const data = await this.request('GET', `/lists/${this.listId}/members?${params}`);
+      const members: any[] = data?.members ?? [];
+      emails.push(...members.map(member => member.email_address).filter((email): email is string => typeof email === 'string'));
+      if (members.length < MAILCHIMP_PAGE_SIZE || offset + members.length >= (data?.total_items ?? 0)) {
+        return emails;
+      }
+    }
+  }
+
+  private async request(method: 'GET' | 'POST', pathname: string, body?: object): Promise<any> {
+    const response = await fetch(`${this.apiUrl}${pathname}`, {
+      method,
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`anystring:${this.apiKey}`).toString('base64')}`,
+        'Content-Type': 'application/json',
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const data: any = await response.json().catch(() => undefined);
+    if (!response.ok) {
+      throw new NewsletterProviderError(`Mailchimp ${method} ${pathname.split('?')[0]} failed: ${data?.detail ?? data?.title ?? response.statusText}`, response.status);
+    }
+    return data;
+  }
+}
+
+// Keeps the list in the app only; with a file it also appends one JSON line per change
+export class LocalNewsletterProvider implements NewsletterProvider {
+  readonly name = 'local';
+
+  constructor(private readonly logFile?: string) {}
+
+  async syncMembers(changes: MemberChange[]): Promise<MemberSyncResult[]> {
+    if (this.logFile && changes.length > 0) {
+      const at = new Date().toISOString();
+      await fs.promises.mkdir(path.dirname(this.logFile), { recursive: true });
+      await fs.promises.appendFile(this.logFile, changes.map(change => `${JSON.stringify({ ...change, at })}\n`).join(''));
+    }
+    return changes.map(change => ({ email: change.email }));
+  }
+
+  async getUnsubscribed(): Promise<string[]> {
+    return [];
+  }
+}
+
+// Pick the provider from NEWSLETTER_PROVIDER; defaults to Mailchimp when its credentials are set.
+// MAILCHIMP_API_URL overrides the API root, e.g. to point at a fake server in tests.
+export function createNewsletterProvider(
+  provider = process.env.NEWSLETTER_PROVIDER || (process.env.MAILCHIMP_API_KEY ? 'mailchimp' : 'local'),
+): NewsletterProvider {
+  switch (provider) {
+    case 'mailchimp': {
+      const apiKey = process.env.MAILCHIMP_API_KEY;
+      const listId = process.env.MAILCHIMP_LIST_ID;
+      // The data center should look like "us4", but values copied from the API key come as "-us4"
+      const dataCenter = process.env.MAILCHIMP_DATA_CENTER?.replace(/^-/, '');
+      const apiUrl = process.env.MAILCHIMP_API_URL || (dataCenter && `https://${dataCenter}.api.mailchimp.com/3.0`);
+      if (!apiKey || !listId || !apiUrl) {
+        throw new Error('MAILCHIMP_API_KEY, MAILCHIMP_LIST_ID and MAILCHIMP_DATA_CENTER must be set for the mailchimp newsletter provider');
+      }
+      return new MailchimpProvider(apiKey, listId, apiUrl.replace(/\/$/, ''));
+    }
+    case 'local':
+      return new LocalNewsletterProvider(process.env.NEWSLETTER_LOG_FILE ? path.resolve(process.env.NEWSLETTER_LOG_FILE) : undefined);
+    default:
+      throw new Error(`Unknown NEWSLETTER_PROVIDER "${provider}"`);
+  }
+}
+
+export const newsletterProvider = createNewsletterProvider();
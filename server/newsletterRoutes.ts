@@ -0,0 +1,164 @@
+import express from 'express';
+import { z } from 'zod';
+import { escapeHtml } from './emailTemplates';
+import {
+  confirmSubscription,
+  isValidUnsubscribeToken,
+  NewsletterError,
+  resubscribe,
+  subscribe,
+  subscriptionState,
+  unsubscribe,
+  unsubscribeToken,
+} from './newsletter';
+
+const router = express.Router();
+
+const subscribeSchema = z.object({
+  email: z.string().trim().email(),
+});
+
+const confirmSchema = z.object({
+  token: z.string().min(1),
+});
+
+// Unsubscribe and resubscribe links carry the address and its signature
+const signedLinkSchema = z.object({
+  email: z.string().email(),
+  token: z.string().min(1),
+});
+
+function signedEmail(query: unknown): string | undefined {
+  const parsed = signedLinkSchema.safeParse(query);
+  return parsed.success && isValidUnsubscribeToken(parsed.data.email, parsed.data.token) ? parsed.data.email : undefined;
+}
+
+// Small standalone page for links opened from an email
+function newsletterPage(message: string, extra = ''): string {
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Newsletter</title></head>` +
+    `<body style="font-family:Helvetica,Arial,sans-serif;padding:48px;text-align:center"><p>${escapeHtml(message)}</p>${extra}</body></html>`;
+}
+
+// A button that posts the signed address to `path`
+function signedForm(path: string, email: string, label: string): string {
+  const action = `/api/newsletter/${path}?${new URLSearchParams({ email, token: unsubscribeToken(email) })}`;
+  return `<form method="post" action="${escapeHtml(action)}"><button type="submit">${escapeHtml(label)}</button></form>`;
+}
+
+// Sign up; nothing is sent until the address is confirmed from the email we send
+router.post('/subscribe', async (req, res) => {
+  try {
+    const { email } = subscribeSchema.parse(req.body);
+    const { status, confirmationSent } = await subscribe(email);
+    if (status === 'subscribed') {
+      return res.json({ success: true, status, message: 'This email is already subscribed to our newsletter.' });
+    }
+    res.status(202).json({
+      success: true,
+      status,
+      confirmationSent,
+      message: 'Almost there! Check your inbox to confirm your subscription.',
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'A valid email is required', errors: error.errors });
+    }
+    console.error('Newsletter subscription error:', error);
+    res.status(500).json({ message: 'Failed to subscribe to the newsletter. Please try again later.' });
+  }
+});
+
+// Confirmation link from the opt-in email
+router.get('/confirm', async (req, res) => {
+  try {
+    const { token } = confirmSchema.parse(req.query);
+    await confirmSubscription(token);
+    res.type('html').send(newsletterPage('Thanks! Your subscription is confirmed - see you in the next Hall of Shame.'));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).type('html').send(newsletterPage('This confirmation link is invalid.'));
+    }
+    if (error instanceof NewsletterError) {
+      return res.status(error.status).type('html').send(newsletterPage(error.message));
+    }
+    console.error('Newsletter confirmation error:', error);
+    res.status(500).type('html').send(newsletterPage('Something went wrong. Please try again later.'));
+  }
+});
+
+// Same as the link, for clients that confirm through the API
+router.post('/confirm', async (req, res) => {
+  try {
+    const { token } = confirmSchema.parse(req.body);
+    res.json(subscriptionState(await confirmSubscription(token)));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Confirmation token is required', errors: error.errors });
+    }
+    if (error instanceof NewsletterError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    console.error('Newsletter confirmation error:', error);
+    res.status(500).json({ message: 'Failed to confirm subscription' });
+  }
+});
+
+// Link in the footer of every newsletter. Only asks: link scanners and mail clients fetch links
+// ahead of the reader, so the unsubscribe itself waits for the button.
+router.get('/unsubscribe', (req, res) => {
+  const email = signedEmail(req.query);
+  if (!email) {
+    return res.status(400).type('html').send(newsletterPage('This unsubscribe link is invalid.'));
+  }
+
+  res.type('html').send(newsletterPage(`Stop sending the newsletter to ${email}?`, signedForm('unsubscribe', email, 'Unsubscribe')));
+});
+
+// The button on that page, and one-click unsubscribe (RFC 8058) sent by mail clients from the
+// List-Unsubscribe header. Browsers get a page back, everything else JSON.
+router.post('/unsubscribe', async (req, res) => {
+  const email = signedEmail(req.query);
+  if (!email) {
+    return res.format({
+      json: () => res.status(400).json({ message: 'Invalid unsubscribe link' }),
+      html: () => res.status(400).send(newsletterPage('This unsubscribe link is invalid.')),
+    });
+  }
+
+  try {
+    const unsubscribed = await unsubscribe(email);
+    res.format({
+      json: () => res.json({ unsubscribed }),
+      html: () => res.send(newsletterPage(
+        'You have been unsubscribed and will not receive the newsletter any more.',
+        signedForm('resubscribe', email, 'Changed your mind? Resubscribe'),
+      )),
+    });
+  } catch (error) {
+    console.error('Error unsubscribing:', error);
+    res.format({
+      json: () => res.status(500).json({ message: 'Failed to unsubscribe' }),
+      html: () => res.status(500).send(newsletterPage('Something went wrong. Please try again later.')),
+    });
+  }
+});
+
+// Button on the unsubscribe page
+router.post('/resubscribe', async (req, res) => {
+  const email = signedEmail(req.query);
+  if (!email) {
+    return res.status(400).type('html').send(newsletterPage('This link is invalid.'));
+  }
+
+  try {
+    const resubscribed = await resubscribe(email);
+    res.type('html').send(newsletterPage(resubscribed
+      ? 'Welcome back! You are subscribed again.'
+      : 'There was no unsubscribe to undo - sign up on the site to get the newsletter.'));
+  } catch (error) {
+    console.error('Error resubscribing:', error);
+    res.status(500).type('html').send(newsletterPage('Something went wrong. Please try again later.'));
+  }
+});
+
+export default router;
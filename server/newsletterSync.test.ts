@@ -0,0 +1,253 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+type MemberStatus = 'subscribed' | 'unsubscribed';
+
+// Stands in for the parts of the Mailchimp API the provider calls: batch member updates on
+// POST /lists/:id and the paged member list on GET /lists/:id/members
+class FakeMailchimp {
+  readonly members = new Map<string, { status: MemberStatus; lastChanged: Date }>();
+  // Emails of every batch call, in order
+  readonly batches: string[][] = [];
+  readonly listQueries: URLSearchParams[] = [];
+  // Whole calls to answer with a 503
+  outages = 0;
+  // Addresses to reject inside an otherwise successful batch
+  readonly rejected = new Set<string>();
+  // Runs while a batch is being handled, before the response goes out
+  onBatch?: (emails: string[]) => Promise<void>;
+  private server = http.createServer((req, res) => {
+    this.handle(req, res).catch((error) => {
+      res.writeHead(500).end(JSON.stringify({ detail: String(error) }));
+    });
+  });
+
+  constructor(readonly apiKey: string, readonly listId: string) {}
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/3.0`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  reset() {
+    this.members.clear();
+    this.batches.length = 0;
+    this.listQueries.length = 0;
+    this.outages = 0;
+    this.rejected.clear();
+    this.onBatch = undefined;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const send = (status: number, body: object) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+    };
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (req.headers.authorization !== `Basic ${Buffer.from(`anystring:${this.apiKey}`).toString('base64')}`) {
+      return send(401, { title: 'API Key Invalid' });
+    }
+
+    if (req.method === 'POST' && url.pathname === `/3.0/lists/${this.listId}`) {
+      let raw = '';
+      for await (const chunk of req) raw += chunk;
+      const { members } = JSON.parse(raw) as { members: Array<{ email_address: string; status: MemberStatus }> };
+      this.batches.push(members.map(member => member.email_address));
+      await this.onBatch?.(members.map(member => member.email_address));
+
+      if (this.outages > 0) {
+        this.outages--;
+        return send(503, { title: 'Service Unavailable', detail: 'Try again later' });
+      }
+
+      const errors = [];
+      for (const member of members) {
+        if (this.rejected.has(member.email_address)) {
+          errors.push({ email_address: member.email_address, error: 'Looks fake' });
+        } else {
+          this.members.set(member.email_address, { status: member.status, lastChanged: new Date() });
+        }
+      }
+      return send(200, { new_members: [], updated_members: [], errors });
+    }
+
+    if (req.method === 'GET' && url.pathname === `/3.0/lists/${this.listId}/members`) {
+      this.listQueries.push(url.searchParams);
+      const since = url.searchParams.get('since_last_changed');
+      const matching = Array.from(this.members.entries())
+        .filter(([, member]) => member.status === url.searchParams.get('status')
+          && (!since || member.lastChanged >= new Date(since)))
+        .map(([email]) => ({ email_address: email }));
+      const offset = Number(url.searchParams.get('offset') ?? 0);
+      const count = Number(url.searchParams.get('count') ?? 10);
+      return send(200, { members: matching.slice(offset, offset + count), total_items: matching.length });
+    }
+
+    send(404, { title: 'Resource Not Found' });
+  }
+}
+
+const mailchimp = new FakeMailchimp('test-key-us1', 'list1');
+
+// The provider and storage are picked from the environment when first imported
+let sync: typeof import('./newsletterSync');
+let storage: typeof import('./storage').storage;
+let memberHash: typeof import('./newsletterProviders').memberHash;
+
+let sequence = 0;
+const email = () => `reader${++sequence}@example.test`;
+const minutes = (count: number) => count * 60 * 1000;
+
+async function subscriber(address: string) {
+  const added = await storage.addNewsletterSubscriber(address);
+  return storage.updateNewsletterSubscriber(added.id, { status: 'subscribed', confirmedAt: new Date() });
+}
+
+describe('newsletter sync against Mailchimp', () => {
+  before(async () => {
+    Object.assign(process.env, {
+      STORAGE_BACKEND: 'memory',
+      NEWSLETTER_PROVIDER: 'mailchimp',
+      MAILCHIMP_API_KEY: mailchimp.apiKey,
+      MAILCHIMP_LIST_ID: mailchimp.listId,
+      MAILCHIMP_API_URL: await mailchimp.start(),
+    });
+    sync = await import('./newsletterSync');
+    ({ storage } = await import('./storage'));
+    ({ memberHash } = await import('./newsletterProviders'));
+  });
+
+  after(() => mailchimp.stop());
+
+  beforeEach(() => mailchimp.reset());
+
+  it('pushes queued changes in batches of 100', async () => {
+    const emails = Array.from({ length: 150 }, email);
+    for (const address of emails) {
+      await sync.queueNewsletterSync(address, 'subscribe');
+    }
+
+    const run = await sync.processNewsletterSyncQueue();
+    assert.equal(run.processed, 150);
+    assert.equal(run.succeeded, 150);
+    assert.deepEqual(mailchimp.batches.map(batch => batch.length), [100, 50]);
+    assert.equal(mailchimp.members.get(emails[149])?.status, 'subscribed');
+    assert.equal(await storage.getPendingNewsletterSync(memberHash(emails[0])), undefined);
+  });
+
+  it('backs off after an outage and gives up after the last attempt', async () => {
+    const address = email();
+    await sync.queueNewsletterSync(address, 'subscribe');
+    const start = new Date();
+
+    mailchimp.outages = sync.MAX_SYNC_ATTEMPTS;
+    let run = await sync.processNewsletterSyncQueue(start);
+    assert.deepEqual([run.retrying, run.succeeded], [1, 0]);
+    const job = await storage.getPendingNewsletterSync(memberHash(address));
+    assert.equal(job?.attempts, 1);
+    assert.match(job?.lastError ?? '', /Try again later/);
+    assert.equal(job?.nextAttemptAt.getTime(), start.getTime() + sync.retryDelay(1));
+
+    // Not due yet
+    run = await sync.processNewsletterSyncQueue(new Date(start.getTime() + sync.retryDelay(1) - 1));
+    assert.equal(run.processed, 0);
+
+    // Each retry waits twice as long as the one before
+    let at = start.getTime();
+    for (let attempt = 1; attempt < sync.MAX_SYNC_ATTEMPTS; attempt++) {
+      at += sync.retryDelay(attempt);
+      run = await sync.processNewsletterSyncQueue(new Date(at));
+      assert.equal(run.processed, 1);
+    }
+    assert.equal(run.failed, 1);
+    assert.equal(await storage.getPendingNewsletterSync(memberHash(address)), undefined);
+    assert.equal(mailchimp.batches.length, sync.MAX_SYNC_ATTEMPTS);
+    assert.equal(sync.retryDelay(100), 6 * 60 * 60 * 1000);
+  });
+
+  it('retries only the members Mailchimp rejected', async () => {
+    const [accepted, rejected] = [email(), email()];
+    mailchimp.rejected.add(rejected);
+    await sync.queueNewsletterSync(accepted, 'subscribe');
+    await sync.queueNewsletterSync(rejected, 'subscribe');
+
+    const run = await sync.processNewsletterSyncQueue();
+    assert.deepEqual([run.succeeded, run.retrying], [1, 1]);
+    assert.equal(await storage.getPendingNewsletterSync(memberHash(accepted)), undefined);
+    assert.equal((await storage.getPendingNewsletterSync(memberHash(rejected)))?.lastError, 'Looks fake');
+
+    mailchimp.rejected.clear();
+    await sync.processNewsletterSyncQueue(new Date(Date.now() + minutes(1)));
+    assert.equal(mailchimp.members.get(rejected)?.status, 'subscribed');
+  });
+
+  it('keeps a change queued while an older one was being pushed', async () => {
+    const address = email();
+    await sync.queueNewsletterSync(address, 'subscribe');
+    mailchimp.onBatch = async () => {
+      mailchimp.onBatch = undefined;
+      await sync.queueNewsletterSync(address, 'unsubscribe');
+    };
+
+    let run = await sync.processNewsletterSyncQueue();
+    assert.deepEqual([run.processed, run.superseded, run.succeeded], [1, 1, 0]);
+    const pending = await storage.getPendingNewsletterSync(memberHash(address));
+    assert.deepEqual([pending?.action, pending?.revision, pending?.attempts], ['unsubscribe', 2, 0]);
+
+    run = await sync.processNewsletterSyncQueue(new Date(Date.now() + 1000));
+    assert.equal(run.succeeded, 1);
+    assert.equal(mailchimp.members.get(address)?.status, 'unsubscribed');
+  });
+
+  it('pulls unsubscribes made on Mailchimp back into the list', async () => {
+    const [left, stays, changedHere] = [email(), email(), email()];
+    await subscriber(left);
+    await subscriber(stays);
+    await subscriber(changedHere);
+    for (const address of [left, changedHere]) {
+      mailchimp.members.set(address, { status: 'unsubscribed', lastChanged: new Date() });
+    }
+    mailchimp.members.set(stays, { status: 'subscribed', lastChanged: new Date() });
+    // A newer change made here wins over what Mailchimp reports
+    await sync.queueNewsletterSync(changedHere, 'subscribe');
+
+    const run = await sync.reconcileNewsletter();
+    assert.deepEqual(run, { checked: 2, unsubscribed: 1 });
+    assert.equal((await storage.getNewsletterSubscriber(left))?.status, 'unsubscribed');
+    assert.equal((await storage.getNewsletterSubscriber(stays))?.status, 'subscribed');
+    assert.equal((await storage.getNewsletterSubscriber(changedHere))?.status, 'subscribed');
+
+    const since = new Date(Date.now() + minutes(1));
+    assert.deepEqual(await sync.reconcileNewsletter(since), { checked: 0, unsubscribed: 0 });
+    assert.equal(mailchimp.listQueries.at(-1)?.get('since_last_changed'), since.toISOString());
+  });
+
+  it('pages through long unsubscribe lists', async () => {
+    for (let index = 0; index < 501; index++) {
+      mailchimp.members.set(email(), { status: 'unsubscribed', lastChanged: new Date() });
+    }
+
+    const run = await sync.reconcileNewsletter();
+    assert.equal(run.checked, 501);
+    assert.deepEqual(mailchimp.listQueries.map(query => query.get('offset')), ['0', '500']);
+  });
+
+  it('prunes finished jobs after a week', async () => {
+    const address = email();
+    await sync.queueNewsletterSync(address, 'subscribe');
+    await sync.processNewsletterSyncQueue();
+    const done = (await storage.getNewsletterSyncStats()).done;
+    assert.ok(done > 0);
+
+    assert.equal((await sync.processNewsletterSyncQueue()).pruned, 0);
+    const run = await sync.processNewsletterSyncQueue(new Date(Date.now() + 8 * 24 * 60 * minutes(1)));
+    assert.equal(run.pruned, done);
+    assert.equal((await storage.getNewsletterSyncStats()).done, 0);
+  });
+});
@@ -0,0 +1,177 @@
+import { storage } from './storage';
+import { memberHash, newsletterProvider, type MemberSyncResult } from './newsletterProviders';
+import type { NewsletterSyncAction, NewsletterSyncJob } from '@shared/schema';
+
+// Jobs pushed to the provider per batch call
+const SYNC_BATCH_SIZE = 100;
+// Attempts before a job is given up on and marked failed
+export const MAX_SYNC_ATTEMPTS = 8;
+const RETRY_BASE_DELAY = 30 * 1000;
+const RETRY_MAX_DELAY = 6 * 60 * 60 * 1000;
+// How long finished jobs are kept around for the status endpoint
+const DONE_JOB_RETENTION = 7 * 24 * 60 * 60 * 1000;
+
+const SYNC_INTERVAL = parseInt(process.env.NEWSLETTER_SYNC_INTERVAL_SECONDS || '60') * 1000;
+const RECONCILE_INTERVAL = parseInt(process.env.NEWSLETTER_RECONCILE_INTERVAL_MINUTES || '360') * 60 * 1000;
+
+export interface SyncRun {
+  processed: number;
+  succeeded: number;
+  retrying: number;
+  failed: number;
+  // Jobs that were re-queued with a newer change while this run pushed them
+  superseded: number;
+  // Finished jobs past the retention period that were deleted
+  pruned: number;
+}
+
+export interface ReconcileRun {
+  // Addresses the provider reports as unsubscribed
+  checked: number;
+  // Of those, the ones that were still subscribed here
+  unsubscribed: number;
+}
+
+// Worker state for the status endpoint; resets on restart
+const state = {
+  lastSyncAt: null as Date | null,
+  lastSync: null as SyncRun | null,
+  lastSyncError: null as string | null,
+  lastReconcileAt: null as Date | null,
+  lastReconcile: null as ReconcileRun | null,
+  lastReconcileError: null as string | null,
+};
+
+// 30s, 1m, 2m, 4m ... capped at six hours
+export function retryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Record a change for the worker to push. A newer change for the same member replaces a queued one.
+export async function queueNewsletterSync(email: string, action: NewsletterSyncAction): Promise<NewsletterSyncJob> {
+  return storage.queueNewsletterSync({ email: email.toLowerCase(), memberHash: memberHash(email), action });
+}
+
+async function recordResult(job: NewsletterSyncJob, error: string | undefined, now: Date, run: SyncRun) {
+  const attempts = job.attempts + 1;
+  const changes: Partial<NewsletterSyncJob> = !error
+    ? { status: 'done', attempts, lastError: null }
+    : attempts >= MAX_SYNC_ATTEMPTS
+      ? { status: 'failed', attempts, lastError: error }
+      : { attempts, lastError: error, nextAttemptAt: new Date(now.getTime() + retryDelay(attempts)) };
+
+  if (!(await storage.updateNewsletterSyncJob(job.id, job.revision, changes))) {
+    // The member changed again mid-push; the newer job goes out on its own
+    run.superseded++;
+    return;
+  }
+  if (!error) run.succeeded++;
+  else if (changes.status === 'failed') run.failed++;
+  else run.retrying++;
+}
+
+// Push every due job to the provider, one batch call at a time, then clear out old finished ones
+export async function processNewsletterSyncQueue(now: Date = new Date()): Promise<SyncRun> {
+  const run: SyncRun = { processed: 0, succeeded: 0, retrying: 0, failed: 0, superseded: 0, pruned: 0 };
+
+  for (;;) {
+    const jobs = await storage.getDueNewsletterSyncJobs(now, SYNC_BATCH_SIZE);
+    if (jobs.length === 0) break;
+
+    let results: MemberSyncResult[];
+    try {
+      results = await newsletterProvider.syncMembers(jobs.map(job => ({ email: job.email, action: job.action })));
+    } catch (error) {
+      // The whole batch failed, e.g. an outage: every job backs off
+      const message = errorMessage(error);
+      results = jobs.map(job => ({ email: job.email, error: message }));
+    }
+
+    for (let index = 0; index < jobs.length; index++) {
+      await recordResult(jobs[index], results[index]?.error, now, run);
+    }
+    run.processed += jobs.length;
+  }
+
+  run.pruned = await storage.pruneNewsletterSyncJobs(new Date(now.getTime() - DONE_JOB_RETENTION));
+  return run;
+}
+
+// Pull unsubscribes made on the provider's side back into the local list. Members with
+// a change still queued are left alone - that change is newer and will win.
+export async function reconcileNewsletter(since?: Date): Promise<ReconcileRun> {
+  const emails = await newsletterProvider.getUnsubscribed(since);
+  const run: ReconcileRun = { checked: emails.length, unsubscribed: 0 };
+
+  for (const email of emails) {
+    const subscriber = await storage.getNewsletterSubscriber(email);
+    if (subscriber?.status !== 'subscribed') continue;
+    if (await storage.getPendingNewsletterSync(memberHash(email))) continue;
+
+    await storage.updateNewsletterSubscriber(subscriber.id, { status: 'unsubscribed', unsubscribedAt: new Date() });
+    run.unsubscribed++;
+  }
+  return run;
+}
+
+let syncRunning: Promise<SyncRun> | undefined;
+let reconcileRunning: Promise<ReconcileRun> | undefined;
+
+// Overlapping calls share one run
+export function runNewsletterSync(): Promise<SyncRun> {
+  if (!syncRunning) {
+    const startedAt = new Date();
+    syncRunning = processNewsletterSyncQueue(startedAt)
+      .then((run) => {
+        Object.assign(state, { lastSyncAt: startedAt, lastSync: run, lastSyncError: null });
+        return run;
+      }, (error) => {
+        Object.assign(state, { lastSyncAt: startedAt, lastSyncError: errorMessage(error) });
+        throw error;
+      })
+      .finally(() => {
+        syncRunning = undefined;
+      });
+  }
+  return syncRunning;
+}
+
+// After the first pass only changes since the previous one are fetched
+export function runNewsletterReconcile(): Promise<ReconcileRun> {
+  if (!reconcileRunning) {
+    const startedAt = new Date();
+    reconcileRunning = reconcileNewsletter(state.lastReconcileAt ?? undefined)
+      .then((run) => {
+        Object.assign(state, { lastReconcileAt: startedAt, lastReconcile: run, lastReconcileError: null });
+        return run;
+      }, (error) => {
+        state.lastReconcileError = errorMessage(error);
+        throw error;
+      })
+      .finally(() => {
+        reconcileRunning = undefined;
+      });
+  }
+  return reconcileRunning;
+}
+
+export async function newsletterSyncStatus() {
+  return {
+    provider: newsletterProvider.name,
+    queue: await storage.getNewsletterSyncStats(),
+    ...state,
+  };
+}
+
+export function startNewsletterSync() {
+  const sync = () => runNewsletterSync().catch(error => console.error('Newsletter sync failed:', error));
+  const reconcile = () => runNewsletterReconcile().catch(error => console.error('Newsletter reconciliation failed:', error));
+
+  setInterval(sync, SYNC_INTERVAL).unref();
+  setInterval(reconcile, RECONCILE_INTERVAL).unref();
+  sync();
+}
@@ -0,0 +1,120 @@
+import express from 'express';
+import { z } from 'zod';
+import { isAuthenticated } from './auth';
+import { storage } from './storage';
+import { decodeCursor, encodeCursor, pageLimitSchema, pagePositionSchema } from './pagination';
+import {
+  listNotifications,
+  markNotificationsRead,
+  notificationPreferences,
+  updateNotificationPreferences,
+} from './notifications';
+import { notificationTypes, type NotificationType } from '@shared/schema';
+
+const router = express.Router();
+router.use(isAuthenticated);
+
+const notificationListQuerySchema = z.object({
+  unread: z.enum(['true', 'false']).optional(),
+  limit: pageLimitSchema(20),
+  cursor: z.string().optional(),
+});
+
+// The cursor remembers the unread filter so later pages stay consistent
+const notificationCursorSchema = z.object({
+  unreadOnly: z.boolean(),
+  after: pagePositionSchema,
+});
+
+const markReadSchema = z.object({
+  ids: z.array(z.number().int().positive()).max(100).optional(),
+});
+
+const preferencesSchema = z.object(
+  Object.fromEntries(notificationTypes.map(type => [type, z.boolean().optional()])) as
+    Record<NotificationType, z.ZodOptional<z.ZodBoolean>>,
+).strict();
+
+// Newest activity first; `?unread=true` hides what has been read
+router.get('/', async (req: any, res) => {
+  try {
+    const userId = req.user.id;
+    const query = notificationListQuerySchema.parse(req.query);
+    const cursor = query.cursor ? decodeCursor(query.cursor, notificationCursorSchema) : undefined;
+    if (query.cursor && !cursor) {
+      return res.status(400).json({ message: 'Invalid cursor' });
+    }
+
+    const unreadOnly = cursor ? cursor.unreadOnly : query.unread === 'true';
+    const { notifications, unreadCount, next } = await listNotifications(userId, {
+      unreadOnly,
+      limit: query.limit,
+      after: cursor?.after,
+    });
+
+    res.json({
+      notifications,
+      unreadCount,
+      nextCursor: next ? encodeCursor({ unreadOnly, after: next }) : null,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid query', errors: error.errors });
+    }
+    console.error('Error fetching notifications:', error);
+    res.status(500).json({ message: 'Failed to fetch notifications' });
+  }
+});
+
+// Badge count for the header
+router.get('/unread-count', async (req: any, res) => {
+  try {
+    res.json({ unreadCount: await storage.countUnreadNotifications(req.user.id) });
+  } catch (error) {
+    console.error('Error counting notifications:', error);
+    res.status(500).json({ message: 'Failed to count notifications' });
+  }
+});
+
+// Mark the listed notifications read, or all of them when no ids are given
+router.post('/read', async (req: any, res) => {
+  try {
+    const { ids } = markReadSchema.parse(req.body ?? {});
+    res.json(await markNotificationsRead(req.user.id, ids));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid notification ids', errors: error.errors });
+    }
+    console.error('Error marking notifications read:', error);
+    res.status(500).json({ message: 'Failed to mark notifications read' });
+  }
+});
+
+router.get('/preferences', async (req: any, res) => {
+  try {
+    const user = await storage.getUser(req.user.id);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+    res.json(notificationPreferences(user));
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    res.status(500).json({ message: 'Failed to fetch notification preferences' });
+  }
+});
+
+// Turn individual notification types on or off; omitted types keep their setting
+router.put('/preferences', async (req: any, res) => {
+  try {
+    const changes = preferencesSchema.parse(req.body);
+    res.json(await updateNotificationPreferences(req.user.id, changes));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: 'Invalid notification preferences', errors: error.errors });
+    }
+    console.error('Error updating notification preferences:', error);
+    res.status(500).json({ message: 'Failed to update notification preferences' });
+  }
+});
+
+export default router;
@@ -0,0 +1,157 @@
+import { EventEmitter } from 'events';
+import { storage, type NotificationEvent } from './storage';
+import type { PagePosition } from './pagination';
+import {
+  notificationTypes,
+  type Comment,
+  type Notification,
+  type NotificationPreferences,
+  type NotificationTargetType,
+  type NotificationType,
+  type User,
+} from '@shared/schema';
+
+// Actors named in a message before it switches to "12 people"
+const NAMED_ACTORS = 2;
+
+export interface NotificationActor {
+  id: number;
+  username: string;
+  avatar: string | null;
+}
+
+export type NotificationView = Omit<Notification, 'actorIds'> & {
+  actors: NotificationActor[];
+  message: string;
+  read: boolean;
+};
+
+export interface NotificationDelivery {
+  userId: number;
+  notification: NotificationView;
+  unreadCount: number;
+}
+
+// Emits 'notification' with a NotificationDelivery whenever a notification is created or grows,
+// and 'read' with { userId, unreadCount } when some are marked read
+export const notificationNotifier = new EventEmitter();
+
+// Every type with the user's choice filled in; types they never touched are on
+export function notificationPreferences(user: Pick<User, 'notificationPreferences'>): Record<NotificationType, boolean> {
+  return Object.fromEntries(notificationTypes.map(type => [type, user.notificationPreferences?.[type] !== false])) as
+    Record<NotificationType, boolean>;
+}
+
+export async function updateNotificationPreferences(userId: number, changes: NotificationPreferences) {
+  const user = await storage.getUser(userId);
+  if (!user) throw new Error(`User with id ${userId} not found`);
+
+  const updated = await storage.updateUser(userId, {
+    notificationPreferences: { ...user.notificationPreferences, ...changes },
+  });
+  return notificationPreferences(updated);
+}
+
+const targetNames: Record<NotificationTargetType, string> = {
+  meme: 'meme',
+  comment: 'comment',
+  resource: 'resource',
+  user: 'profile',
+};
+
+function actionText(type: NotificationType, targetType: NotificationTargetType): string {
+  switch (type) {
+    case 'comment':
+      return 'commented on your meme';
+    case 'reply':
+      return 'replied to your comment';
+    case 'upvote':
+      return `upvoted your ${targetNames[targetType]}`;
+    case 'follow':
+      return 'started following you';
+  }
+}
+
+// "alice upvoted your meme", "alice and bob upvoted your meme", "12 people upvoted your meme"
+function describe(notification: Pick<Notification, 'type' | 'targetType' | 'actorCount'>, actors: NotificationActor[]): string {
+  const count = notification.actorCount;
+  const who = count > NAMED_ACTORS || actors.length < count
+    ? `${count} ${count === 1 ? 'person' : 'people'}`
+    : actors.map(actor => actor.username).join(' and ');
+  return `${who} ${actionText(notification.type, notification.targetType)}`;
+}
+
+// Resolve actor names for API responses and socket events
+export async function describeNotifications(notifications: Notification[]): Promise<NotificationView[]> {
+  const actorIds = new Set(notifications.flatMap(notification => notification.actorIds.slice(0, NAMED_ACTORS)));
+  const users = await Promise.all(Array.from(actorIds, id => storage.getUser(id)));
+  const actorsById = new Map(users
+    .filter((user): user is User => user !== undefined)
+    .map(user => [user.id, { id: user.id, username: user.username, avatar: user.avatar }]));
+
+  return notifications.map(({ actorIds: ids, ...notification }) => {
+    const actors = ids.slice(0, NAMED_ACTORS)
+      .map(id => actorsById.get(id))
+      .filter((actor): actor is NotificationActor => actor !== undefined);
+    return {
+      ...notification,
+      actors,
+      message: describe(notification, actors),
+      read: notification.readAt !== null,
+    };
+  });
+}
+
+// Record and deliver a notification, unless it is about the user's own action or they turned the type off
+export async function notify(event: NotificationEvent): Promise<NotificationView | undefined> {
+  if (event.actorId === event.userId) return undefined;
+
+  const recipient = await storage.getUser(event.userId);
+  if (!recipient || !notificationPreferences(recipient)[event.type]) return undefined;
+
+  const [notification] = await describeNotifications([await storage.addNotification(event)]);
+  const unreadCount = await storage.countUnreadNotifications(event.userId);
+  const delivery: NotificationDelivery = { userId: event.userId, notification, unreadCount };
+  notificationNotifier.emit('notification', delivery);
+  return notification;
+}
+
+// Fire-and-forget variant for request handlers - a failed notification never fails the request
+export function notifyInBackground(event: NotificationEvent) {
+  notify(event).catch((error) => {
+    console.error(`Failed to notify user ${event.userId} (${event.type}):`, error);
+  });
+}
+
+// A reply notifies the parent's author; the meme's author hears about every other comment
+export async function notifyNewComment(comment: Comment) {
+  if (!comment.authorId || !comment.memeId) return;
+
+  const parent = comment.parentId ? await storage.getComment(comment.parentId) : undefined;
+  if (parent?.authorId) {
+    await notify({ userId: parent.authorId, type: 'reply', targetType: 'comment', targetId: parent.id, actorId: comment.authorId });
+  }
+
+  const meme = await storage.getMeme(comment.memeId);
+  if (meme?.authorId && meme.authorId !== parent?.authorId) {
+    await notify({ userId: meme.authorId, type: 'comment', targetType: 'meme', targetId: meme.id, actorId: comment.authorId });
+  }
+}
+
+export async function listNotifications(userId: number, options: { unreadOnly: boolean; limit: number; after?: PagePosition }) {
+  const [page, unreadCount] = await Promise.all([
+    storage.getNotifications(userId, options),
+    storage.countUnreadNotifications(userId),
+  ]);
+  return { notifications: await describeNotifications(page.items), unreadCount, next: page.next };
+}
+
+// Mark the given notifications, or all of them, read
+export async function markNotificationsRead(userId: number, ids?: number[]) {
+  const updated = await storage.markNotificationsRead(userId, ids);
+  const unreadCount = await storage.countUnreadNotifications(userId);
+  if (updated > 0) {
+    notificationNotifier.emit('read', { userId, unreadCount });
+  }
+  return { updated, unreadCount };
+}
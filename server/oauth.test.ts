@@ -0,0 +1,288 @@
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import bcrypt from 'bcryptjs';
+
+const APP_URL = 'http://app.test';
+
+// Stands in for Google and GitHub, under /google and /github. Authorizing sends the browser straight
+// back with a code; the token and profile calls answer with whatever the test set up.
+class MockProvider {
+  // Google's userinfo response
+  google: object = {};
+  // GitHub's /user and /user/emails responses
+  github: object = {};
+  githubEmails: object[] = [];
+  private server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const send = (body: object) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/google/authorize' || url.pathname === '/github/login/oauth/authorize') {
+      const callback = new URL(url.searchParams.get('redirect_uri') ?? '');
+      callback.searchParams.set('code', 'code');
+      callback.searchParams.set('state', url.searchParams.get('state') ?? '');
+      return res.writeHead(302, { Location: callback.toString() }).end();
+    }
+    if (url.pathname === '/google/token' || url.pathname === '/github/login/oauth/access_token') {
+      return send({ access_token: 'token', token_type: 'bearer' });
+    }
+    if (url.pathname === '/google/userinfo') return send(this.google);
+    if (url.pathname === '/github/user') return send(this.github);
+    if (url.pathname === '/github/user/emails') return send(this.githubEmails);
+
+    res.writeHead(404).end();
+  });
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+const provider = new MockProvider();
+let providerUrl: string;
+let app: http.Server;
+let appBase: string;
+
+// Strategies and storage are picked from the environment when first imported
+let storage: typeof import('./storage').storage;
+let oauth: typeof import('./oauth');
+
+let sequence = 0;
+const name = () => `oauth${++sequence}`;
+
+// Keeps the session cookie and follows redirects between the app and the provider
+class Browser {
+  private cookie?: string;
+
+  // Where the browser lands in the app's frontend, e.g. "/login?error=..."
+  async visit(path: string): Promise<string> {
+    let url = appBase + path;
+    for (let hop = 0; hop < 10; hop++) {
+      const res = await fetch(url, { redirect: 'manual', headers: this.headers() });
+      this.keepCookie(res);
+      const location = res.headers.get('location');
+      if (!location) throw new Error(`${url} answered ${res.status} without a redirect`);
+
+      url = new URL(location, url).toString();
+      if (url.startsWith(`${APP_URL}/api/`)) {
+        url = appBase + url.slice(APP_URL.length);
+      } else if (!url.startsWith(providerUrl)) {
+        return decodeURIComponent(url.slice(APP_URL.length)).replace(/\+/g, ' ');
+      }
+    }
+    throw new Error('Too many redirects');
+  }
+
+  async login(username: string, password: string) {
+    const res = await fetch(`${appBase}/api/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username, password }),
+    });
+    assert.equal(res.status, 200);
+    this.keepCookie(res);
+  }
+
+  async userId(): Promise<number | undefined> {
+    const res = await fetch(`${appBase}/api/auth/user`, { headers: this.headers() });
+    return res.ok ? (await res.json()).id : undefined;
+  }
+
+  private headers(): Record<string, string> {
+    return this.cookie ? { Cookie: this.cookie } : {};
+  }
+
+  private keepCookie(res: Response) {
+    const cookie = res.headers.getSetCookie()[0];
+    if (cookie) this.cookie = cookie.split(';')[0];
+  }
+}
+
+async function localUser(emailVerified: boolean) {
+  const username = name();
+  return storage.createUser({
+    username,
+    email: `${username}@example.test`,
+    password: await bcrypt.hash('Passw0rd!', 4),
+    emailVerified,
+  });
+}
+
+function googleAccount(email: string, verified = true) {
+  provider.google = { sub: name(), name: 'Google User', email, email_verified: verified };
+}
+
+function githubAccount(id: number, emails: Array<{ email: string; verified: boolean; primary?: boolean }>) {
+  provider.github = { id, login: `gh${id}`, name: 'GitHub User' };
+  provider.githubEmails = emails.map(email => ({ primary: false, ...email }));
+}
+
+describe('OAuth login against a mock provider', () => {
+  before(async () => {
+    providerUrl = await provider.start();
+    Object.assign(process.env, {
+      STORAGE_BACKEND: 'memory',
+      APP_URL,
+      GOOGLE_CLIENT_ID: 'google-client',
+      GOOGLE_CLIENT_SECRET: 'google-secret',
+      GOOGLE_OAUTH_URL: `${providerUrl}/google`,
+      GITHUB_CLIENT_ID: 'github-client',
+      GITHUB_CLIENT_SECRET: 'github-secret',
+      GITHUB_OAUTH_URL: `${providerUrl}/github`,
+    });
+    const { default: express } = await import('express');
+    const { registerRoutes } = await import('./routes');
+    ({ storage } = await import('./storage'));
+    oauth = await import('./oauth');
+
+    const server = express();
+    server.use(express.json());
+    app = await registerRoutes(server);
+    await new Promise<void>(resolve => app.listen(0, '127.0.0.1', resolve));
+    appBase = `http://127.0.0.1:${(app.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    app.closeAllConnections();
+    await new Promise(resolve => app.close(resolve));
+    await provider.stop();
+  });
+
+  beforeEach(() => {
+    provider.google = {};
+    provider.github = {};
+    provider.githubEmails = [];
+  });
+
+  it('creates an account for a verified email and logs back into it', async () => {
+    const email = `${name()}@example.test`;
+    googleAccount(email);
+
+    const browser = new Browser();
+    assert.equal(await browser.visit('/api/auth/oauth/google'), '/');
+    const user = await storage.getUserByEmail(email);
+    assert.equal(user?.emailVerified, true);
+    assert.equal(user?.password, null);
+    assert.equal(await browser.userId(), user?.id);
+
+    const again = new Browser();
+    await again.visit('/api/auth/oauth/google');
+    assert.equal(await again.userId(), user?.id);
+  });
+
+  it('merges into an unverified account, dropping its password and sessions', async () => {
+    const user = await localUser(false);
+    const squatter = new Browser();
+    await squatter.login(user.username, 'Passw0rd!');
+    githubAccount(101, [
+      { email: 'someone-else@example.test', verified: true },
+      { email: user.email, verified: true, primary: true },
+    ]);
+
+    const owner = new Browser();
+    assert.equal(await owner.visit('/api/auth/oauth/github'), '/');
+    assert.equal(await owner.userId(), user.id);
+
+    const merged = await storage.getUser(user.id);
+    assert.equal(merged?.emailVerified, true);
+    assert.equal(merged?.password, null);
+    assert.equal(merged?.sessionVersion, user.sessionVersion + 1);
+    assert.equal(await squatter.userId(), undefined);
+  });
+
+  it('keeps the password of a verified account it merges into', async () => {
+    const user = await localUser(true);
+    googleAccount(user.email);
+
+    const browser = new Browser();
+    await browser.visit('/api/auth/oauth/google');
+    assert.equal(await browser.userId(), user.id);
+    assert.equal((await storage.getUser(user.id))?.password, user.password);
+    await new Browser().login(user.username, 'Passw0rd!');
+  });
+
+  it('merges into the account whatever the case of the reported address', async () => {
+    const user = await localUser(true);
+    googleAccount(user.email.replace(/^./, letter => letter.toUpperCase()).replace('example.test', 'Example.TEST'));
+
+    const browser = new Browser();
+    assert.equal(await browser.visit('/api/auth/oauth/google'), '/');
+    assert.equal(await browser.userId(), user.id);
+    const [identity] = await storage.getUserIdentities(user.id);
+    assert.equal(identity?.email, user.email);
+  });
+
+  it('refuses addresses the provider has not verified', async () => {
+    const user = await localUser(true);
+    googleAccount(user.email, false);
+    assert.equal(await new Browser().visit('/api/auth/oauth/google'), '/login?error=Your Google account has no verified email address');
+
+    githubAccount(102, [{ email: `${name()}@example.test`, verified: false, primary: true }]);
+    assert.equal(await new Browser().visit('/api/auth/oauth/github'), '/login?error=Your GitHub account has no verified email address');
+    assert.deepEqual(await storage.getUserIdentities(user.id), []);
+  });
+
+  it('refuses a second account of a provider already linked under that email', async () => {
+    const user = await localUser(true);
+    githubAccount(103, [{ email: user.email, verified: true, primary: true }]);
+    await new Browser().visit('/api/auth/oauth/github');
+
+    githubAccount(104, [{ email: user.email, verified: true, primary: true }]);
+    assert.equal(
+      await new Browser().visit('/api/auth/oauth/github'),
+      '/login?error=An account with this email is already linked to a different GitHub account',
+    );
+  });
+
+  it('links a provider to the logged-in account and logs in through it', async () => {
+    const user = await localUser(true);
+    const browser = new Browser();
+    await browser.login(user.username, 'Passw0rd!');
+    // The provider's address plays no part in linking
+    githubAccount(105, [{ email: `${name()}@example.test`, verified: true, primary: true }]);
+
+    assert.equal(await browser.visit('/api/auth/oauth/github/link'), '/profile?linked=github');
+    assert.equal(await browser.userId(), user.id);
+    const [identity] = await storage.getUserIdentities(user.id);
+    assert.deepEqual([identity?.provider, identity?.providerId], ['github', '105']);
+
+    const other = new Browser();
+    assert.equal(await other.visit('/api/auth/oauth/github'), '/');
+    assert.equal(await other.userId(), user.id);
+  });
+
+  it('refuses to link a provider account that belongs to another user', async () => {
+    const owner = await localUser(true);
+    githubAccount(106, [{ email: owner.email, verified: true, primary: true }]);
+    await new Browser().visit('/api/auth/oauth/github');
+
+    const user = await localUser(true);
+    const browser = new Browser();
+    await browser.login(user.username, 'Passw0rd!');
+    assert.equal(await browser.visit('/api/auth/oauth/github/link'), '/profile?error=This GitHub account is already linked to another user');
+    assert.deepEqual(await storage.getUserIdentities(user.id), []);
+  });
+
+  it('reports a link lost to a concurrent login as a conflict', async () => {
+    const [user, other] = [await localUser(true), await localUser(true)];
+    const profile = oauth.githubProfile({ id: '107', displayName: 'GitHub User', emails: [] });
+    await storage.linkUserIdentity({ userId: other.id, provider: 'github', providerId: '107' });
+    // As if the other link landed between the checks and the insert
+    const lookup = mock.method(storage, 'getUserIdentity', async () => undefined);
+
+    try {
+      await assert.rejects(oauth.linkOAuthIdentity(user, profile), { name: 'OAuthError', status: 409 });
+    } finally {
+      lookup.mock.restore();
+    }
+    assert.deepEqual(await storage.getUserIdentities(user.id), []);
+  });
+});
@@ -0,0 +1,209 @@
+import { storage } from './storage';
+import { realtime } from './realtime';
+import { appUrl } from './emailTemplates';
+import { oauthProviders, type OAuthProvider, type User, type UserIdentity } from '@shared/schema';
+
+// What the login flow needs from a provider's profile
+export interface OAuthProfile {
+  provider: OAuthProvider;
+  providerId: string;
+  // Only set when the provider vouches that the address belongs to the account; lowercased like local signups
+  email?: string;
+  username?: string;
+  displayName?: string;
+  avatar?: string;
+}
+
+// The parts of a passport profile the login flow reads. Both strategies put a `verified` flag on each
+// address (a string in older Google responses); GitHub adds `primary` when asked for all raw emails.
+export interface ProviderProfile {
+  id: string;
+  displayName: string;
+  username?: string;
+  emails?: Array<{ value: string; verified?: boolean | string; primary?: boolean }>;
+  photos?: Array<{ value: string }>;
+}
+
+export interface OAuthEndpoints {
+  authorizationURL?: string;
+  tokenURL?: string;
+  userProfileURL?: string;
+  userEmailURL?: string;
+}
+
+export class OAuthError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+export const providerNames: Record<OAuthProvider, string> = {
+  google: 'Google',
+  github: 'GitHub',
+};
+
+export function isOAuthProvider(value: string): value is OAuthProvider {
+  return (oauthProviders as readonly string[]).includes(value);
+}
+
+export function oauthCallbackUrl(provider: OAuthProvider): string {
+  return appUrl(`/api/auth/oauth/${provider}/callback`);
+}
+
+// GOOGLE_OAUTH_URL and GITHUB_OAUTH_URL send every request for that provider to one host, e.g. a
+// local mock server. The mock serves /authorize, /token and /userinfo for Google, and GitHub's own
+// paths: /login/oauth/authorize, /login/oauth/access_token, /user and /user/emails.
+export function oauthEndpoints(provider: OAuthProvider): OAuthEndpoints {
+  const base = process.env[provider === 'google' ? 'GOOGLE_OAUTH_URL' : 'GITHUB_OAUTH_URL']?.replace(/\/$/, '');
+  if (!base) return {};
+
+  return provider === 'google'
+    ? { authorizationURL: `${base}/authorize`, tokenURL: `${base}/token`, userProfileURL: `${base}/userinfo` }
+    : {
+        authorizationURL: `${base}/login/oauth/authorize`,
+        tokenURL: `${base}/login/oauth/access_token`,
+        userProfileURL: `${base}/user`,
+        userEmailURL: `${base}/user/emails`,
+      };
+}
+
+// Google reports one address and whether it is verified
+export function googleProfile(profile: ProviderProfile): OAuthProfile {
+  const email = profile.emails?.find(entry => entry.verified === true || entry.verified === 'true')?.value.toLowerCase();
+  return {
+    provider: 'google',
+    providerId: String(profile.id),
+    email,
+    username: email?.split('@')[0] ?? profile.displayName,
+    displayName: profile.displayName,
+    avatar: profile.photos?.[0]?.value,
+  };
+}
+
+// GitHub lists every address on the account; prefer the primary one if it is verified
+export function githubProfile(profile: ProviderProfile): OAuthProfile {
+  const verified = (profile.emails ?? []).filter(entry => entry.verified === true);
+  const email = (verified.find(entry => entry.primary) ?? verified[0])?.value.toLowerCase();
+  return {
+    provider: 'github',
+    providerId: String(profile.id),
+    email,
+    username: profile.username,
+    displayName: profile.displayName || profile.username,
+    avatar: profile.photos?.[0]?.value,
+  };
+}
+
+// Public view of a linked account
+export function linkedIdentity(identity: UserIdentity) {
+  return {
+    provider: identity.provider,
+    email: identity.email,
+    linkedAt: identity.createdAt,
+  };
+}
+
+// The checks before this can race with another login or link for the same account; the
+// unique indexes have the final say
+async function linkIdentity(userId: number, profile: OAuthProfile): Promise<void> {
+  const identity = await storage.linkUserIdentity({ userId, provider: profile.provider, providerId: profile.providerId, email: profile.email });
+  if (!identity) {
+    throw new OAuthError(`This ${providerNames[profile.provider]} account was just linked elsewhere - please try again`, 409);
+  }
+}
+
+async function availableUsername(hint: string | undefined): Promise<string> {
+  const stem = (hint ?? '').replace(/[^A-Za-z0-9_]+/g, '').slice(0, 24) || 'user';
+  for (let suffix = 0; ; suffix++) {
+    const candidate = suffix ? `${stem}${suffix}` : stem;
+    if (!(await storage.getUserByUsername(candidate))) return candidate;
+  }
+}
+
+// An existing account with the same email logging in through a provider for the first time
+async function mergeIntoAccount(user: User, profile: OAuthProfile): Promise<User> {
+  const name = providerNames[profile.provider];
+  const identities = await storage.getUserIdentities(user.id);
+  if (identities.some(identity => identity.provider === profile.provider)) {
+    throw new OAuthError(`An account with this email is already linked to a different ${name} account`, 409);
+  }
+
+  // The provider just proved who owns the address. If the local account never did, its password may
+  // have been set by someone squatting on the address, so it goes - along with every session - and the
+  // owner can set a new one through password reset.
+  let merged = user;
+  if (!user.emailVerified) {
+    merged = await storage.updateUser(user.id, {
+      emailVerified: true,
+      password: null,
+      sessionVersion: user.sessionVersion + 1,
+    });
+    realtime.disconnectUser(user.id);
+  }
+
+  await linkIdentity(user.id, profile);
+  return merged;
+}
+
+// Log in through a provider: the linked account, else the account with the same verified email,
+// else a new account
+export async function loginWithOAuth(profile: OAuthProfile): Promise<User> {
+  const identity = await storage.getUserIdentity(profile.provider, profile.providerId);
+  const linked = identity && await storage.getUser(identity.userId);
+  if (linked) return linked;
+
+  if (!profile.email) {
+    throw new OAuthError(`Your ${providerNames[profile.provider]} account has no verified email address`);
+  }
+
+  const existing = await storage.getUserByEmail(profile.email);
+  if (existing) {
+    return mergeIntoAccount(existing, profile);
+  }
+
+  const user = await storage.createUser({
+    username: await availableUsername(profile.username),
+    email: profile.email,
+    password: null,
+    displayName: profile.displayName || null,
+    avatar: profile.avatar || null,
+    provider: profile.provider,
+    providerId: profile.providerId,
+    refreshToken: null,
+    emailVerified: true,
+  });
+  await linkIdentity(user.id, profile);
+  return user;
+}
+
+// Add a provider to a logged-in user's account from their profile page
+export async function linkOAuthIdentity(user: User, profile: OAuthProfile): Promise<User> {
+  const name = providerNames[profile.provider];
+  const identity = await storage.getUserIdentity(profile.provider, profile.providerId);
+  if (identity) {
+    if (identity.userId === user.id) return user;
+    throw new OAuthError(`This ${name} account is already linked to another user`, 409);
+  }
+
+  const identities = await storage.getUserIdentities(user.id);
+  if (identities.some(existing => existing.provider === profile.provider)) {
+    throw new OAuthError(`You already have a ${name} account linked - unlink it first`, 409);
+  }
+
+  await linkIdentity(user.id, profile);
+  return user;
+}
+
+// Remove a provider, as long as the user is left with some way to log in
+export async function unlinkOAuthIdentity(user: User, provider: OAuthProvider): Promise<void> {
+  const identities = await storage.getUserIdentities(user.id);
+  if (!identities.some(identity => identity.provider === provider)) {
+    throw new OAuthError(`No ${providerNames[provider]} account is linked`, 404);
+  }
+  if (!user.password && identities.length === 1) {
+    throw new OAuthError('Set a password or link another account before unlinking this one');
+  }
+
+  await storage.unlinkUserIdentity(user.id, provider);
+}
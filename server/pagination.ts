@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+// Largest page any cursor-paginated list will return
+export const MAX_PAGE_SIZE = 50;
+
+export function pageLimitSchema(defaultLimit: number) {
+  return z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(defaultLimit);
+}
+
+// Keyset position: a page resumes after the item with this sort value and id
+export interface PagePosition {
+  score: number;
+  id: number;
+}
+
+export const pagePositionSchema = z.object({
+  score: z.number().finite(),
+  id: z.number().int(),
+});
+
+// One page of items plus where the next one starts, or null on the last page
+export interface Page<T> {
+  items: T[];
+  next: PagePosition | null;
+}
+
+// Storage fetches one row more than asked for, so a full page knows whether anything follows
+export function toPage<T>(rows: T[], limit: number, positionOf: (item: T) => PagePosition): Page<T> {
+  const items = rows.slice(0, limit);
+  return {
+    items,
+    next: rows.length > limit && items.length > 0 ? positionOf(items[items.length - 1]) : null,
+  };
+}
+
+// Sorted descending by (score, id): true for items that come after `after`
+export function isAfter(position: PagePosition, after: PagePosition | undefined): boolean {
+  return !after || position.score < after.score || (position.score === after.score && position.id < after.id);
+}
+
+// Cursors are opaque to clients; the payload is validated again when it comes back
+export function encodeCursor(payload: unknown): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor<T>(token: string, schema: z.ZodType<T>): T | undefined {
+  try {
+    const parsed = schema.safeParse(JSON.parse(Buffer.from(token, 'base64url').toString('utf8')));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
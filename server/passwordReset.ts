@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { storage } from './storage';
+import { mailer } from './mailer';
+import { realtime } from './realtime';
+import { appUrl, passwordResetEmail } from './emailTemplates';
+import type { User } from '@shared/schema';
+
+// Minutes a reset link stays valid
+const RESET_TOKEN_TTL = 60;
+// Minutes before another link is mailed while the last one is still unused
+const RESET_RESEND_INTERVAL = 5;
+
+export class PasswordResetError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PasswordResetError';
+  }
+}
+
+// Only the hash is stored, so a leaked table can't be used to reset anyone's password
+export function hashResetToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function resetUrl(token: string): string {
+  return appUrl(`/reset-password?${new URLSearchParams({ token })}`);
+}
+
+// Mail a reset link if the address belongs to an account and wasn't sent one in the last few
+// minutes. Callers must not tell the requester whether it did - see POST /api/auth/forgot-password.
+export async function sendPasswordReset(email: string): Promise<boolean> {
+  const user = await storage.getUserByEmail(email);
+  if (!user?.email) return false;
+
+  // Keeps anyone who knows the address from flooding its inbox
+  const recent = await storage.countAuthTokensSince(user.id, 'password_reset', new Date(Date.now() - RESET_RESEND_INTERVAL * 60 * 1000));
+  if (recent > 0) return false;
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  await storage.createAuthToken({
+    userId: user.id,
+    purpose: 'password_reset',
+    tokenHash: hashResetToken(token),
+    expiresAt: new Date(Date.now() + RESET_TOKEN_TTL * 60 * 1000),
+  });
+
+  await mailer.send({
+    to: user.email,
+    ...passwordResetEmail({ username: user.username, resetUrl: resetUrl(token), expiresIn: RESET_TOKEN_TTL }),
+  });
+  return true;
+}
+
+// Set a new password from a reset link. The token is spent even if something fails
+// afterwards, and every session and JWT issued before the reset stops working.
+export async function resetPassword(token: string, password: string): Promise<User> {
+  const authToken = await storage.consumeAuthToken('password_reset', hashResetToken(token));
+  const user = authToken && await storage.getUser(authToken.userId);
+  if (!user) {
+    throw new PasswordResetError('This reset link is invalid or has expired');
+  }
+
+  const updated = await storage.updateUser(user.id, {
+    password: await bcrypt.hash(password, 10),
+    sessionVersion: user.sessionVersion + 1,
+  });
+  // Other links mailed before this one must not be usable to change it again
+  await storage.revokeAuthTokens(user.id, 'password_reset');
+  realtime.disconnectUser(user.id);
+  return updated;
+}
@@ -0,0 +1,63 @@
+import { storage } from './storage';
+import { levelProgress } from './xp';
+import { leaderboardPeriods, periodStart, type LeaderboardPeriod } from './leaderboard';
+import { withTags } from './tags';
+import type { GameLeaderboardEntry, User } from '@shared/schema';
+
+// Memes and comments shown on a profile
+const RECENT_ITEMS = 5;
+
+// Fields anyone may see - never email, password, provider ids or tokens
+export function publicUser(user: User) {
+  return {
+    id: user.id,
+    username: user.username,
+    displayName: user.displayName,
+    avatar: user.avatar,
+    role: user.role,
+    joinedAt: user.createdAt,
+  };
+}
+
+function gameBest(entry: GameLeaderboardEntry | undefined) {
+  return entry
+    ? { rank: entry.rank, score: entry.score, sanityLeft: entry.sanityLeft, endedAt: entry.endedAt }
+    : null;
+}
+
+// Public profile for GET /api/users/:username, or undefined if there is no such user.
+// `viewerId` is the signed-in caller, if any, for `isFollowing`.
+export async function getUserProfile(username: string, viewerId?: number) {
+  const user = await storage.getUserByUsername(username);
+  if (!user) return undefined;
+
+  const [karma, follows, isFollowing, memes, comments, bests] = await Promise.all([
+    storage.getUserKarma(user.id),
+    storage.getFollowCounts(user.id),
+    viewerId !== undefined && viewerId !== user.id ? storage.isFollowing(viewerId, user.id) : false,
+    storage.getMemesByUser(user.id, RECENT_ITEMS),
+    storage.getCommentsByUser(user.id, RECENT_ITEMS),
+    Promise.all(leaderboardPeriods.map(period =>
+      storage.getGameLeaderboardEntry(user.id, { since: periodStart(period) }))),
+  ]);
+
+  return {
+    ...publicUser(user),
+    ...levelProgress(user.xp ?? 0),
+    karma: {
+      memes: karma.memeKarma,
+      comments: karma.commentKarma,
+      total: karma.memeKarma + karma.commentKarma,
+    },
+    memeCount: karma.memeCount,
+    commentCount: karma.commentCount,
+    followers: follows.followers,
+    following: follows.following,
+    isFollowing,
+    recentMemes: await withTags(memes.items),
+    recentComments: comments,
+    // Best finished game per leaderboard period, with its rank on that board
+    gameBests: Object.fromEntries(leaderboardPeriods.map((period, index) => [period, gameBest(bests[index])])) as
+      Record<LeaderboardPeriod, ReturnType<typeof gameBest>>,
+  };
+}
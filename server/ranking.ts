@@ -0,0 +1,85 @@
+import type { Meme } from '@shared/schema';
+
+// Feed and comment ranking. Scores that only change when votes do are stored on the
+// row and refreshed on each vote; only `rising` depends on the current time.
+
+export const memeSortModes = ['hot', 'new', 'top', 'rising'] as const;
+export type MemeSort = typeof memeSortModes[number];
+
+export const topWindows = ['hour', 'day', 'week', 'month', 'all'] as const;
+export type TopWindow = typeof topWindows[number];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const topWindowMs: Record<Exclude<TopWindow, 'all'>, number> = {
+  hour: HOUR_MS,
+  day: 24 * HOUR_MS,
+  week: 7 * 24 * HOUR_MS,
+  month: 30 * 24 * HOUR_MS,
+};
+
+// Every 12.5 hours of age costs as much as a tenfold difference in votes
+export const HOT_GRAVITY_SECONDS = 45000;
+// Fixed reference point so hot scores stay small; any date works as long as it never changes
+const HOT_EPOCH_SECONDS = Date.UTC(2024, 0, 1) / 1000;
+
+// Only memes this young can be rising
+export const RISING_WINDOW_HOURS = 24;
+export const RISING_GRAVITY = 1.5;
+
+// z for an 80% confidence interval
+const WILSON_Z = 1.281551565545;
+
+function netVotes(upvotes: number | null, downvotes: number | null): number {
+  return (upvotes ?? 0) - (downvotes ?? 0);
+}
+
+// Log-scaled net votes plus a bonus for recency. Because the bonus grows linearly with the
+// posting time, ordering by this value never changes as time passes, so it can be stored.
+export function hotScore(upvotes: number | null, downvotes: number | null, createdAt: Date | null): number {
+  const net = netVotes(upvotes, downvotes);
+  const order = Math.log10(Math.max(Math.abs(net), 1));
+  const seconds = (createdAt ? new Date(createdAt).getTime() / 1000 : HOT_EPOCH_SECONDS) - HOT_EPOCH_SECONDS;
+  return Math.sign(net) * order + seconds / HOT_GRAVITY_SECONDS;
+}
+
+// Lower bound of the Wilson score interval for the share of upvotes, so a comment at
+// 10 up / 1 down outranks one at 1 up / 0 down
+export function wilsonScore(upvotes: number | null, downvotes: number | null): number {
+  const up = upvotes ?? 0;
+  const total = up + (downvotes ?? 0);
+  if (total === 0) return 0;
+
+  const z2 = WILSON_Z * WILSON_Z;
+  const p = up / total;
+  return (p + z2 / (2 * total) - WILSON_Z * Math.sqrt((p * (1 - p) + z2 / (4 * total)) / total)) / (1 + z2 / total);
+}
+
+// Net votes per hour of age, damped so a single early vote doesn't dominate.
+// DatabaseStorage mirrors this formula in SQL.
+export function risingScore(upvotes: number | null, downvotes: number | null, createdAt: Date | null, now: Date = new Date()): number {
+  const ageHours = createdAt ? Math.max(0, now.getTime() - new Date(createdAt).getTime()) / HOUR_MS : RISING_WINDOW_HOURS;
+  return netVotes(upvotes, downvotes) / Math.pow(ageHours + 2, RISING_GRAVITY);
+}
+
+// Earliest creation time included by a `top` window or `rising`, or undefined for all time
+export function rankingCutoff(sort: MemeSort, window: TopWindow, now: Date = new Date()): Date | undefined {
+  if (sort === 'rising') return new Date(now.getTime() - RISING_WINDOW_HOURS * HOUR_MS);
+  if (sort === 'top' && window !== 'all') return new Date(now.getTime() - topWindowMs[window]);
+  return undefined;
+}
+
+// Value a feed is ordered by, highest first; pages resume after the last item's value.
+// DatabaseStorage computes the same values in SQL.
+export function feedScore(meme: Meme, sort: MemeSort, now: Date): number {
+  switch (sort) {
+    case 'new':
+      return meme.id;
+    case 'top':
+      return netVotes(meme.upvotes, meme.downvotes);
+    case 'rising':
+      return risingScore(meme.upvotes, meme.downvotes, meme.createdAt, now);
+    case 'hot':
+      return meme.hotScore;
+  }
+}
@@ -0,0 +1,228 @@
+import type { IncomingMessage, Server } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import { userFromToken } from './auth';
+import { storage } from './storage';
+import {
+  channelOwner,
+  clientMessageSchema,
+  userChannel,
+  type Channel,
+  type ServerMessage,
+} from '@shared/realtime';
+
+// Connections that miss a heartbeat round are considered dead and dropped
+const HEARTBEAT_INTERVAL = 30 * 1000;
+
+interface Connection {
+  socket: WebSocket;
+  userId: number | null;
+  channels: Set<Channel>;
+  alive: boolean;
+}
+
+export class RealtimeHub {
+  private wss?: WebSocketServer;
+  private heartbeat?: NodeJS.Timeout;
+  private connections = new Set<Connection>();
+  private subscribers = new Map<Channel, Set<Connection>>();
+
+  attach(server: Server, path: string = '/ws') {
+    this.wss = new WebSocketServer({ server, path });
+
+    this.wss.on('connection', (socket, request) => this.onConnection(socket, request));
+
+    this.heartbeat = setInterval(() => this.checkHeartbeats(), HEARTBEAT_INTERVAL);
+    this.heartbeat.unref();
+    this.wss.on('close', () => {
+      clearInterval(this.heartbeat);
+      console.log('WebSocket server closed');
+    });
+  }
+
+  // Send an event to every connection subscribed to the channel
+  publish(channel: Channel, event: string, data: unknown) {
+    const subscribers = this.subscribers.get(channel);
+    if (!subscribers) return;
+
+    const message: ServerMessage = { type: 'event', channel, event, data };
+    const payload = JSON.stringify(message);
+    subscribers.forEach((connection) => {
+      if (connection.socket.readyState === WebSocket.OPEN) {
+        connection.socket.send(payload);
+      }
+    });
+  }
+
+  hasSubscribers(channel: Channel): boolean {
+    return (this.subscribers.get(channel)?.size ?? 0) > 0;
+  }
+
+  // Drop every connection signed in as the user, e.g. once their password was reset
+  disconnectUser(userId: number) {
+    const connections = Array.from(this.subscribers.get(userChannel(userId)) ?? []);
+    connections.forEach((connection) => {
+      connection.socket.close(4001, 'Session revoked');
+      this.disconnect(connection);
+    });
+  }
+
+  close() {
+    clearInterval(this.heartbeat);
+    this.wss?.close();
+  }
+
+  private async onConnection(socket: WebSocket, request: IncomingMessage) {
+    const connection: Connection = { socket, userId: null, channels: new Set(), alive: true };
+    this.connections.add(connection);
+
+    socket.on('pong', () => {
+      connection.alive = true;
+    });
+
+    socket.on('close', () => this.disconnect(connection));
+
+    socket.on('message', (message) => {
+      this.onMessage(connection, message.toString()).catch((error) => {
+        console.error('Error handling WebSocket message:', error);
+        this.send(connection, { type: 'error', message: 'Failed to handle message' });
+      });
+    });
+
+    // Clients may authenticate up front with ?token= or an Authorization header
+    const token = this.tokenFromRequest(request);
+    if (token) {
+      await this.authenticate(connection, token);
+    }
+
+    this.send(connection, {
+      type: 'welcome',
+      message: 'Connected to Client From Hell websocket server',
+      userId: connection.userId,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  private async onMessage(connection: Connection, raw: string) {
+    let data: any;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      return this.send(connection, { type: 'error', message: 'Invalid message format' });
+    }
+
+    // Older clients attach { auth: { token } } to every message
+    if (data?.auth?.token && !connection.userId) {
+      await this.authenticate(connection, data.auth.token);
+    }
+
+    const parsed = clientMessageSchema.safeParse(data);
+    if (!parsed.success) {
+      return this.send(connection, { type: 'error', message: parsed.error.errors[0]?.message ?? 'Invalid message format' });
+    }
+
+    const message = parsed.data;
+    switch (message.type) {
+      case 'auth':
+        if (!(await this.authenticate(connection, message.token))) {
+          this.send(connection, { type: 'error', message: 'Invalid token' });
+        }
+        break;
+
+      case 'subscribe': {
+        const owner = channelOwner(message.channel);
+        if (owner !== undefined && owner !== connection.userId) {
+          return this.send(connection, { type: 'error', message: `Not allowed to subscribe to ${message.channel}` });
+        }
+        this.subscribe(connection, message.channel);
+        this.send(connection, { type: 'subscribed', channel: message.channel });
+        break;
+      }
+
+      case 'unsubscribe':
+        this.unsubscribe(connection, message.channel);
+        this.send(connection, { type: 'unsubscribed', channel: message.channel });
+        break;
+
+      case 'ping':
+        this.send(connection, { type: 'pong', timestamp: new Date().toISOString() });
+        break;
+
+      case 'get_memes': {
+        const { items } = await storage.getMemes({ sort: 'hot', limit: 10 });
+        this.send(connection, { type: 'memes_list', data: items });
+        break;
+      }
+    }
+  }
+
+  // Verify the JWT and join the user's private channel
+  private async authenticate(connection: Connection, token: string): Promise<boolean> {
+    const user = await userFromToken(token);
+    if (!user) return false;
+
+    if (connection.userId && connection.userId !== user.id) {
+      this.unsubscribe(connection, userChannel(connection.userId));
+    }
+
+    connection.userId = user.id;
+    this.subscribe(connection, userChannel(user.id));
+    this.send(connection, { type: 'authenticated', userId: user.id });
+    return true;
+  }
+
+  private tokenFromRequest(request: IncomingMessage): string | undefined {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const queryToken = url.searchParams.get('token');
+    if (queryToken) return queryToken;
+
+    const authHeader = request.headers.authorization;
+    if (authHeader && authHeader.startsWith('Bearer ')) {
+      return authHeader.substring(7);
+    }
+    return undefined;
+  }
+
+  private subscribe(connection: Connection, channel: Channel) {
+    connection.channels.add(channel);
+    const subscribers = this.subscribers.get(channel) ?? new Set();
+    subscribers.add(connection);
+    this.subscribers.set(channel, subscribers);
+  }
+
+  private unsubscribe(connection: Connection, channel: Channel) {
+    connection.channels.delete(channel);
+    const subscribers = this.subscribers.get(channel);
+    if (!subscribers) return;
+
+    subscribers.delete(connection);
+    if (subscribers.size === 0) {
+      this.subscribers.delete(channel);
+    }
+  }
+
+  private disconnect(connection: Connection) {
+    connection.channels.forEach(channel => this.unsubscribe(connection, channel));
+    this.connections.delete(connection);
+  }
+
+  private checkHeartbeats() {
+    this.connections.forEach((connection) => {
+      if (!connection.alive) {
+        connection.socket.terminate();
+        this.disconnect(connection);
+        return;
+      }
+
+      connection.alive = false;
+      connection.socket.ping();
+    });
+  }
+
+  private send(connection: Connection, message: ServerMessage) {
+    if (connection.socket.readyState === WebSocket.OPEN) {
+      connection.socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+export const realtime = new RealtimeHub();
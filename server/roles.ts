@@ -0,0 +1,105 @@
+import { storage } from './storage';
+import { userRoles, type RoleChange, type User, type UserRole } from '@shared/schema';
+
+export const permissions = [
+  'create_resources',
+  'moderate_content',
+  'manage_tags',
+  'manage_roles',
+  'view_audit_log',
+  'send_newsletter',
+] as const;
+export type Permission = typeof permissions[number];
+
+// Admins can do everything; moderators look after content
+export const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  user: [],
+  moderator: ['create_resources', 'moderate_content', 'manage_tags'],
+  admin: permissions,
+};
+
+export class RoleChangeError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'RoleChangeError';
+  }
+}
+
+function roleOf(user: Pick<User, 'role'> | undefined): UserRole {
+  return user?.role ?? 'user';
+}
+
+// True when the user's role is `role` or ranks above it
+export function hasRole(user: Pick<User, 'role'> | undefined, role: UserRole): boolean {
+  return userRoles.indexOf(roleOf(user)) >= userRoles.indexOf(role);
+}
+
+export function hasPermission(user: Pick<User, 'role'> | undefined, permission: Permission): boolean {
+  return rolePermissions[roleOf(user)].includes(permission);
+}
+
+// Public view of a user for the admin API - never includes credentials
+export function staffMember(user: User) {
+  return {
+    id: user.id,
+    username: user.username,
+    displayName: user.displayName,
+    avatar: user.avatar,
+    role: user.role,
+    createdAt: user.createdAt,
+  };
+}
+
+// Grant `role` to a user (granting 'user' revokes any elevated role) and audit the change
+export async function changeUserRole(
+  actorId: number | null,
+  userId: number,
+  role: UserRole,
+  reason?: string | null,
+): Promise<{ user: User; change: RoleChange }> {
+  if (actorId === userId) {
+    // Keeps the last admin from locking everyone out by accident
+    throw new RoleChangeError('You cannot change your own role', 400);
+  }
+
+  const user = await storage.getUser(userId);
+  if (!user) {
+    throw new RoleChangeError('User not found', 404);
+  }
+  if (user.role === role) {
+    throw new RoleChangeError(`User already has the ${role} role`, 409);
+  }
+
+  const result = await storage.setUserRole(userId, role, { actorId, reason });
+  if (!result) {
+    throw new RoleChangeError('User not found', 404);
+  }
+  return result;
+}
+
+function listedAdminEmails(emails: string): string[] {
+  return emails.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+// Promote the user if ADMIN_EMAILS lists their address, so a fresh install has someone who can grant
+// roles. Only a verified address counts - anyone could register a listed address before its owner does.
+// Called on register, login, OAuth login and email verification, as well as for existing accounts at startup.
+export async function grantListedAdmin(user: User, emails: string = process.env.ADMIN_EMAILS || ''): Promise<User> {
+  if (user.role === 'admin' || !user.emailVerified) return user;
+
+  const email = user.email.toLowerCase();
+  if (!listedAdminEmails(emails).some(entry => entry.toLowerCase() === email)) return user;
+
+  const result = await storage.setUserRole(user.id, 'admin', { actorId: null, reason: 'Listed in ADMIN_EMAILS' });
+  console.log(`Granted admin role to ${user.username} from ADMIN_EMAILS`);
+  return result?.user ?? user;
+}
+
+export async function bootstrapAdmins(emails: string = process.env.ADMIN_EMAILS || '') {
+  for (const email of listedAdminEmails(emails)) {
+    const user = await storage.getUserByEmail(email);
+    if (user) {
+      await grantListedAdmin(user, emails);
+    }
+  }
+}
@@ -1,21 +1,200 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { WebSocketServer } from "ws";
 import { 
   insertMemeSchema, 
   insertCommentSchema, 
   insertUserSchema,
-  insertGameSessionSchema,
-  insertResourceSchema
+  insertResourceSchema,
+  insertMemeTemplateSchema,
+  reportReasons,
+  searchTargetTypes,
+  type Meme,
+  type MemeWithAuthor,
+  type ReportTargetType,
+  type Tag,
+  type User
 } from "@shared/schema";
 import { z } from "zod";
-import { setupAuth, isAuthenticated } from "./auth";
+import { setupAuth, isAuthenticated, optionalAuth, requirePermission, requireVerifiedEmail } from "./auth";
+import { castVote, isVoteDirection, withUserVotes } from "./votes";
+import { realtime } from "./realtime";
+import { queueCommentCountUpdate } from "./liveUpdates";
+import { memeChannel, userChannel } from "@shared/realtime";
+import { currentScenario, GameEngineError, publicScenario, startGame, submitChoice } from "./gameEngine";
+import { getLeaderboard, leaderboardNotifier, leaderboardPeriods, leaderboardScopes, type RankUpdate } from "./leaderboard";
+import { awardXpInBackground, levelProgress, xpNotifier, type LevelUpEvent } from "./xp";
+import { buildCommentTree, commentSortModes, decodeCommentCursor } from "./commentTree";
+import {
+  composeMemeImage,
+  getMemeTemplateWithStats,
+  listMemeTemplates,
+  measureTemplateImage,
+  MemeTemplateError,
+  renderMemeTemplate,
+  templateSortModes,
+  templateTextsSchema,
+  validateTemplateTexts
+} from "./memeTemplates";
 import cookieParser from "cookie-parser";
 import authRoutes from "./authRoutes";
-import mailchimpRoutes from "./mailchimpRoutes";
+import newsletterRoutes from "./newsletterRoutes";
+import uploadRoutes from "./uploadRoutes";
+import moderationRoutes from "./moderationRoutes";
+import adminRoutes from "./adminRoutes";
+import tagRoutes from "./tagRoutes";
+import notificationRoutes from "./notificationRoutes";
+import { bootstrapAdmins, hasPermission } from "./roles";
+import { scheduleWeeklyDigest } from "./digest";
+import { startNewsletterSync } from "./newsletterSync";
+import { search } from "./search";
+import { getUserProfile } from "./profiles";
+import { FollowError, followUser, unfollowUser } from "./follows";
+import { notificationNotifier, notifyNewComment, type NotificationDelivery } from "./notifications";
+import { memeSortModes, topWindows } from "./ranking";
+import { decodeCursor, encodeCursor, pageLimitSchema, pagePositionSchema } from "./pagination";
+import { getRankedFeedPage, startFeedSnapshotCleanup } from "./memeFeed";
+import { findTag, MAX_TAGS_PER_MEME, resolveTags, TagError, withTags } from "./tags";
+import { ModerationError, moderationNotifier, reportContent, type ModerationWarning } from "./moderation";
+import { blobStorage, LocalBlobStorage } from "./blobStorage";
+import { detectImageType } from "./imagePipeline";
 import cors from "cors";
 
+// Template memes are created through /api/templates/:id/memes so their image is always the rendered one
+const memeInputSchema = insertMemeSchema.omit({ templateId: true, captions: true });
+
+// Tag names as typed; they are slugged and resolved to canonical tags before posting
+const memeTagsSchema = z.array(z.string().max(64)).max(MAX_TAGS_PER_MEME).default([]);
+
+// Size is read from the uploaded image itself
+const templateInputSchema = insertMemeTemplateSchema.omit({ width: true, height: true, createdBy: true });
+
+const templateMemeSchema = z.object({
+  texts: templateTextsSchema,
+  caption: z.string().max(500).optional(),
+  tags: memeTagsSchema,
+});
+
+const reportSchema = z.object({
+  reason: z.enum(reportReasons),
+  details: z.string().trim().max(1000).optional(),
+});
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  // Comma-separated, e.g. ?type=meme,resource
+  type: z.string().default(searchTargetTypes.join(','))
+    .transform(value => value.split(',').map(part => part.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(searchTargetTypes)).min(1)),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).max(1000).default(0),
+});
+
+const gameChoiceSchema = z.object({
+  choiceId: z.string().min(1),
+});
+
+const leaderboardQuerySchema = z.object({
+  period: z.enum(leaderboardPeriods).default('weekly'),
+  scope: z.enum(leaderboardScopes).default('global'),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0),
+  neighbours: z.coerce.number().int().min(0).max(10).default(2),
+});
+
+const memeFeedQuerySchema = z.object({
+  // 'following' keeps the chosen ranking but only shows authors the caller follows
+  feed: z.enum(['all', 'following']).default('all'),
+  sort: z.enum(memeSortModes).catch('hot'),
+  // Only used by sort=top
+  window: z.enum(topWindows).catch('all'),
+  tag: z.string().optional(),
+  userId: z.coerce.number().int().positive().optional(),
+  limit: pageLimitSchema(10),
+  cursor: z.string().optional(),
+}).refine(query => query.userId === undefined || (query.tag === undefined && query.feed === 'all'), {
+  // A user's memes are always listed newest first, without the feed filters
+  message: 'userId cannot be combined with tag or feed=following',
+  path: ['userId'],
+});
+
+// A feed cursor carries the whole query, so later pages ignore everything but `limit`
+const memeFeedCursorSchema = z.object({
+  sort: z.enum(memeSortModes),
+  window: z.enum(topWindows),
+  tagId: z.number().int().optional(),
+  userId: z.number().int().optional(),
+  following: z.boolean().optional(),
+  asOf: z.number().int(),
+  // Newest-first feeds page by position, ranked ones through a snapshot of their order
+  after: pagePositionSchema.optional(),
+  snapshot: z.object({ snapshotId: z.string(), offset: z.number().int().min(0) }).optional(),
+});
+
+const resourceListQuerySchema = z.object({
+  category: z.string().optional(),
+  limit: pageLimitSchema(20),
+  cursor: z.string().optional(),
+});
+
+const resourceCursorSchema = z.object({
+  category: z.string().optional(),
+  after: pagePositionSchema,
+});
+
+const commentTreeQuerySchema = z.object({
+  sort: z.enum(commentSortModes).default('best'),
+  depth: z.coerce.number().int().min(1).max(10).default(3),
+  limit: pageLimitSchema(20),
+  replies: z.coerce.number().int().min(1).max(50).default(5),
+  cursor: z.string().optional(),
+});
+
+// Side effects shared by every way of posting a meme; returns the meme with its tags
+async function onMemePosted(meme: Meme, tags: Tag[]) {
+  await storage.setMemeTags(meme.id, tags.map(tag => tag.id));
+  const [taggedMeme] = await withTags([meme]);
+  
+  if (meme.authorId) {
+    awardXpInBackground(meme.authorId, 'meme_posted', { type: 'meme', id: meme.id });
+  }
+  
+  // Broadcast new meme to feed subscribers, and to each follower's own channel
+  realtime.publish('feed', 'new-meme', taggedMeme);
+  if (meme.authorId) {
+    const followerIds = await storage.getFollowerIds(meme.authorId);
+    followerIds.forEach(followerId => realtime.publish(userChannel(followerId), 'new-meme', taggedMeme));
+  }
+  return taggedMeme;
+}
+
+// A hidden or removed meme, and its comments, stay reachable by its author and by moderators
+function canViewMeme(meme: Meme | undefined, user: Pick<User, 'id' | 'role'> | undefined): meme is Meme {
+  if (!meme) return false;
+  return meme.moderationStatus === 'visible'
+    || (user !== undefined && (meme.authorId === user.id || hasPermission(user, 'moderate_content')));
+}
+
+// Shared handler for POST /api/<type>s/:id/report
+function reportRoute(targetType: ReportTargetType) {
+  return async (req: any, res: express.Response) => {
+    try {
+      const { reason, details } = reportSchema.parse(req.body);
+      const report = await reportContent(req.user.id, targetType, parseInt(req.params.id), reason, details);
+      res.status(201).json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid report data', errors: error.errors });
+      }
+      if (error instanceof ModerationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error(`Error reporting ${targetType}:`, error);
+      res.status(500).json({ message: 'Failed to submit report' });
+    }
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   
@@ -36,142 +215,241 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Auth routes
   app.use('/api/auth', authRoutes);
   
-  // Mailchimp subscription routes
-  app.use('/api/mailchimp', mailchimpRoutes);
+  // Newsletter signup with double opt-in, confirmation and unsubscribe links, and the weekly digest.
+  // Older clients still post signups to /api/mailchimp/subscribe.
+  app.use('/api/newsletter', newsletterRoutes);
+  app.use('/api/mailchimp', newsletterRoutes);
+  storage.backfillNewsletterStatuses().catch(error => console.error('Failed to backfill newsletter statuses:', error));
+  scheduleWeeklyDigest();
+  startNewsletterSync();
+  
+  // Image upload routes
+  app.use('/api/uploads', uploadRoutes);
+  
+  // Moderation queue and actions
+  app.use('/api/moderation', moderationRoutes);
+  
+  // Role management, audit log and newsletter tools
+  app.use('/api/admin', adminRoutes);
+  // Admins are only bootstrapped once accounts from before email verification count as unverified
+  storage.backfillLegacyAccounts()
+    .then(() => bootstrapAdmins())
+    .catch(error => console.error('Failed to bootstrap admins:', error));
+  storage.refreshRankingScores().catch(error => console.error('Failed to refresh ranking scores:', error));
+  startFeedSnapshotCleanup();
+  
+  // Tag directory, suggestions and moderator taxonomy tools
+  app.use('/api/tags', tagRoutes);
+  
+  // Signed-in user's notifications, unread counts and preferences
+  app.use('/api/notifications', notificationRoutes);
+  
+  // Serve uploaded files when they are kept on local disk
+  if (blobStorage instanceof LocalBlobStorage) {
+    app.use(blobStorage.publicPath, express.static(blobStorage.rootDir, { maxAge: '30d', immutable: true }));
+  }
   
   // Set up WebSocket server for realtime updates
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  
-  wss.on('connection', (ws) => {
-    console.log('WebSocket connection established');
-    
-    ws.on('message', async (message) => {
-      try {
-        // Parse the message from client
-        const data = JSON.parse(message.toString());
-        
-        // Check if there's a JWT token for authentication
-        if (data.auth && data.auth.token) {
-          // You could verify token here if needed
-          console.log('Authenticated WebSocket message received');
-        }
-        
-        // Handle different message types
-        switch(data.type) {
-          case 'ping':
-            ws.send(JSON.stringify({ type: 'pong', timestamp: new Date().toISOString() }));
-            break;
-          
-          case 'get_memes':
-            const memes = await storage.getMemes(10, 0, 'hot');
-            ws.send(JSON.stringify({ type: 'memes_list', data: memes }));
-            break;
-            
-          default:
-            console.log('Unknown message type', data.type);
-        }
-      } catch (error) {
-        console.error('Error handling WebSocket message:', error);
-        ws.send(JSON.stringify({ type: 'error', message: 'Invalid message format' }));
-      }
-    });
-    
-    // Send welcome message
-    ws.send(JSON.stringify({ 
-      type: 'welcome', 
-      message: 'Connected to Client From Hell websocket server',
-      timestamp: new Date().toISOString()
-    }));
+  realtime.attach(httpServer, '/ws');
+  
+  // Push level-ups earned anywhere in the app to connected clients
+  xpNotifier.on('level-up', (event: LevelUpEvent) => {
+    realtime.publish(userChannel(event.userId), 'level-up', event);
   });
   
-  // Add close event listener
-  wss.on('close', () => {
-    console.log('WebSocket server closed');
+  // Let authors know when a moderator warns them
+  moderationNotifier.on('warning', (warning: ModerationWarning) => {
+    realtime.publish(userChannel(warning.userId), 'moderation-warning', warning);
   });
   
-  // Define broadcast function for sending messages to all clients
-  const broadcast = (channel: string, data: any) => {
-    wss.clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(JSON.stringify({ channel, data }));
-      }
-    });
-  };
+  // Deliver notifications live, with the new unread count for the badge
+  notificationNotifier.on('notification', ({ userId, notification, unreadCount }: NotificationDelivery) => {
+    realtime.publish(userChannel(userId), 'notification', { notification, unreadCount });
+  });
+  notificationNotifier.on('read', ({ userId, unreadCount }: { userId: number; unreadCount: number }) => {
+    realtime.publish(userChannel(userId), 'notifications-read', { unreadCount });
+  });
+  
+  // Push leaderboard positions of freshly finished games
+  leaderboardNotifier.on('rank-update', (update: RankUpdate) => {
+    realtime.publish('leaderboard', 'leaderboard-update', update);
+  });
   
   // User routes - replaced by auth routes with secure authentication
   // Authentication is now handled by /api/auth/* endpoints
   
-  // Meme routes
-  app.get('/api/memes', async (req, res) => {
+  // Public profile - anyone can look up a user by username
+  app.get('/api/users/:username', optionalAuth, async (req: any, res) => {
     try {
-      const limit = parseInt(req.query.limit as string) || 10;
-      const offset = parseInt(req.query.offset as string) || 0;
-      const sortBy = (req.query.sort as string) || 'hot';
-      const userId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
-      
-      const memes = userId 
-        ? await storage.getMemesByUser(userId, limit, offset) 
-        : await storage.getMemes(limit, offset, sortBy);
+      const profile = await getUserProfile(req.params.username, req.user?.id);
+      if (!profile) {
+        return res.status(404).json({ message: 'User not found' });
+      }
       
-      res.json(memes);
+      res.json({
+        ...profile,
+        recentMemes: await withUserVotes(profile.recentMemes, 'meme', req.user?.id),
+        recentComments: await withUserVotes(profile.recentComments, 'comment', req.user?.id),
+      });
     } catch (error) {
-      console.error('Error fetching memes:', error);
-      res.status(500).json({ message: 'Failed to fetch memes' });
+      console.error('Error fetching profile:', error);
+      res.status(500).json({ message: 'Failed to fetch profile' });
     }
   });
   
-  app.get('/api/memes/:id', async (req, res) => {
+  // Protected routes - follow and unfollow an author; both are idempotent
+  app.post('/api/users/:username/follow', isAuthenticated, async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const meme = await storage.getMeme(id);
+      res.json(await followUser(req.user.id, req.params.username));
+    } catch (error) {
+      if (error instanceof FollowError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error following user:', error);
+      res.status(500).json({ message: 'Failed to follow user' });
+    }
+  });
+  
+  app.delete('/api/users/:username/follow', isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await unfollowUser(req.user.id, req.params.username));
+    } catch (error) {
+      if (error instanceof FollowError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error unfollowing user:', error);
+      res.status(500).json({ message: 'Failed to unfollow user' });
+    }
+  });
+  
+  // Search across meme captions, comments and resources
+  app.get('/api/search', async (req, res) => {
+    try {
+      const query = searchQuerySchema.parse(req.query);
+      const results = await search(query.q, {
+        types: Array.from(new Set(query.type)),
+        limit: query.limit,
+        offset: query.offset,
+      });
+      res.json(results);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid search query', errors: error.errors });
+      }
+      console.error('Error searching:', error);
+      res.status(500).json({ message: 'Failed to search' });
+    }
+  });
+  
+  // Meme routes
+  app.get('/api/memes', optionalAuth, async (req: any, res) => {
+    try {
+      const query = memeFeedQuerySchema.parse(req.query);
       
-      if (!meme) {
-        return res.status(404).json({ message: 'Meme not found' });
+      let feed = query.cursor ? decodeCursor(query.cursor, memeFeedCursorSchema) : undefined;
+      if (query.cursor && !feed) {
+        return res.status(400).json({ message: 'Invalid cursor' });
       }
       
-      res.json(meme);
+      if (!feed) {
+        // ?tag= accepts a slug, name or alias; unknown tags simply have no memes
+        let tagId: number | undefined;
+        if (query.tag) {
+          const tag = await findTag(query.tag);
+          if (!tag) {
+            return res.json({ memes: [], nextCursor: null });
+          }
+          tagId = tag.id;
+        }
+        feed = {
+          sort: query.sort,
+          window: query.window,
+          tagId,
+          userId: query.userId,
+          following: query.feed === 'following' || undefined,
+          asOf: Date.now(),
+        };
+      }
+      
+      if (feed.following && !req.user) {
+        return res.status(401).json({ message: 'Sign in to see memes from people you follow' });
+      }
+      
+      const ranking = {
+        sort: feed.sort,
+        window: feed.window,
+        tagId: feed.tagId,
+        followerId: feed.following ? req.user.id : undefined,
+        asOf: new Date(feed.asOf),
+      };
+      
+      let items: MemeWithAuthor[];
+      let nextCursor: string | null;
+      if (feed.userId !== undefined || feed.sort === 'new') {
+        const page = feed.userId !== undefined
+          ? await storage.getMemesByUser(feed.userId, query.limit, feed.after)
+          : await storage.getMemes({ ...ranking, after: feed.after, limit: query.limit });
+        items = page.items;
+        nextCursor = page.next && encodeCursor({ ...feed, after: page.next });
+      } else {
+        const page = await getRankedFeedPage(ranking, query.limit, feed.snapshot);
+        if (!page) {
+          return res.status(410).json({ message: 'This feed has expired - reload it to see the latest memes' });
+        }
+        items = page.items;
+        nextCursor = page.next && encodeCursor({ ...feed, snapshot: page.next });
+      }
+      
+      res.json({
+        memes: await withUserVotes(await withTags(items), 'meme', req.user?.id),
+        nextCursor,
+      });
     } catch (error) {
-      res.status(500).json({ message: 'Failed to fetch meme' });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid feed query', errors: error.errors });
+      }
+      console.error('Error fetching memes:', error);
+      res.status(500).json({ message: 'Failed to fetch memes' });
     }
   });
   
-  app.post('/api/memes/:id/vote', isAuthenticated, async (req, res) => {
+  app.get('/api/memes/:id', optionalAuth, async (req: any, res) => {
     try {
-      const memeId = parseInt(req.params.id);
-      const userId = req.user?.id || 0;
-      const { vote } = req.body;
+      const id = parseInt(req.params.id);
+      const meme = await storage.getMeme(id);
       
-      if (vote !== 'up' && vote !== 'down') {
-        return res.status(400).json({ message: 'Invalid vote type' });
+      if (!canViewMeme(meme, req.user)) {
+        return res.status(404).json({ message: 'Meme not found' });
       }
       
-      const updatedMeme = await storage.voteMeme(memeId, userId, vote);
-      res.json(updatedMeme);
+      const [memeWithVote] = await withUserVotes(await withTags([meme]), 'meme', req.user?.id);
+      res.json(memeWithVote);
     } catch (error) {
-      console.error('Error voting on meme:', error);
-      res.status(500).json({ message: 'Failed to vote on meme' });
+      res.status(500).json({ message: 'Failed to fetch meme' });
     }
   });
   
   // Protected route - only authenticated users can create memes
-  app.post('/api/memes', isAuthenticated, async (req: any, res) => {
+  app.post('/api/memes', isAuthenticated, requireVerifiedEmail('post_memes'), async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const memeData = insertMemeSchema.parse({
+      const memeData = memeInputSchema.parse({
         ...req.body,
         authorId: userId // Set the authorId from the authenticated user
       });
+      // Resolved first so a bad tag rejects the post instead of leaving an untagged meme
+      const tags = await resolveTags(memeTagsSchema.parse(req.body.tags), userId);
       
       const meme = await storage.createMeme(memeData);
       
-      // Broadcast new meme to connected clients
-      broadcast('new-meme', meme);
-      
-      res.status(201).json(meme);
+      res.status(201).json(await onMemePosted(meme, tags));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: 'Invalid meme data', errors: error.errors });
       }
+      if (error instanceof TagError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: 'Failed to create meme' });
     }
   });
@@ -183,30 +461,164 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user.id;
       const { vote } = req.body;
       
-      if (!vote || !['up', 'down'].includes(vote)) {
+      if (!isVoteDirection(vote)) {
         return res.status(400).json({ message: 'Invalid vote data' });
       }
       
-      const meme = await storage.voteMeme(id, userId, vote);
-      res.json(meme);
+      const result = await castVote(userId, 'meme', id, vote);
+      if (!result) {
+        return res.status(404).json({ message: 'Meme not found' });
+      }
+      
+      res.json(result.target);
     } catch (error) {
+      console.error('Error voting on meme:', error);
       res.status(500).json({ message: 'Failed to vote on meme' });
     }
   });
   
+  // Protected route - flag a meme for moderators
+  app.post('/api/memes/:id/report', isAuthenticated, reportRoute('meme'));
+  
+  // Meme template routes
+  app.get('/api/templates', async (req, res) => {
+    try {
+      const sort = z.enum(templateSortModes).catch('popular').parse(req.query.sort);
+      res.json(await listMemeTemplates(sort));
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+      res.status(500).json({ message: 'Failed to fetch templates' });
+    }
+  });
+  
+  app.get('/api/templates/:id', async (req, res) => {
+    try {
+      const template = await getMemeTemplateWithStats(parseInt(req.params.id));
+      if (!template) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+      res.json(template);
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch template' });
+    }
+  });
+  
+  // Protected route - base image must be uploaded first through /api/uploads/images
+  app.post('/api/templates', isAuthenticated, requireVerifiedEmail('create_templates'), async (req: any, res) => {
+    try {
+      const templateData = templateInputSchema.parse(req.body);
+      const size = await measureTemplateImage(templateData.imageUrl);
+      
+      const template = await storage.createMemeTemplate({
+        ...templateData,
+        ...size,
+        createdBy: req.user.id
+      });
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid template data', errors: error.errors });
+      }
+      if (error instanceof MemeTemplateError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error creating template:', error);
+      res.status(500).json({ message: 'Failed to create template' });
+    }
+  });
+  
+  // Protected route - render the texts without saving anything, for the meme editor
+  app.post('/api/templates/:id/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const template = await storage.getMemeTemplate(parseInt(req.params.id));
+      if (!template) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+      
+      const { texts } = templateMemeSchema.parse(req.body);
+      const image = await renderMemeTemplate(template, validateTemplateTexts(template, texts));
+      res.type(detectImageType(image) ?? 'png').send(image);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid caption data', errors: error.errors });
+      }
+      if (error instanceof MemeTemplateError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error rendering template preview:', error);
+      res.status(500).json({ message: 'Failed to render preview' });
+    }
+  });
+  
+  // Protected route - render the texts onto the template and post the result as a meme
+  app.post('/api/templates/:id/memes', isAuthenticated, requireVerifiedEmail('post_memes'), async (req: any, res) => {
+    try {
+      const template = await storage.getMemeTemplate(parseInt(req.params.id));
+      if (!template) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+      
+      const { texts, caption, tags: tagNames } = templateMemeSchema.parse(req.body);
+      const captions = validateTemplateTexts(template, texts);
+      const tags = await resolveTags(tagNames, req.user.id);
+      const image = await composeMemeImage(template, captions);
+      
+      const meme = await storage.createMeme({
+        authorId: req.user.id,
+        imageUrl: image.url,
+        caption: caption?.trim() || Object.values(captions).join(' / '),
+        templateId: template.id,
+        captions
+      });
+      
+      res.status(201).json(await onMemePosted(meme, tags));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid caption data', errors: error.errors });
+      }
+      if (error instanceof MemeTemplateError || error instanceof TagError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Error creating meme from template:', error);
+      res.status(500).json({ message: 'Failed to create meme' });
+    }
+  });
+  
   // Comment routes
-  app.get('/api/memes/:memeId/comments', async (req, res) => {
+  app.get('/api/memes/:memeId/comments', optionalAuth, async (req: any, res) => {
     try {
       const memeId = parseInt(req.params.memeId);
-      const comments = await storage.getComments(memeId);
-      res.json(comments);
+      const query = commentTreeQuerySchema.parse(req.query);
+      
+      if (!canViewMeme(await storage.getMeme(memeId), req.user)) {
+        return res.status(404).json({ message: 'Meme not found' });
+      }
+      
+      const cursor = query.cursor ? decodeCommentCursor(query.cursor) : undefined;
+      if (query.cursor && !cursor) {
+        return res.status(400).json({ message: 'Invalid cursor' });
+      }
+      
+      const comments = await storage.getComments(memeId, cursor?.maxId);
+      const tree = buildCommentTree(await withUserVotes(comments, 'comment', req.user?.id), {
+        sort: query.sort,
+        maxDepth: query.depth,
+        limit: query.limit,
+        replyLimit: query.replies,
+        cursor,
+      });
+      
+      res.json(tree);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid comment query', errors: error.errors });
+      }
       res.status(500).json({ message: 'Failed to fetch comments' });
     }
   });
   
   // Protected route - only authenticated users can post comments
-  app.post('/api/comments', isAuthenticated, async (req: any, res) => {
+  app.post('/api/comments', isAuthenticated, requireVerifiedEmail('post_comments'), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const commentData = insertCommentSchema.parse({
@@ -214,10 +626,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         authorId: userId // Set the authorId from the authenticated user
       });
       
+      const meme = commentData.memeId ? await storage.getMeme(commentData.memeId) : undefined;
+      if (!meme || meme.moderationStatus !== 'visible') {
+        return res.status(404).json({ message: 'Meme not found' });
+      }
+      
+      // Replies must stay within the thread of the same meme
+      if (commentData.parentId) {
+        const parent = await storage.getComment(commentData.parentId);
+        if (!parent || parent.memeId !== meme.id || parent.moderationStatus !== 'visible') {
+          return res.status(400).json({ message: 'Parent comment does not belong to this meme' });
+        }
+      }
+      
       const comment = await storage.createComment(commentData);
+      awardXpInBackground(userId, 'comment_posted', { type: 'comment', id: comment.id });
+      notifyNewComment(comment).catch(error => console.error('Failed to send comment notifications:', error));
       
-      // Broadcast new comment to connected clients
-      broadcast('new-comment', comment);
+      // Broadcast new comment to clients watching the meme
+      realtime.publish(memeChannel(meme.id), 'new-comment', comment);
+      queueCommentCountUpdate(meme.id);
       
       res.status(201).json(comment);
     } catch (error) {
@@ -233,14 +661,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       const userId = req.user.id;
+      // Comment votes were upvote-only before, so a bare request still means 'up'
+      const vote = req.body?.vote ?? 'up';
       
-      const comment = await storage.voteComment(id, userId, 'up');
-      res.json(comment);
+      if (!isVoteDirection(vote)) {
+        return res.status(400).json({ message: 'Invalid vote data' });
+      }
+      
+      const result = await castVote(userId, 'comment', id, vote);
+      if (!result) {
+        return res.status(404).json({ message: 'Comment not found' });
+      }
+      
+      res.json(result.target);
     } catch (error) {
       res.status(500).json({ message: 'Failed to vote on comment' });
     }
   });
   
+  // Protected route - flag a comment for moderators
+  app.post('/api/comments/:id/report', isAuthenticated, reportRoute('comment'));
+  
+  // XP routes
+  // Protected route - the caller's level progress and recent XP ledger entries
+  app.get('/api/xp', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = req.user;
+      const events = await storage.getXpEvents(user.id, 20);
+      res.json({ ...levelProgress(user.xp ?? 0), events });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch XP' });
+    }
+  });
+  
   // Game session routes
   // Protected route - only authenticated users can view their game sessions
   app.get('/api/game/sessions/:userId', isAuthenticated, async (req: any, res) => {
@@ -261,78 +714,121 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Protected route - only authenticated users can create game sessions
-  app.post('/api/game/sessions', isAuthenticated, async (req: any, res) => {
+  // Leaderboard of best completed games; signed-in callers also get their own rank
+  app.get('/api/game/leaderboard', optionalAuth, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const sessionData = insertGameSessionSchema.parse({
-        ...req.body,
-        userId: userId // Set the userId from the authenticated user
-      });
+      const query = leaderboardQuerySchema.parse(req.query);
+      if (query.scope === 'following' && !req.user) {
+        return res.status(401).json({ message: 'Sign in to see the people you follow' });
+      }
       
-      const session = await storage.createGameSession(sessionData);
-      res.status(201).json(session);
+      const leaderboard = await getLeaderboard(query.period, {
+        scope: query.scope,
+        limit: query.limit,
+        offset: query.offset,
+        userId: req.user?.id,
+        neighbours: query.neighbours,
+      });
+      res.json(leaderboard);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: 'Invalid session data', errors: error.errors });
+        return res.status(400).json({ message: 'Invalid leaderboard query', errors: error.errors });
       }
+      res.status(500).json({ message: 'Failed to fetch leaderboard' });
+    }
+  });
+  
+  // Protected route - starts a new game; score and sanity are owned by the game engine
+  app.post('/api/game/sessions', isAuthenticated, async (req: any, res) => {
+    try {
+      const game = await startGame(req.user.id);
+      res.status(201).json(game);
+    } catch (error) {
       res.status(500).json({ message: 'Failed to create game session' });
     }
   });
   
-  // Protected route - only authenticated users can update their game sessions
-  app.patch('/api/game/sessions/:id', isAuthenticated, async (req: any, res) => {
+  // Protected route - the scenario a player is currently facing, for resuming a game
+  app.get('/api/game/sessions/:id/scenario', isAuthenticated, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const userId = req.user.id;
+      const session = await storage.getGameSession(id);
       
-      // First, get the session to check ownership
-      const existingSession = await storage.getGameSession(id);
-      
-      if (!existingSession) {
+      if (!session) {
         return res.status(404).json({ message: 'Game session not found' });
       }
       
-      // Users can only update their own game sessions
-      if (existingSession.userId !== userId) {
-        return res.status(403).json({ message: 'Unauthorized to update this game session' });
+      if (session.userId !== req.user.id) {
+        return res.status(403).json({ message: 'Unauthorized to access this game session' });
       }
       
-      const session = await storage.updateGameSession(id, req.body);
-      res.json(session);
+      res.json({ session, scenario: publicScenario(currentScenario(session)) });
+    } catch (error) {
+      res.status(500).json({ message: 'Failed to fetch game scenario' });
+    }
+  });
+  
+  // Protected route - submit a choice for the current scenario of your own game session
+  app.patch('/api/game/sessions/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { choiceId } = gameChoiceSchema.parse(req.body);
+      
+      const result = await submitChoice(id, req.user.id, choiceId);
+      res.json(result);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid choice data', errors: error.errors });
+      }
+      if (error instanceof GameEngineError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: 'Failed to update game session' });
     }
   });
   
   // Resource routes
-  app.get('/api/resources', async (req, res) => {
+  app.get('/api/resources', optionalAuth, async (req: any, res) => {
     try {
-      const category = req.query.category as string;
-      const resources = await storage.getResources(category);
-      res.json(resources);
+      const query = resourceListQuerySchema.parse(req.query);
+      
+      const position = query.cursor ? decodeCursor(query.cursor, resourceCursorSchema) : undefined;
+      if (query.cursor && !position) {
+        return res.status(400).json({ message: 'Invalid cursor' });
+      }
+      
+      const category = position ? position.category : query.category;
+      const page = await storage.getResources({ category, after: position?.after, limit: query.limit });
+      res.json({
+        resources: await withUserVotes(page.items, 'resource', req.user?.id),
+        nextCursor: page.next && encodeCursor({ category, after: page.next }),
+      });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid resource query', errors: error.errors });
+      }
       res.status(500).json({ message: 'Failed to fetch resources' });
     }
   });
   
-  app.get('/api/resources/:id', async (req, res) => {
+  app.get('/api/resources/:id', optionalAuth, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
       const resource = await storage.getResource(id);
       
-      if (!resource) {
+      if (!resource || resource.moderationStatus !== 'visible') {
         return res.status(404).json({ message: 'Resource not found' });
       }
       
-      res.json(resource);
+      const [resourceWithVote] = await withUserVotes([resource], 'resource', req.user?.id);
+      res.json(resourceWithVote);
     } catch (error) {
       res.status(500).json({ message: 'Failed to fetch resource' });
     }
   });
   
-  // Protected route - only authenticated users can create resources
-  app.post('/api/resources', isAuthenticated, async (req: any, res) => {
+  // Protected route - only staff with the create_resources permission can create resources
+  app.post('/api/resources', isAuthenticated, requirePermission('create_resources'), requireVerifiedEmail('post_resources'), async (req: any, res) => {
     try {
       const userId = req.user.id;
       const resourceData = insertResourceSchema.parse({
@@ -357,16 +853,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user.id;
       const { vote } = req.body;
       
-      if (!vote || !['up', 'down'].includes(vote)) {
+      if (!isVoteDirection(vote)) {
         return res.status(400).json({ message: 'Invalid vote data' });
       }
       
-      const resource = await storage.voteResource(id, userId, vote);
-      res.json(resource);
+      const result = await castVote(userId, 'resource', id, vote);
+      if (!result) {
+        return res.status(404).json({ message: 'Resource not found' });
+      }
+      
+      res.json(result.target);
     } catch (error) {
       res.status(500).json({ message: 'Failed to vote on resource' });
     }
   });
+  
+  // Protected route - flag a resource for moderators
+  app.post('/api/resources/:id/report', isAuthenticated, reportRoute('resource'));
 
   return httpServer;
 }
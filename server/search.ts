@@ -0,0 +1,115 @@
+import { storage } from './storage';
+import { normalize, tokenize, words } from './searchIndex';
+import type { Comment, MemeWithAuthor, Resource, SearchHit, SearchTargetType } from '@shared/schema';
+
+const SNIPPET_LENGTH = 160;
+// Context kept in front of the first match
+const SNIPPET_LEAD = 50;
+
+export type SearchResult =
+  | { type: 'meme'; id: number; score: number; title: string | null; snippet: string; item: MemeWithAuthor }
+  | { type: 'comment'; id: number; score: number; title: string | null; snippet: string; item: Comment }
+  | { type: 'resource'; id: number; score: number; title: string | null; snippet: string; item: Resource };
+
+export interface SearchOptions {
+  types: readonly SearchTargetType[];
+  limit: number;
+  offset: number;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// A window of the text around the first match, HTML-escaped with matches wrapped in <mark>
+export function highlightSnippet(text: string, terms: Set<string>, length: number = SNIPPET_LENGTH): string {
+  const tokens = words(text);
+  const isMatch = (word: string) => {
+    const term = normalize(word);
+    return term !== undefined && terms.has(term);
+  };
+
+  const first = tokens.find(token => isMatch(token.word));
+  let start = first ? Math.max(0, first.start - SNIPPET_LEAD) : 0;
+  // Don't start or end in the middle of a word
+  if (start > 0) {
+    const boundary = tokens.find(token => token.start >= start);
+    start = boundary ? boundary.start : start;
+  }
+  let end = Math.min(text.length, start + length);
+  const split = tokens.find(token => token.start < end && token.end > end);
+  if (split && split.start > start) end = split.start;
+
+  let snippet = '';
+  let cursor = start;
+  for (const token of tokens) {
+    if (token.start < start || token.end > end) continue;
+    if (!isMatch(token.word)) continue;
+
+    snippet += escapeHtml(text.slice(cursor, token.start)) + `<mark>${escapeHtml(token.word)}</mark>`;
+    cursor = token.end;
+  }
+  snippet += escapeHtml(text.slice(cursor, end));
+
+  return `${start > 0 ? '…' : ''}${snippet.replace(/\s+/g, ' ').trim()}${end < text.length ? '…' : ''}`;
+}
+
+async function toResult(hit: SearchHit, terms: Set<string>): Promise<SearchResult | undefined> {
+  switch (hit.type) {
+    case 'meme': {
+      const meme = await storage.getMeme(hit.id);
+      return meme && {
+        ...hit,
+        type: 'meme',
+        title: meme.caption,
+        snippet: highlightSnippet(meme.caption ?? '', terms),
+        item: meme,
+      };
+    }
+    case 'comment': {
+      const comment = await storage.getComment(hit.id);
+      return comment && {
+        ...hit,
+        type: 'comment',
+        title: null,
+        snippet: highlightSnippet(comment.body, terms),
+        item: comment,
+      };
+    }
+    case 'resource': {
+      const resource = await storage.getResource(hit.id);
+      return resource && {
+        ...hit,
+        type: 'resource',
+        title: resource.title,
+        // Title matches are already visible in the title, so the snippet comes from the body
+        snippet: highlightSnippet(resource.markdown || resource.title, terms),
+        item: resource,
+      };
+    }
+  }
+}
+
+// Ranked results with highlighted snippets; `nextOffset` is null on the last page
+export async function search(text: string, { types, limit, offset }: SearchOptions) {
+  const terms = new Set(tokenize(text));
+  if (terms.size === 0) {
+    return { query: text, total: 0, results: [] as SearchResult[], nextOffset: null };
+  }
+
+  const { total, hits } = await storage.search({ text, types, limit, offset });
+  const results = (await Promise.all(hits.map(hit => toResult(hit, terms))))
+    .filter((result): result is SearchResult => result !== undefined);
+
+  return {
+    query: text,
+    total,
+    results,
+    nextOffset: offset + hits.length < total ? offset + hits.length : null,
+  };
+}
@@ -0,0 +1,115 @@
+import type { SearchHit, SearchTargetType } from '@shared/schema';
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'if', 'in', 'into', 'is', 'it',
+  'its', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'then', 'there', 'these', 'they', 'this', 'to',
+  'was', 'were', 'will', 'with',
+]);
+
+// Letters and digits in any script; built with RegExp because the compiler target predates the u flag
+const WORD_PATTERN = new RegExp("[\\p{L}\\p{N}']+", 'gu');
+
+// Light English suffix stripping so "invoices" finds "invoice" and "paying" finds "pay"
+export function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 4 && /(s|x|z|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+// Words of a text as they appear, with their offsets, for highlighting
+export function words(text: string): Array<{ word: string; start: number; end: number }> {
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({
+    word: match[0],
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+export function normalize(word: string): string | undefined {
+  const lower = word.toLowerCase().replace(/'/g, '');
+  if (!lower || STOP_WORDS.has(lower)) return undefined;
+  return stem(lower);
+}
+
+// Search terms of a text, in order and with repeats
+export function tokenize(text: string): string[] {
+  return words(text)
+    .map(({ word }) => normalize(word))
+    .filter((term): term is string => term !== undefined);
+}
+
+export interface IndexedField {
+  text: string | null | undefined;
+  // Matches in heavier fields (titles) count for more
+  weight: number;
+}
+
+interface Posting {
+  type: SearchTargetType;
+  id: number;
+  weight: number;
+}
+
+// In-process inverted index: term -> document -> weighted term frequency
+export class SearchIndex {
+  private postings = new Map<string, Map<string, Posting>>();
+  private documentTerms = new Map<string, Set<string>>();
+
+  add(type: SearchTargetType, id: number, fields: IndexedField[]) {
+    const key = `${type}:${id}`;
+    this.remove(type, id);
+
+    const terms = new Set<string>();
+    for (const field of fields) {
+      for (const term of tokenize(field.text ?? '')) {
+        const documents = this.postings.get(term) ?? new Map<string, Posting>();
+        const posting = documents.get(key) ?? { type, id, weight: 0 };
+        posting.weight += field.weight;
+        documents.set(key, posting);
+        this.postings.set(term, documents);
+        terms.add(term);
+      }
+    }
+    this.documentTerms.set(key, terms);
+  }
+
+  remove(type: SearchTargetType, id: number) {
+    const key = `${type}:${id}`;
+    this.documentTerms.get(key)?.forEach(term => {
+      const documents = this.postings.get(term);
+      documents?.delete(key);
+      if (documents?.size === 0) this.postings.delete(term);
+    });
+    this.documentTerms.delete(key);
+  }
+
+  // Documents containing every term, scored by tf-idf
+  search(text: string, types: readonly SearchTargetType[]): SearchHit[] {
+    const terms = Array.from(new Set(tokenize(text)));
+    if (terms.length === 0) return [];
+
+    const totalDocuments = Math.max(this.documentTerms.size, 1);
+    const scores = new Map<string, { type: SearchTargetType; id: number; score: number; matched: number }>();
+
+    for (const term of terms) {
+      const documents = this.postings.get(term);
+      if (!documents) return [];
+
+      const idf = Math.log(1 + totalDocuments / documents.size);
+      documents.forEach((posting, key) => {
+        if (!types.includes(posting.type)) return;
+        const entry = scores.get(key) ?? { type: posting.type, id: posting.id, score: 0, matched: 0 };
+        entry.score += (1 + Math.log(posting.weight)) * idf;
+        entry.matched++;
+        scores.set(key, entry);
+      });
+    }
+
+    return Array.from(scores.values())
+      .filter(entry => entry.matched === terms.length)
+      .map(({ type, id, score }) => ({ type, id, score }));
+  }
+}
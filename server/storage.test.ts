@@ -0,0 +1,529 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemStorage, type IStorage } from './storage';
+import { DatabaseStorage } from './databaseStorage';
+import { connectDatabase } from './db';
+
+// The behaviour both backends must share. Every test creates its own rows with unique names, so the
+// database leg can run against a database that already holds data (run `npm run db:push` first).
+export function storageContract(name: string, open: () => Promise<{ storage: IStorage; close?: () => Promise<void> }>) {
+  describe(`${name} storage contract`, () => {
+    let storage: IStorage;
+    let close: (() => Promise<void>) | undefined;
+    let sequence = 0;
+    const run = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+    const unique = (prefix: string) => `${prefix}_${run}_${++sequence}`;
+
+    const createUser = (overrides: Record<string, unknown> = {}) => {
+      const username = unique('user');
+      return storage.createUser({
+        username,
+        email: `${username}@example.test`,
+        password: 'hash',
+        displayName: null,
+        avatar: null,
+        provider: 'local',
+        providerId: null,
+        refreshToken: null,
+        ...overrides,
+      });
+    };
+    const createMeme = (authorId: number, caption = unique('caption')) =>
+      storage.createMeme({ authorId, imageUrl: '/uploads/meme.png', caption, templateId: null, captions: null });
+
+    before(async () => {
+      ({ storage, close } = await open());
+    });
+
+    after(async () => {
+      await close?.();
+    });
+
+    describe('users', () => {
+      it('finds users by id, username and email', async () => {
+        const user = await createUser();
+        assert.equal((await storage.getUser(user.id))?.username, user.username);
+        assert.equal((await storage.getUserByUsername(user.username))?.id, user.id);
+        assert.equal((await storage.getUserByEmail(user.email))?.id, user.id);
+        assert.equal((await storage.getUserByEmail(user.email.toUpperCase()))?.id, user.id);
+        assert.equal(await storage.getUserByEmail(unique('missing')), undefined);
+      });
+
+      it('applies defaults on create and keeps them on update', async () => {
+        const user = await createUser();
+        assert.equal(user.role, 'user');
+        assert.equal(user.level, 1);
+        assert.equal(user.xp, 0);
+        assert.equal(user.sessionVersion, 0);
+        assert.equal(user.emailVerified, false);
+        assert.equal(user.legacyAccount, false);
+
+        const updated = await storage.updateUser(user.id, { displayName: 'Renamed', emailVerified: true });
+        assert.equal(updated.displayName, 'Renamed');
+        assert.equal(updated.emailVerified, true);
+        assert.equal(updated.username, user.username);
+      });
+
+      it('stores emailVerified when given on create', async () => {
+        const user = await createUser({ emailVerified: true, password: null, provider: 'github' });
+        assert.equal(user.emailVerified, true);
+        assert.equal(user.password, null);
+      });
+
+      it('backfills accounts from before email verification as unverified', async () => {
+        // What an earlier column default left on accounts that predate verification
+        const legacy = { legacyAccount: true, emailVerified: true };
+        const unproven = await storage.updateUser((await createUser()).id, legacy);
+        const requested = await storage.updateUser((await createUser()).id, { ...legacy, emailVerificationSentAt: new Date() });
+        const linked = await storage.updateUser((await createUser()).id, legacy);
+        await storage.linkUserIdentity({ userId: linked.id, provider: 'google', providerId: unique('google') });
+        const signup = await createUser({ emailVerified: true });
+
+        assert.ok(await storage.backfillLegacyAccounts() >= 1);
+        const [unprovenAfter, requestedAfter, linkedAfter, signupAfter] = await Promise.all(
+          [unproven, requested, linked, signup].map(user => storage.getUser(user.id)),
+        );
+        assert.deepEqual([unprovenAfter?.emailVerified, unprovenAfter?.legacyAccount], [false, true]);
+        assert.equal(requestedAfter?.emailVerified, true);
+        assert.equal(linkedAfter?.emailVerified, true);
+        assert.equal(signupAfter?.emailVerified, true);
+        assert.equal(await storage.backfillLegacyAccounts(), 0);
+      });
+
+      it('counts karma from visible memes and comments only', async () => {
+        const author = await createUser();
+        const voter = await createUser();
+        const meme = await createMeme(author.id);
+        const hidden = await createMeme(author.id);
+        await storage.castVote(voter.id, 'meme', meme.id, 1);
+        await storage.castVote(voter.id, 'meme', hidden.id, 1);
+        await storage.setModerationStatus('meme', hidden.id, 'hidden');
+        await storage.createComment({ memeId: meme.id, authorId: author.id, body: 'mine', parentId: null });
+
+        assert.deepEqual(await storage.getUserKarma(author.id), { memeCount: 1, memeKarma: 1, commentCount: 1, commentKarma: 0 });
+      });
+    });
+
+    describe('auth tokens', () => {
+      it('consumes a token once and never after it expires', async () => {
+        const user = await createUser();
+        const live = unique('hash');
+        const expired = unique('hash');
+        await storage.createAuthToken({ userId: user.id, purpose: 'password_reset', tokenHash: live, expiresAt: new Date(Date.now() + 60_000) });
+        await storage.createAuthToken({ userId: user.id, purpose: 'password_reset', tokenHash: expired, expiresAt: new Date(Date.now() - 1000) });
+
+        assert.equal((await storage.consumeAuthToken('password_reset', live))?.userId, user.id);
+        assert.equal(await storage.consumeAuthToken('password_reset', live), undefined);
+        assert.equal(await storage.consumeAuthToken('password_reset', expired), undefined);
+      });
+
+      it('revokes outstanding tokens', async () => {
+        const user = await createUser();
+        const hash = unique('hash');
+        await storage.createAuthToken({ userId: user.id, purpose: 'password_reset', tokenHash: hash, expiresAt: new Date(Date.now() + 60_000) });
+
+        assert.equal(await storage.revokeAuthTokens(user.id, 'password_reset'), 1);
+        assert.equal(await storage.consumeAuthToken('password_reset', hash), undefined);
+      });
+
+      it('counts recent unused tokens', async () => {
+        const user = await createUser();
+        const start = new Date(Date.now() - 1000);
+        const hash = unique('hash');
+        await storage.createAuthToken({ userId: user.id, purpose: 'password_reset', tokenHash: hash, expiresAt: new Date(Date.now() + 60_000) });
+
+        assert.equal(await storage.countAuthTokensSince(user.id, 'password_reset', start), 1);
+        assert.equal(await storage.countAuthTokensSince(user.id, 'password_reset', new Date(Date.now() + 60_000)), 0);
+        await storage.consumeAuthToken('password_reset', hash);
+        assert.equal(await storage.countAuthTokensSince(user.id, 'password_reset', start), 0);
+      });
+    });
+
+    describe('linked identities', () => {
+      it('links, finds and unlinks provider accounts', async () => {
+        const user = await createUser();
+        const providerId = unique('gh');
+        await storage.linkUserIdentity({ userId: user.id, provider: 'github', providerId, email: user.email });
+
+        assert.equal((await storage.getUserIdentity('github', providerId))?.userId, user.id);
+        assert.deepEqual((await storage.getUserIdentities(user.id)).map(identity => identity.provider), ['github']);
+        assert.equal(await storage.unlinkUserIdentity(user.id, 'github'), true);
+        assert.equal(await storage.unlinkUserIdentity(user.id, 'github'), false);
+      });
+
+      it('rejects a second account of the same provider', async () => {
+        const user = await createUser();
+        const other = await createUser();
+        const providerId = unique('gh');
+        await storage.linkUserIdentity({ userId: user.id, provider: 'github', providerId });
+
+        assert.equal(await storage.linkUserIdentity({ userId: user.id, provider: 'github', providerId: unique('gh') }), undefined);
+        assert.equal(await storage.linkUserIdentity({ userId: other.id, provider: 'github', providerId }), undefined);
+        assert.deepEqual((await storage.getUserIdentities(other.id)), []);
+      });
+    });
+
+    describe('roles and follows', () => {
+      it('changes roles with an audit entry', async () => {
+        const admin = await createUser();
+        const user = await createUser();
+        const result = await storage.setUserRole(user.id, 'moderator', { actorId: admin.id, reason: 'helpful' });
+
+        assert.equal(result?.user.role, 'moderator');
+        assert.equal(result?.change.previousRole, 'user');
+        assert.equal((await storage.getRoleChanges({ userId: user.id, limit: 10 }))[0]?.reason, 'helpful');
+        assert.equal(await storage.setUserRole(-1, 'admin', { actorId: null }), undefined);
+      });
+
+      it('follows and unfollows only once', async () => {
+        const alice = await createUser();
+        const bob = await createUser();
+
+        assert.equal(await storage.followUser(alice.id, bob.id), true);
+        assert.equal(await storage.followUser(alice.id, bob.id), false);
+        assert.equal(await storage.isFollowing(alice.id, bob.id), true);
+        assert.deepEqual(await storage.getFollowCounts(bob.id), { followers: 1, following: 0 });
+        assert.deepEqual(await storage.getFollowingIds(alice.id), [bob.id]);
+        assert.equal(await storage.unfollowUser(alice.id, bob.id), true);
+        assert.equal(await storage.unfollowUser(alice.id, bob.id), false);
+      });
+    });
+
+    describe('memes and votes', () => {
+      it('pages a user\'s memes newest first', async () => {
+        const author = await createUser();
+        const memes = [await createMeme(author.id), await createMeme(author.id), await createMeme(author.id)];
+
+        const first = await storage.getMemesByUser(author.id, 2);
+        assert.deepEqual(first.items.map(meme => meme.id), [memes[2].id, memes[1].id]);
+        assert.ok(first.next);
+        const second = await storage.getMemesByUser(author.id, 2, first.next!);
+        assert.deepEqual(second.items.map(meme => meme.id), [memes[0].id]);
+        assert.equal(second.next, null);
+        assert.equal((await storage.getMeme(memes[0].id))?.author?.id, author.id);
+      });
+
+      it('keeps vote tallies in step with each voter\'s latest vote', async () => {
+        const author = await createUser();
+        const voter = await createUser();
+        const meme = await createMeme(author.id);
+
+        assert.equal(await storage.castVote(voter.id, 'meme', meme.id, 1), 0);
+        assert.equal(await storage.castVote(voter.id, 'meme', meme.id, -1), 1);
+        assert.equal(await storage.castVote(voter.id, 'meme', meme.id, -1), -1);
+        let current = await storage.getMeme(meme.id);
+        assert.deepEqual([current?.upvotes, current?.downvotes], [0, 1]);
+        assert.deepEqual(await storage.getUserVotes(voter.id, 'meme', [meme.id]), new Map([[meme.id, -1]]));
+
+        assert.equal(await storage.castVote(voter.id, 'meme', meme.id, 0), -1);
+        current = await storage.getMeme(meme.id);
+        assert.deepEqual([current?.upvotes, current?.downvotes], [0, 0]);
+      });
+
+      it('counts concurrent first votes once', async () => {
+        const author = await createUser();
+        const voter = await createUser();
+        const meme = await createMeme(author.id);
+
+        await Promise.all([
+          storage.castVote(voter.id, 'meme', meme.id, 1),
+          storage.castVote(voter.id, 'meme', meme.id, 1),
+          storage.castVote(voter.id, 'meme', meme.id, 1),
+        ]);
+        assert.equal((await storage.getMeme(meme.id))?.upvotes, 1);
+      });
+
+      it('refuses votes on missing and moderated items', async () => {
+        const author = await createUser();
+        const voter = await createUser();
+        const meme = await createMeme(author.id);
+        const comment = await storage.createComment({ memeId: meme.id, authorId: author.id, body: 'hidden soon', parentId: null });
+        const resource = await storage.createResource({ title: unique('resource'), category: 'tools', markdown: 'notes', createdBy: author.id });
+        await storage.setModerationStatus('comment', comment.id, 'hidden');
+        await storage.setModerationStatus('resource', resource.id, 'removed');
+
+        assert.equal(await storage.castVote(voter.id, 'comment', comment.id, 1), undefined);
+        assert.equal(await storage.castVote(voter.id, 'resource', resource.id, 1), undefined);
+        assert.equal(await storage.castVote(voter.id, 'meme', 2_000_000_000, 1), undefined);
+        assert.equal((await storage.getComment(comment.id))?.moderationStatus, 'hidden');
+        assert.equal((await storage.getComment(comment.id))?.upvotes, 0);
+        assert.equal((await storage.getResource(resource.id))?.votes, 0);
+        assert.deepEqual(await storage.getUserVotes(voter.id, 'comment', [comment.id]), new Map());
+      });
+
+      it('ranks a feed by id and returns memes in the order asked for', async () => {
+        const author = await createUser();
+        const voter = await createUser();
+        const [low, high, hidden] = [await createMeme(author.id), await createMeme(author.id), await createMeme(author.id)];
+        await storage.castVote(voter.id, 'meme', low.id, -1);
+        await storage.castVote(voter.id, 'meme', high.id, 1);
+        await storage.setModerationStatus('meme', hidden.id, 'hidden');
+
+        const ranking = await storage.getMemeRanking({ sort: 'top', followerId: voter.id, limit: 10 });
+        assert.deepEqual(ranking, []);
+        await storage.followUser(voter.id, author.id);
+        assert.deepEqual(await storage.getMemeRanking({ sort: 'top', followerId: voter.id, limit: 10 }), [high.id, low.id]);
+        assert.deepEqual(await storage.getMemeRanking({ sort: 'top', followerId: voter.id, limit: 1 }), [high.id]);
+
+        const memes = await storage.getMemesByIds([low.id, hidden.id, high.id]);
+        assert.deepEqual(memes.map(meme => meme.id), [low.id, high.id]);
+        assert.equal(memes[0].author?.id, author.id);
+        assert.deepEqual(await storage.getMemesByIds([]), []);
+      });
+
+      it('keeps feed snapshots until they are deleted', async () => {
+        const id = unique('snapshot');
+        const snapshot = await storage.createFeedSnapshot({ id, memeIds: [3, 1, 2] });
+        assert.deepEqual((await storage.getFeedSnapshot(id))?.memeIds, [3, 1, 2]);
+
+        assert.ok(await storage.deleteFeedSnapshots(new Date(snapshot.createdAt.getTime() + 1)) >= 1);
+        assert.equal(await storage.getFeedSnapshot(id), undefined);
+      });
+
+      it('moves moderated memes out of the feed', async () => {
+        const author = await createUser();
+        const meme = await createMeme(author.id);
+        assert.equal(await storage.setModerationStatus('meme', meme.id, 'removed'), true);
+
+        const feed = await storage.getMemesByUser(author.id, 10);
+        assert.equal(feed.items.some(item => item.id === meme.id), false);
+      });
+    });
+
+    describe('tags', () => {
+      it('tags memes and merges one tag into another', async () => {
+        const author = await createUser();
+        const meme = await createMeme(author.id);
+        const source = await storage.createTag({ slug: unique('src'), name: 'Source tag', createdBy: author.id });
+        const target = await storage.createTag({ slug: unique('dst'), name: 'Target tag', createdBy: author.id });
+        await storage.setMemeTags(meme.id, [source.id]);
+
+        assert.deepEqual((await storage.getMemeTags([meme.id])).get(meme.id)?.map(tag => tag.id), [source.id]);
+        assert.equal(await storage.mergeTags(source.id, target.id), 1);
+        assert.deepEqual((await storage.getMemeTags([meme.id])).get(meme.id)?.map(tag => tag.id), [target.id]);
+        assert.equal((await storage.getTag(source.id))?.aliasOf, target.id);
+        assert.equal(await storage.countTagMemes(target.id), 1);
+      });
+    });
+
+    describe('comments', () => {
+      it('lists a meme\'s comments and counts replies per thread', async () => {
+        const author = await createUser();
+        const meme = await createMeme(author.id);
+        const since = new Date(Date.now() - 1000);
+        const thread = await storage.createComment({ memeId: meme.id, authorId: author.id, body: 'top', parentId: null });
+        await storage.createComment({ memeId: meme.id, authorId: author.id, body: 'reply one', parentId: thread.id });
+        await storage.createComment({ memeId: meme.id, authorId: author.id, body: 'reply two', parentId: thread.id });
+
+        assert.equal((await storage.getComments(meme.id)).length, 3);
+        assert.equal(await storage.countComments(meme.id), 3);
+        const threads = await storage.getCommentThreads(since, 50);
+        assert.equal(threads.find(entry => entry.id === thread.id)?.replyCount, 2);
+      });
+
+      it('leaves threads under moderated memes out of the top threads', async () => {
+        const author = await createUser();
+        const since = new Date(Date.now() - 1000);
+        const meme = await createMeme(author.id);
+        const hiddenMeme = await createMeme(author.id);
+        const shown = await storage.createComment({ memeId: meme.id, authorId: author.id, body: 'shown', parentId: null });
+        const orphan = await storage.createComment({ memeId: hiddenMeme.id, authorId: author.id, body: 'orphaned', parentId: null });
+        await storage.setModerationStatus('meme', hiddenMeme.id, 'removed');
+
+        const ids = (await storage.getCommentThreads(since, 500)).map(thread => thread.id);
+        assert.ok(ids.includes(shown.id));
+        assert.equal(ids.includes(orphan.id), false);
+      });
+    });
+
+    describe('xp', () => {
+      // A level for every 20 XP
+      const levelFor = (xp: number) => 1 + Math.floor(xp / 20);
+
+      it('records events and totals them per reason', async () => {
+        const user = await createUser();
+        const since = new Date(Date.now() - 1000);
+        const cap = { daily: 100, since };
+        const first = await storage.recordXpEvent({ userId: user.id, reason: 'meme_posted', amount: 10, sourceType: 'meme', sourceId: 1 }, cap, levelFor);
+        await storage.recordXpEvent({ userId: user.id, reason: 'meme_posted', amount: 10, sourceType: 'meme', sourceId: 2 }, cap, levelFor);
+
+        assert.equal(first?.user.xp, 10);
+        assert.equal(await storage.getXpEarnedSince(user.id, 'meme_posted', since), 20);
+        assert.equal(await storage.getXpEarnedSince(user.id, 'comment_posted', since), 0);
+        assert.equal((await storage.getXpEvents(user.id)).length, 2);
+      });
+
+      it('trims awards to the daily cap, even when they arrive together', async () => {
+        const user = await createUser();
+        const cap = { daily: 25, since: new Date(Date.now() - 1000) };
+        const results = await Promise.all([1, 2, 3, 4].map(sourceId =>
+          storage.recordXpEvent({ userId: user.id, reason: 'comment_posted', amount: 10, sourceType: 'comment', sourceId }, cap, levelFor)
+        ));
+
+        assert.deepEqual(results.map(result => result?.event.amount ?? 0).sort(), [0, 10, 10, 5].sort());
+        assert.equal((await storage.getUser(user.id))?.xp, 25);
+      });
+
+      it('awards an actor\'s XP once per source', async () => {
+        const owner = await createUser();
+        const voter = await createUser();
+        const cap = { daily: 1000, since: new Date(Date.now() - 1000) };
+        const event = { userId: owner.id, reason: 'upvote_received' as const, amount: 5, sourceType: 'meme', sourceId: 7, actorId: voter.id };
+
+        assert.ok(await storage.recordXpEvent(event, cap, levelFor));
+        assert.equal(await storage.recordXpEvent(event, cap, levelFor), undefined);
+        assert.ok(await storage.recordXpEvent({ ...event, sourceId: 8 }, cap, levelFor));
+        assert.equal((await storage.getUser(owner.id))?.xp, 10);
+      });
+
+      it('sets the level with the XP, so each level is crossed by exactly one of several awards', async () => {
+        const user = await createUser();
+        const cap = { daily: 100, since: new Date(Date.now() - 1000) };
+        const results = await Promise.all([1, 2, 3, 4].map(sourceId =>
+          storage.recordXpEvent({ userId: user.id, reason: 'meme_posted', amount: 10, sourceType: 'meme', sourceId }, cap, levelFor)
+        ));
+
+        const crossings = results
+          .filter(result => result && result.user.level !== result.previousLevel)
+          .map(result => [result?.previousLevel, result?.user.level])
+          .sort();
+        assert.deepEqual(crossings, [[1, 2], [2, 3]]);
+        assert.deepEqual(results.map(result => result?.user.xp).sort(), [10, 20, 30, 40]);
+        assert.equal((await storage.getUser(user.id))?.level, 3);
+      });
+    });
+
+    describe('moderation', () => {
+      it('accepts one open report per reporter and item', async () => {
+        const author = await createUser();
+        const reporter = await createUser();
+        const meme = await createMeme(author.id);
+        const report = { reporterId: reporter.id, targetType: 'meme' as const, targetId: meme.id, reason: 'spam' as const };
+
+        assert.ok(await storage.createReport(report));
+        assert.equal(await storage.createReport(report), undefined);
+        assert.equal(await storage.countReports('meme', meme.id, 'open'), 1);
+        assert.equal(await storage.resolveReports('meme', meme.id, 'dismissed', null), 1);
+        assert.equal(await storage.countReports('meme', meme.id, 'open'), 0);
+      });
+
+      it('leaves moderated items and comments under moderated memes out of search', async () => {
+        const author = await createUser();
+        const term = `zq${run}x`;
+        const meme = await createMeme(author.id, `visible ${term}`);
+        const hiddenMeme = await createMeme(author.id, `hidden ${term}`);
+        const comment = await storage.createComment({ memeId: meme.id, authorId: author.id, body: `shown ${term}`, parentId: null });
+        const orphan = await storage.createComment({ memeId: hiddenMeme.id, authorId: author.id, body: `orphaned ${term}`, parentId: null });
+        await storage.setModerationStatus('meme', hiddenMeme.id, 'hidden');
+
+        const { total, hits } = await storage.search({ text: term, types: ['meme', 'comment'], limit: 10 });
+        assert.equal(total, 2);
+        assert.deepEqual(
+          hits.map(hit => `${hit.type}:${hit.id}`).sort(),
+          [`comment:${comment.id}`, `meme:${meme.id}`].sort(),
+        );
+        assert.equal(hits.some(hit => hit.type === 'comment' && hit.id === orphan.id), false);
+      });
+    });
+
+    describe('notifications', () => {
+      it('groups unread notifications about the same thing', async () => {
+        const owner = await createUser();
+        const alice = await createUser();
+        const bob = await createUser();
+        const meme = await createMeme(owner.id);
+        const event = { userId: owner.id, type: 'upvote' as const, targetType: 'meme' as const, targetId: meme.id };
+
+        await storage.addNotification({ ...event, actorId: alice.id });
+        const grouped = await storage.addNotification({ ...event, actorId: bob.id });
+        assert.equal(grouped.actorCount, 2);
+        assert.deepEqual(grouped.actorIds, [bob.id, alice.id]);
+        assert.equal(await storage.countUnreadNotifications(owner.id), 1);
+        assert.equal(await storage.markNotificationsRead(owner.id), 1);
+        assert.equal(await storage.countUnreadNotifications(owner.id), 0);
+
+        const fresh = await storage.addNotification({ ...event, actorId: alice.id });
+        assert.notEqual(fresh.id, grouped.id);
+      });
+    });
+
+    describe('newsletter', () => {
+      it('mails only confirmed subscribers', async () => {
+        const email = `${unique('reader')}@example.test`;
+        const pending = await storage.addNewsletterSubscriber(email);
+        assert.equal(pending.status, 'pending');
+        assert.equal((await storage.addNewsletterSubscriber(email)).id, pending.id);
+        assert.equal((await storage.getNewsletterSubscribers()).includes(email), false);
+
+        await storage.updateNewsletterSubscriber(pending.id, { status: 'subscribed', confirmedAt: new Date() });
+        assert.equal((await storage.getNewsletterSubscribers()).includes(email), true);
+      });
+
+      it('backfills subscribers from before double opt-in', async () => {
+        const [kept, left, signup] = await Promise.all([1, 2, 3].map(() => storage.addNewsletterSubscriber(`${unique('reader')}@example.test`)));
+        // What `db:push` leaves for rows that predate the status column
+        await storage.updateNewsletterSubscriber(kept.id, { status: 'subscribed' });
+        await storage.updateNewsletterSubscriber(left.id, { status: 'subscribed', unsubscribedAt: new Date() });
+
+        assert.ok(await storage.backfillNewsletterStatuses() >= 2);
+        const [keptAfter, leftAfter, signupAfter] = await Promise.all(
+          [kept, left, signup].map(subscriber => storage.getNewsletterSubscriber(subscriber.email)),
+        );
+        assert.equal(keptAfter?.status, 'subscribed');
+        assert.equal(keptAfter?.confirmedAt?.getTime(), kept.createdAt?.getTime());
+        assert.equal(leftAfter?.status, 'unsubscribed');
+        assert.ok(leftAfter?.confirmedAt);
+        assert.equal(signupAfter?.status, 'pending');
+        assert.equal(signupAfter?.confirmedAt, null);
+        assert.equal(await storage.backfillNewsletterStatuses(), 0);
+      });
+
+      it('logs sends per batch', async () => {
+        const batch = unique('batch');
+        await storage.logEmailSend({ kind: 'weekly_digest', batch, recipient: 'a@example.test', subject: 'Digest', status: 'sent' });
+        await storage.logEmailSend({ kind: 'weekly_digest', batch, recipient: 'b@example.test', subject: 'Digest', status: 'failed', error: 'bounced' });
+
+        assert.deepEqual(await storage.getSentRecipients('weekly_digest', batch), ['a@example.test']);
+        assert.equal((await storage.getEmailSends({ batch, limit: 10 })).length, 2);
+      });
+
+      it('replaces a pending sync job and rejects stale updates', async () => {
+        const email = `${unique('reader')}@example.test`;
+        const memberHash = unique('hash');
+        const first = await storage.queueNewsletterSync({ email, memberHash, action: 'subscribe' });
+        const second = await storage.queueNewsletterSync({ email, memberHash, action: 'unsubscribe' });
+
+        assert.equal(second.id, first.id);
+        assert.equal(second.revision, first.revision + 1);
+        assert.equal(second.action, 'unsubscribe');
+        assert.equal(await storage.updateNewsletterSyncJob(first.id, first.revision, { status: 'done' }), false);
+        assert.equal((await storage.getPendingNewsletterSync(memberHash))?.id, first.id);
+        assert.equal(await storage.updateNewsletterSyncJob(second.id, second.revision, { status: 'done' }), true);
+        assert.equal(await storage.getPendingNewsletterSync(memberHash), undefined);
+      });
+
+      it('prunes finished sync jobs but keeps failed ones', async () => {
+        const queue = (action: 'subscribe' | 'unsubscribe') =>
+          storage.queueNewsletterSync({ email: `${unique('reader')}@example.test`, memberHash: unique('hash'), action });
+        const [done, failed] = [await queue('subscribe'), await queue('unsubscribe')];
+        await storage.updateNewsletterSyncJob(done.id, done.revision, { status: 'done' });
+        await storage.updateNewsletterSyncJob(failed.id, failed.revision, { status: 'failed' });
+        const before = await storage.getNewsletterSyncStats();
+
+        assert.ok(await storage.pruneNewsletterSyncJobs(new Date(Date.now() + 1000)) >= 1);
+        const after = await storage.getNewsletterSyncStats();
+        assert.equal(after.done, 0);
+        assert.equal(after.failed, before.failed);
+      });
+    });
+  });
+}
+
+storageContract('MemStorage', async () => ({ storage: new MemStorage() }));
+
+if (process.env.DATABASE_URL) {
+  storageContract('DatabaseStorage', async () => {
+    const { pool, db } = connectDatabase();
+    return { storage: new DatabaseStorage(db), close: () => pool.end() };
+  });
+}
@@ -1,79 +1,399 @@
 import { 
-  users, type User, type InsertUser,
-  memes, type Meme, type InsertMeme,
-  comments, type Comment, type InsertComment,
-  gameSessions, type GameSession, type InsertGameSession,
-  resources, type Resource, type InsertResource
+  users, type User, type InsertUser, type UserRole, type UserKarma,
+  authTokens, type AuthToken, type AuthTokenPurpose,
+  userIdentities, type UserIdentity, type OAuthProvider,
+  roleChanges, type RoleChange,
+  follows, type Follow, type FollowCounts,
+  memes, type Meme, type InsertMeme, type MemeAuthor, type MemeWithAuthor,
+  feedSnapshots, type FeedSnapshot,
+  memeTemplates, type MemeTemplate, type InsertMemeTemplate, type MemeTemplateStats,
+  tags, type Tag, type InsertTag, type TagWithCount,
+  comments, type Comment, type InsertComment, type CommentThread,
+  gameSessions, type GameSession, type InsertGameSession, type GameLeaderboardEntry,
+  resources, type Resource, type InsertResource,
+  votes, type Vote, type VoteTargetType, type VoteValue,
+  xpEvents, type XpEvent, type InsertXpEvent, type XpReason,
+  reports, type Report, type InsertReport, type ReportTargetType, type ReportStatus, type ReportQueueEntry,
+  moderationActions, type ModerationAction, type InsertModerationAction, type ModerationStatus,
+  notifications, type Notification, type NotificationType, type NotificationTargetType,
+  newsletterSubscribers, type NewsletterSubscriber,
+  newsletterSyncJobs, type NewsletterSyncJob, type NewsletterSyncAction, type NewsletterSyncStats,
+  emailSends, type EmailSend, type InsertEmailSend, type EmailKind,
+  type SearchHit, type SearchTargetType
 } from "@shared/schema";
+import { connectDatabase } from "./db";
+import { DatabaseStorage } from "./databaseStorage";
+import { SearchIndex } from "./searchIndex";
+import { feedScore, hotScore, rankingCutoff, wilsonScore, type MemeSort, type TopWindow } from "./ranking";
+import { isAfter, toPage, type Page, type PagePosition } from "./pagination";
+
+// Leaderboards rank each user's best completed session that ended after `since`
+export interface GameLeaderboardQuery {
+  since?: Date;
+  // Rank only these users, e.g. the caller and the people they follow
+  userIds?: number[];
+  limit: number;
+  offset?: number;
+}
+
+// Moderation queue page - reports with `status`, grouped per reported item
+export interface ReportQueueQuery {
+  status: ReportStatus;
+  targetType?: ReportTargetType;
+  limit: number;
+  offset?: number;
+}
+
+// Full-text search over visible memes, comments and resources; every word in `text` must match
+export interface SearchQuery {
+  text: string;
+  types: readonly SearchTargetType[];
+  limit: number;
+  offset?: number;
+}
+
+// One page of the meme feed; `window` only applies to the 'top' sort
+export interface MemeFeedQuery {
+  sort: MemeSort;
+  window?: TopWindow;
+  tagId?: number;
+  // Only memes by authors this user follows
+  followerId?: number;
+  // Snapshot time shared by every page of a feed: later posts are left out,
+  // and windows and `rising` are measured from it
+  asOf?: Date;
+  after?: PagePosition;
+  limit: number;
+}
+
+// Resources ordered by votes; positions use the vote count as their score
+export interface ResourceQuery {
+  category?: string;
+  // Only resources added after this
+  since?: Date;
+  after?: PagePosition;
+  limit: number;
+}
+
+// Something that happened to one of `userId`'s items, caused by `actorId`
+export interface NotificationEvent {
+  userId: number;
+  type: NotificationType;
+  targetType: NotificationTargetType;
+  targetId: number;
+  actorId: number;
+}
+
+// Newest activity first; positions use the last update time (ms) as their score
+export interface NotificationQuery {
+  unreadOnly?: boolean;
+  after?: PagePosition;
+  limit: number;
+}
+
+// Actor ids kept per notification group, for "alice, bob and 10 others"
+export const MAX_NOTIFICATION_ACTORS = 20;
+
+// Canonical tags (never aliases) for tag pages and suggestions
+export interface TagQuery {
+  // Matches the start of the slug or the display name
+  prefix?: string;
+  curatedOnly?: boolean;
+  sort: 'popular' | 'name';
+  limit: number;
+  offset?: number;
+}
 
 // Interface for storage operations
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  // Case-insensitive, as accounts from before addresses were stored lowercase may hold capitals
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, data: Partial<User>): Promise<User>;
+  // Clear the verified flag that an earlier column default gave accounts from before verification
+  // existed, unless the owner has since proven the address; returns accounts updated
+  backfillLegacyAccounts(): Promise<number>;
+  getUserKarma(userId: number): Promise<UserKarma>;
+  
+  // Linked OAuth accounts
+  getUserIdentity(provider: OAuthProvider, providerId: string): Promise<UserIdentity | undefined>;
+  getUserIdentities(userId: number): Promise<UserIdentity[]>;
+  // Undefined when the provider account is linked already, or the user already has one from that provider
+  linkUserIdentity(identity: { userId: number; provider: OAuthProvider; providerId: string; email?: string | null }): Promise<UserIdentity | undefined>;
+  // Returns false when the user had no account of that provider linked
+  unlinkUserIdentity(userId: number, provider: OAuthProvider): Promise<boolean>;
+  
+  // Emailed one-time tokens, looked up by the hash of the token
+  createAuthToken(token: { userId: number; purpose: AuthTokenPurpose; tokenHash: string; expiresAt: Date }): Promise<AuthToken>;
+  // Marks an unused, unexpired token used and returns it; undefined if there is no such token
+  consumeAuthToken(purpose: AuthTokenPurpose, tokenHash: string, now?: Date): Promise<AuthToken | undefined>;
+  // Marks every outstanding token of the purpose used; returns how many there were
+  revokeAuthTokens(userId: number, purpose: AuthTokenPurpose): Promise<number>;
+  // Unused tokens of the purpose issued at or after `since`
+  countAuthTokensSince(userId: number, purpose: AuthTokenPurpose, since: Date): Promise<number>;
+  
+  // Role operations
+  getUsersByRole(role: UserRole): Promise<User[]>;
+  setUserRole(userId: number, role: UserRole, change: { actorId: number | null; reason?: string | null }): Promise<{ user: User; change: RoleChange } | undefined>;
+  getRoleChanges(options: { userId?: number; limit: number }): Promise<RoleChange[]>;
+  
+  // Follow operations - follow/unfollow return false when nothing changed
+  followUser(followerId: number, followeeId: number): Promise<boolean>;
+  unfollowUser(followerId: number, followeeId: number): Promise<boolean>;
+  isFollowing(followerId: number, followeeId: number): Promise<boolean>;
+  getFollowCounts(userId: number): Promise<FollowCounts>;
+  getFollowerIds(userId: number): Promise<number[]>;
+  getFollowingIds(userId: number): Promise<number[]>;
   
   // Meme operations
-  getMemes(limit: number, offset: number, sortBy?: string): Promise<Meme[]>;
-  getMemesByUser(userId: number, limit?: number, offset?: number): Promise<Meme[]>;
-  getMeme(id: number): Promise<Meme | undefined>;
+  getMemes(query: MemeFeedQuery): Promise<Page<MemeWithAuthor>>;
+  // Ids of the first `limit` memes of a feed, in feed order
+  getMemeRanking(query: Omit<MemeFeedQuery, 'after'>): Promise<number[]>;
+  // The memes among `ids` that are still visible, in the order given
+  getMemesByIds(ids: number[]): Promise<MemeWithAuthor[]>;
+  // Newest first; positions use the meme id as their score
+  getMemesByUser(userId: number, limit: number, after?: PagePosition): Promise<Page<MemeWithAuthor>>;
+  getMeme(id: number): Promise<MemeWithAuthor | undefined>;
   createMeme(meme: InsertMeme): Promise<Meme>;
-  voteMeme(id: number, userId: number, vote: 'up' | 'down'): Promise<Meme>;
+  // Fill in stored ranking scores for rows created before they existed; returns rows updated
+  refreshRankingScores(): Promise<number>;
+  
+  // Feed snapshot operations
+  createFeedSnapshot(snapshot: { id: string; memeIds: number[] }): Promise<FeedSnapshot>;
+  getFeedSnapshot(id: string): Promise<FeedSnapshot | undefined>;
+  // Drop snapshots taken before `before`; returns how many went
+  deleteFeedSnapshots(before: Date): Promise<number>;
+  
+  // Meme template operations
+  getMemeTemplates(): Promise<MemeTemplate[]>;
+  getMemeTemplate(id: number): Promise<MemeTemplate | undefined>;
+  createMemeTemplate(template: InsertMemeTemplate): Promise<MemeTemplate>;
+  getMemeTemplateStats(recentSince: Date): Promise<MemeTemplateStats[]>;
+  
+  // Tag operations
+  getTag(id: number): Promise<Tag | undefined>;
+  getTagBySlug(slug: string): Promise<Tag | undefined>;
+  getTagsBySlugs(slugs: string[]): Promise<Tag[]>;
+  getTags(query: TagQuery): Promise<TagWithCount[]>;
+  getTagAliases(tagId: number): Promise<Tag[]>;
+  countTagMemes(tagId: number): Promise<number>;
+  createTag(tag: InsertTag): Promise<Tag>;
+  updateTag(id: number, data: Partial<InsertTag>): Promise<Tag | undefined>;
+  getMemeTags(memeIds: number[]): Promise<Map<number, Tag[]>>;
+  setMemeTags(memeId: number, tagIds: number[]): Promise<void>;
+  mergeTags(sourceId: number, targetId: number): Promise<number>;
   
   // Comment operations
-  getComments(memeId: number): Promise<Comment[]>;
+  // `maxId` pins a snapshot so comments posted while paging through a thread are left out
+  getComments(memeId: number, maxId?: number): Promise<Comment[]>;
+  getComment(id: number): Promise<Comment | undefined>;
+  // Newest first
+  getCommentsByUser(userId: number, limit: number): Promise<Comment[]>;
+  countComments(memeId: number): Promise<number>;
+  // Visible top-level comments on visible memes posted since `since`, most direct replies (then net votes) first
+  getCommentThreads(since: Date, limit: number): Promise<CommentThread[]>;
   createComment(comment: InsertComment): Promise<Comment>;
-  voteComment(id: number, userId: number, vote: 'up'): Promise<Comment>;
   
   // Game session operations
   getGameSessions(userId: number, limit?: number): Promise<GameSession[]>;
   getGameSession(id: number): Promise<GameSession | undefined>;
   createGameSession(session: InsertGameSession): Promise<GameSession>;
   updateGameSession(id: number, data: Partial<GameSession>): Promise<GameSession>;
+  getGameLeaderboard(options: GameLeaderboardQuery): Promise<GameLeaderboardEntry[]>;
+  getGameLeaderboardEntry(userId: number, options: Pick<GameLeaderboardQuery, 'since' | 'userIds'>): Promise<GameLeaderboardEntry | undefined>;
   
   // Resource operations
-  getResources(category?: string): Promise<Resource[]>;
+  getResources(query: ResourceQuery): Promise<Page<Resource>>;
   getResource(id: number): Promise<Resource | undefined>;
   createResource(resource: InsertResource): Promise<Resource>;
-  voteResource(id: number, userId: number, vote: 'up' | 'down'): Promise<Resource>;
   
-  // Newsletter operations
-  addNewsletterSubscriber(email: string): Promise<boolean>;
+  // Vote operations
+  getUserVotes(userId: number, targetType: VoteTargetType, targetIds: number[]): Promise<Map<number, VoteValue>>;
+  // Returns the caller's previous vote, or undefined without voting if the item is missing or moderated
+  castVote(userId: number, targetType: VoteTargetType, targetId: number, value: VoteValue): Promise<VoteValue | undefined>;
+  
+  // XP operations
+  // Records the event trimmed to what is left of `cap.daily` since `cap.since` and sets the user's level
+  // from their new total, checked and written as one step. Undefined when the cap is used up or the event's
+  // actor already earned the user XP for its source.
+  recordXpEvent(
+    event: InsertXpEvent,
+    cap: { daily: number; since: Date },
+    levelFor: (xp: number) => number,
+  ): Promise<{ event: XpEvent; user: User; previousLevel: number } | undefined>;
+  getXpEarnedSince(userId: number, reason: XpReason, since: Date): Promise<number>;
+  getXpEvents(userId: number, limit?: number): Promise<XpEvent[]>;
+  
+  // Moderation operations
+  createReport(report: InsertReport): Promise<Report | undefined>;
+  getReports(targetType: ReportTargetType, targetId: number, status?: ReportStatus): Promise<Report[]>;
+  countReports(targetType: ReportTargetType, targetId: number, status: ReportStatus): Promise<number>;
+  getReportQueue(query: ReportQueueQuery): Promise<ReportQueueEntry[]>;
+  resolveReports(targetType: ReportTargetType, targetId: number, status: ReportStatus, resolvedBy: number | null): Promise<number>;
+  setModerationStatus(targetType: ReportTargetType, targetId: number, status: ModerationStatus): Promise<boolean>;
+  recordModerationAction(action: InsertModerationAction): Promise<ModerationAction>;
+  getModerationActions(targetType: ReportTargetType, targetId: number): Promise<ModerationAction[]>;
+  
+  // Search operations
+  search(query: SearchQuery): Promise<{ total: number; hits: SearchHit[] }>;
+  
+  // Notification operations
+  // Joins the recipient's unread notification about the same thing, or starts a new one
+  addNotification(event: NotificationEvent): Promise<Notification>;
+  getNotifications(userId: number, query: NotificationQuery): Promise<Page<Notification>>;
+  countUnreadNotifications(userId: number): Promise<number>;
+  // Marks the given notifications, or all of them, read; returns how many changed
+  markNotificationsRead(userId: number, ids?: number[]): Promise<number>;
+  
+  // Newsletter operations - add returns the existing row, or a new 'pending' one
+  addNewsletterSubscriber(email: string): Promise<NewsletterSubscriber>;
+  // Confirmed addresses that haven't unsubscribed
   getNewsletterSubscribers(): Promise<string[]>;
+  getNewsletterSubscriber(email: string): Promise<NewsletterSubscriber | undefined>;
+  updateNewsletterSubscriber(id: number, data: Partial<NewsletterSubscriber>): Promise<NewsletterSubscriber>;
+  // Give rows from before double opt-in the status their unsubscribe time implies and count them as
+  // confirmed when they signed up; returns rows updated
+  backfillNewsletterStatuses(): Promise<number>;
+  
+  // Email send log
+  logEmailSend(send: InsertEmailSend): Promise<EmailSend>;
+  // Recipients with a successful send in the batch
+  getSentRecipients(kind: EmailKind, batch: string): Promise<string[]>;
+  // Newest first
+  getEmailSends(query: { kind?: EmailKind; batch?: string; limit: number }): Promise<EmailSend[]>;
+  
+  // Newsletter provider outbox - queueing replaces any pending job for the same member
+  queueNewsletterSync(job: { email: string; memberHash: string; action: NewsletterSyncAction }): Promise<NewsletterSyncJob>;
+  // Pending jobs whose next attempt is due, longest waiting first
+  getDueNewsletterSyncJobs(now: Date, limit: number): Promise<NewsletterSyncJob[]>;
+  getPendingNewsletterSync(memberHash: string): Promise<NewsletterSyncJob | undefined>;
+  // Only applies while the job is still at `revision`; false when a newer change was queued over it
+  updateNewsletterSyncJob(id: number, revision: number, data: Partial<NewsletterSyncJob>): Promise<boolean>;
+  // Drop jobs that finished before `before`; failed ones stay for an admin to look at. Returns how many went.
+  pruneNewsletterSyncJobs(before: Date): Promise<number>;
+  getNewsletterSyncStats(): Promise<NewsletterSyncStats>;
+}
+
+// Public author fields attached to memes in feed responses
+export function memeAuthor(author: User | undefined): MemeAuthor | null {
+  return author ? {
+    id: author.id,
+    username: author.username,
+    level: author.level || 1,
+    avatar: author.avatar,
+    title: 'Designer' // Default title
+  } : null;
+}
+
+// Counter changes when a user's vote moves from `previous` to `value`
+export function voteTallyDelta(previous: VoteValue, value: VoteValue): { up: number; down: number } {
+  return {
+    up: (value === 1 ? 1 : 0) - (previous === 1 ? 1 : 0),
+    down: (value === -1 ? 1 : 0) - (previous === -1 ? 1 : 0),
+  };
+}
+
+function timeOf(date: Date | null): number {
+  return date ? new Date(date).getTime() : 0;
+}
+
+// Higher score wins, then more sanity left, then whoever finished first
+function compareLeaderboardSessions(a: GameSession, b: GameSession): number {
+  return (b.score ?? 0) - (a.score ?? 0)
+    || (b.sanityLeft ?? 0) - (a.sanityLeft ?? 0)
+    || timeOf(a.endedAt) - timeOf(b.endedAt)
+    || a.id - b.id;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private authTokens: Map<number, AuthToken>;
+  private userIdentities: Map<number, UserIdentity>;
   private memes: Map<number, Meme>;
+  private feedSnapshots: Map<string, FeedSnapshot>;
+  private memeTemplates: Map<number, MemeTemplate>;
+  private tags: Map<number, Tag>;
+  private memeTags: Map<number, Set<number>>;
   private comments: Map<number, Comment>;
   private gameSessions: Map<number, GameSession>;
   private resources: Map<number, Resource>;
-  private newsletterSubscribers: Set<string>;
+  private newsletterSubscribers: Map<string, NewsletterSubscriber>;
+  private emailSends: Map<number, EmailSend>;
+  private newsletterSyncJobs: Map<number, NewsletterSyncJob>;
   
-  private userVotes: Map<string, 'up' | 'down'>;
+  private votes: Map<string, Vote>;
+  private xpEvents: Map<number, XpEvent>;
+  private reports: Map<number, Report>;
+  private moderationActions: Map<number, ModerationAction>;
+  private roleChanges: Map<number, RoleChange>;
+  private follows: Map<string, Follow>;
+  private notifications: Map<number, Notification>;
+  private searchIndex: SearchIndex;
   
   private userId: number;
+  private authTokenId: number;
+  private userIdentityId: number;
   private memeId: number;
+  private memeTemplateId: number;
+  private tagId: number;
   private commentId: number;
   private gameSessionId: number;
   private resourceId: number;
+  private voteId: number;
+  private xpEventId: number;
+  private reportId: number;
+  private moderationActionId: number;
+  private roleChangeId: number;
+  private notificationId: number;
+  private newsletterSubscriberId: number;
+  private emailSendId: number;
+  private newsletterSyncJobId: number;
 
   constructor() {
     this.users = new Map();
+    this.authTokens = new Map();
+    this.userIdentities = new Map();
     this.memes = new Map();
+    this.feedSnapshots = new Map();
+    this.memeTemplates = new Map();
+    this.tags = new Map();
+    this.memeTags = new Map();
     this.comments = new Map();
     this.gameSessions = new Map();
     this.resources = new Map();
-    this.userVotes = new Map();
-    this.newsletterSubscribers = new Set();
+    this.votes = new Map();
+    this.xpEvents = new Map();
+    this.reports = new Map();
+    this.moderationActions = new Map();
+    this.follows = new Map();
+    this.notifications = new Map();
+    this.roleChanges = new Map();
+    this.searchIndex = new SearchIndex();
+    this.newsletterSubscribers = new Map();
+    this.emailSends = new Map();
+    this.newsletterSyncJobs = new Map();
     
     this.userId = 1;
+    this.authTokenId = 1;
+    this.userIdentityId = 1;
     this.memeId = 1;
+    this.memeTemplateId = 1;
+    this.tagId = 1;
     this.commentId = 1;
     this.gameSessionId = 1;
     this.resourceId = 1;
+    this.voteId = 1;
+    this.xpEventId = 1;
+    this.reportId = 1;
+    this.moderationActionId = 1;
+    this.roleChangeId = 1;
+    this.notificationId = 1;
+    this.newsletterSubscriberId = 1;
+    this.emailSendId = 1;
+    this.newsletterSyncJobId = 1;
     
     // Add some initial resources
     this.seedResources();
@@ -91,8 +411,9 @@ export class MemStorage implements IStorage {
   }
   
   async getUserByEmail(email: string): Promise<User | undefined> {
+    const address = email.toLowerCase();
     return Array.from(this.users.values()).find(
-      (user) => user.email === email,
+      (user) => user.email.toLowerCase() === address,
     );
   }
   
@@ -111,6 +432,12 @@ export class MemStorage implements IStorage {
       refreshToken: insertUser.refreshToken || null,
       level: 1, 
       xp: 0,
+      role: 'user',
+      notificationPreferences: {},
+      emailVerified: insertUser.emailVerified ?? false,
+      legacyAccount: false,
+      emailVerificationSentAt: null,
+      sessionVersion: 0,
       createdAt: now,
       updatedAt: now
     };
@@ -134,166 +461,502 @@ export class MemStorage implements IStorage {
     return updatedUser;
   }
   
-  // Meme operations
-  async getMemes(limit: number = 10, offset: number = 0, sortBy: string = 'hot'): Promise<Meme[]> {
-    let memes = Array.from(this.memes.values());
-    
-    // Apply sorting
-    if (sortBy === 'new') {
-      memes.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-    } else if (sortBy === 'top') {
-      memes.sort((a, b) => (b.upvotes - b.downvotes) - (a.upvotes - a.downvotes));
-    } else {
-      // 'hot' - combination of new and popularity
-      memes.sort((a, b) => {
-        const aScore = (b.upvotes - b.downvotes) + new Date(b.createdAt).getTime() / 1000000;
-        const bScore = (a.upvotes - a.downvotes) + new Date(a.createdAt).getTime() / 1000000;
-        return aScore - bScore;
-      });
-    }
+  async backfillLegacyAccounts(): Promise<number> {
+    // Proving the address means asking for a link or logging in through a provider, which leaves a
+    // send time or a linked identity behind
+    const linked = new Set(Array.from(this.userIdentities.values()).map(identity => identity.userId));
+    let updated = 0;
+    this.users.forEach(user => {
+      if (!user.legacyAccount || !user.emailVerified || user.emailVerificationSentAt || linked.has(user.id)) return;
+      user.emailVerified = false;
+      updated++;
+    });
+    return updated;
+  }
+  
+  async getUserKarma(userId: number): Promise<UserKarma> {
+    const karma: UserKarma = { memeCount: 0, memeKarma: 0, commentCount: 0, commentKarma: 0 };
+    this.memes.forEach(meme => {
+      if (meme.authorId !== userId || meme.moderationStatus !== 'visible') return;
+      karma.memeCount++;
+      karma.memeKarma += (meme.upvotes ?? 0) - (meme.downvotes ?? 0);
+    });
+    this.comments.forEach(comment => {
+      if (comment.authorId !== userId || comment.moderationStatus !== 'visible') return;
+      karma.commentCount++;
+      karma.commentKarma += (comment.upvotes ?? 0) - (comment.downvotes ?? 0);
+    });
+    return karma;
+  }
+  
+  // Linked identity operations
+  async getUserIdentity(provider: OAuthProvider, providerId: string): Promise<UserIdentity | undefined> {
+    return Array.from(this.userIdentities.values()).find(
+      identity => identity.provider === provider && identity.providerId === providerId
+    );
+  }
+  
+  async getUserIdentities(userId: number): Promise<UserIdentity[]> {
+    return Array.from(this.userIdentities.values())
+      .filter(identity => identity.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async linkUserIdentity(identity: { userId: number; provider: OAuthProvider; providerId: string; email?: string | null }): Promise<UserIdentity | undefined> {
+    const taken = Array.from(this.userIdentities.values()).some(existing =>
+      existing.provider === identity.provider &&
+      (existing.providerId === identity.providerId || existing.userId === identity.userId)
+    );
+    if (taken) return undefined;
     
-    // Get paginated memes
-    const paginatedMemes = memes.slice(offset, offset + limit);
-    
-    // Attach author data to each meme
-    const memesWithAuthors = await Promise.all(paginatedMemes.map(async (meme) => {
-      const author = await this.getUser(meme.authorId);
-      return {
-        ...meme,
-        author: author ? {
-          id: author.id,
-          username: author.username,
-          level: author.level || 1,
-          avatar: author.avatar,
-          title: 'Designer' // Default title
-        } : null
-      };
-    }));
+    const id = this.userIdentityId++;
+    const userIdentity: UserIdentity = {
+      id,
+      userId: identity.userId,
+      provider: identity.provider,
+      providerId: identity.providerId,
+      email: identity.email ?? null,
+      createdAt: new Date()
+    };
+    this.userIdentities.set(id, userIdentity);
+    return userIdentity;
+  }
+  
+  async unlinkUserIdentity(userId: number, provider: OAuthProvider): Promise<boolean> {
+    const identity = Array.from(this.userIdentities.values()).find(
+      identity => identity.userId === userId && identity.provider === provider
+    );
+    return identity ? this.userIdentities.delete(identity.id) : false;
+  }
+  
+  // Auth token operations
+  async createAuthToken(token: { userId: number; purpose: AuthTokenPurpose; tokenHash: string; expiresAt: Date }): Promise<AuthToken> {
+    const id = this.authTokenId++;
+    const authToken: AuthToken = {
+      id,
+      userId: token.userId,
+      purpose: token.purpose,
+      tokenHash: token.tokenHash,
+      expiresAt: token.expiresAt,
+      usedAt: null,
+      createdAt: new Date()
+    };
+    this.authTokens.set(id, authToken);
+    return authToken;
+  }
+  
+  async consumeAuthToken(purpose: AuthTokenPurpose, tokenHash: string, now: Date = new Date()): Promise<AuthToken | undefined> {
+    const token = Array.from(this.authTokens.values()).find(token => token.tokenHash === tokenHash);
+    if (!token || token.purpose !== purpose || token.usedAt || token.expiresAt <= now) return undefined;
     
-    return memesWithAuthors;
+    const used = { ...token, usedAt: now };
+    this.authTokens.set(token.id, used);
+    return used;
   }
   
-  async getMemesByUser(userId: number, limit: number = 10, offset: number = 0): Promise<Meme[]> {
-    let memes = Array.from(this.memes.values()).filter(meme => meme.authorId === userId);
+  async revokeAuthTokens(userId: number, purpose: AuthTokenPurpose): Promise<number> {
+    const now = new Date();
+    let revoked = 0;
+    this.authTokens.forEach(token => {
+      if (token.userId !== userId || token.purpose !== purpose || token.usedAt) return;
+      this.authTokens.set(token.id, { ...token, usedAt: now });
+      revoked++;
+    });
+    return revoked;
+  }
+  
+  async countAuthTokensSince(userId: number, purpose: AuthTokenPurpose, since: Date): Promise<number> {
+    return Array.from(this.authTokens.values()).filter(token =>
+      token.userId === userId && token.purpose === purpose && !token.usedAt && timeOf(token.createdAt) >= since.getTime()).length;
+  }
+  
+  // Role operations
+  async getUsersByRole(role: UserRole): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter(user => user.role === role)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async setUserRole(userId: number, role: UserRole, { actorId, reason }: { actorId: number | null; reason?: string | null }): Promise<{ user: User; change: RoleChange } | undefined> {
+    const user = await this.getUser(userId);
+    if (!user) return undefined;
     
-    // Sort by newest first for user's own posts
-    memes.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    const id = this.roleChangeId++;
+    const change: RoleChange = {
+      id,
+      actorId,
+      userId,
+      previousRole: user.role,
+      newRole: role,
+      reason: reason ?? null,
+      createdAt: new Date()
+    };
+    this.roleChanges.set(id, change);
     
-    // Get paginated memes
-    const paginatedMemes = memes.slice(offset, offset + limit);
+    return { user: await this.updateUser(userId, { role }), change };
+  }
+  
+  async getRoleChanges({ userId, limit }: { userId?: number; limit: number }): Promise<RoleChange[]> {
+    return Array.from(this.roleChanges.values())
+      .filter(change => userId === undefined || change.userId === userId)
+      .sort((a, b) => timeOf(b.createdAt) - timeOf(a.createdAt) || b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  // Follow operations
+  async followUser(followerId: number, followeeId: number): Promise<boolean> {
+    const key = `${followerId}:${followeeId}`;
+    if (this.follows.has(key)) return false;
+    this.follows.set(key, { followerId, followeeId, createdAt: new Date() });
+    return true;
+  }
+  
+  async unfollowUser(followerId: number, followeeId: number): Promise<boolean> {
+    return this.follows.delete(`${followerId}:${followeeId}`);
+  }
+  
+  async isFollowing(followerId: number, followeeId: number): Promise<boolean> {
+    return this.follows.has(`${followerId}:${followeeId}`);
+  }
+  
+  async getFollowCounts(userId: number): Promise<FollowCounts> {
+    return {
+      followers: (await this.getFollowerIds(userId)).length,
+      following: (await this.getFollowingIds(userId)).length,
+    };
+  }
+  
+  async getFollowerIds(userId: number): Promise<number[]> {
+    return Array.from(this.follows.values())
+      .filter(follow => follow.followeeId === userId)
+      .map(follow => follow.followerId);
+  }
+  
+  async getFollowingIds(userId: number): Promise<number[]> {
+    return Array.from(this.follows.values())
+      .filter(follow => follow.followerId === userId)
+      .map(follow => follow.followeeId);
+  }
+  
+  // Meme operations
+  async getMemes(query: MemeFeedQuery): Promise<Page<MemeWithAuthor>> {
+    const { memes, positionOf } = await this.rankMemes(query);
+    const following = memes.filter(meme => isAfter(positionOf(meme), query.after));
     
-    // Attach author data to each meme
-    const memesWithAuthors = await Promise.all(paginatedMemes.map(async (meme) => {
-      const author = await this.getUser(meme.authorId);
-      return {
-        ...meme,
-        author: author ? {
-          id: author.id,
-          username: author.username,
-          level: author.level || 1,
-          avatar: author.avatar,
-          title: 'Designer' // Default title
-        } : null
-      };
-    }));
+    const page = toPage(following.slice(0, query.limit + 1), query.limit, positionOf);
+    return { ...page, items: await this.withAuthors(page.items) };
+  }
+  
+  async getMemeRanking(query: Omit<MemeFeedQuery, 'after'>): Promise<number[]> {
+    const { memes } = await this.rankMemes(query);
+    return memes.slice(0, query.limit).map(meme => meme.id);
+  }
+  
+  // Every meme a feed lists, in feed order
+  private async rankMemes({ sort, window = 'all', tagId, followerId, asOf = new Date() }: Omit<MemeFeedQuery, 'after' | 'limit'>) {
+    const cutoff = rankingCutoff(sort, window, asOf);
+    const positionOf = (meme: Meme) => ({ score: feedScore(meme, sort, asOf), id: meme.id });
+    const followed = followerId !== undefined ? new Set(await this.getFollowingIds(followerId)) : undefined;
+    
+    const memes = Array.from(this.memes.values())
+      .filter(meme => meme.moderationStatus === 'visible'
+        && timeOf(meme.createdAt) <= asOf.getTime()
+        && (!cutoff || timeOf(meme.createdAt) >= cutoff.getTime())
+        && (tagId === undefined || this.memeTags.get(meme.id)?.has(tagId))
+        && (!followed || (meme.authorId !== null && followed.has(meme.authorId))))
+      .sort((a, b) => positionOf(b).score - positionOf(a).score || b.id - a.id);
+    return { memes, positionOf };
+  }
+  
+  async getMemesByIds(ids: number[]): Promise<MemeWithAuthor[]> {
+    const memes = ids
+      .map(id => this.memes.get(id))
+      .filter((meme): meme is Meme => meme?.moderationStatus === 'visible');
+    return this.withAuthors(memes);
+  }
+  
+  async getMemesByUser(userId: number, limit: number, after?: PagePosition): Promise<Page<MemeWithAuthor>> {
+    const positionOf = (meme: Meme) => ({ score: meme.id, id: meme.id });
+    const memes = Array.from(this.memes.values())
+      .filter(meme => meme.authorId === userId && meme.moderationStatus === 'visible' && isAfter(positionOf(meme), after))
+      .sort((a, b) => b.id - a.id);
     
-    return memesWithAuthors;
+    const page = toPage(memes.slice(0, limit + 1), limit, positionOf);
+    return { ...page, items: await this.withAuthors(page.items) };
   }
   
-  async getMeme(id: number): Promise<Meme | undefined> {
+  // Attach author data to each meme
+  private async withAuthors(memes: Meme[]): Promise<MemeWithAuthor[]> {
+    return Promise.all(memes.map(async (meme) => {
+      const author = meme.authorId ? await this.getUser(meme.authorId) : undefined;
+      return { ...meme, author: memeAuthor(author) };
+    }));
+  }
+  
+  async getMeme(id: number): Promise<MemeWithAuthor | undefined> {
     const meme = this.memes.get(id);
     if (!meme) return undefined;
     
     // Attach author data
-    const author = await this.getUser(meme.authorId);
-    return {
-      ...meme,
-      author: author ? {
-        id: author.id,
-        username: author.username,
-        level: author.level || 1,
-        avatar: author.avatar,
-        title: 'Designer' // Default title
-      } : null
-    };
+    const author = meme.authorId ? await this.getUser(meme.authorId) : undefined;
+    return { ...meme, author: memeAuthor(author) };
   }
   
   async createMeme(insertMeme: InsertMeme): Promise<Meme> {
     const id = this.memeId++;
     const now = new Date();
     const meme: Meme = {
-      ...insertMeme,
+      authorId: insertMeme.authorId ?? null,
+      imageUrl: insertMeme.imageUrl,
+      caption: insertMeme.caption ?? null,
+      templateId: insertMeme.templateId ?? null,
+      captions: insertMeme.captions ?? null,
+      moderationStatus: 'visible',
       id,
       upvotes: 0,
       downvotes: 0,
+      hotScore: hotScore(0, 0, now),
       createdAt: now
     };
     this.memes.set(id, meme);
+    this.searchIndex.add('meme', id, [{ text: meme.caption, weight: 1 }]);
     return meme;
   }
   
-  async voteMeme(id: number, userId: number, vote: 'up' | 'down'): Promise<Meme> {
-    const meme = this.memes.get(id);
-    if (!meme) throw new Error('Meme not found');
+  async refreshRankingScores(): Promise<number> {
+    // Scores are set on creation here, so this only matters if the formulas change
+    this.memes.forEach(meme => {
+      meme.hotScore = hotScore(meme.upvotes, meme.downvotes, meme.createdAt);
+    });
+    this.comments.forEach(comment => {
+      comment.bestScore = wilsonScore(comment.upvotes, comment.downvotes);
+    });
+    return this.memes.size + this.comments.size;
+  }
+  
+  // Feed snapshot operations
+  async createFeedSnapshot({ id, memeIds }: { id: string; memeIds: number[] }): Promise<FeedSnapshot> {
+    const snapshot: FeedSnapshot = { id, memeIds, createdAt: new Date() };
+    this.feedSnapshots.set(id, snapshot);
+    return snapshot;
+  }
+  
+  async getFeedSnapshot(id: string): Promise<FeedSnapshot | undefined> {
+    return this.feedSnapshots.get(id);
+  }
+  
+  async deleteFeedSnapshots(before: Date): Promise<number> {
+    let deleted = 0;
+    this.feedSnapshots.forEach((snapshot, id) => {
+      if (snapshot.createdAt < before) {
+        this.feedSnapshots.delete(id);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+  
+  // Meme template operations
+  async getMemeTemplates(): Promise<MemeTemplate[]> {
+    return Array.from(this.memeTemplates.values()).sort((a, b) => a.id - b.id);
+  }
+  
+  async getMemeTemplate(id: number): Promise<MemeTemplate | undefined> {
+    return this.memeTemplates.get(id);
+  }
+  
+  async createMemeTemplate(insertTemplate: InsertMemeTemplate): Promise<MemeTemplate> {
+    const id = this.memeTemplateId++;
+    const template: MemeTemplate = {
+      name: insertTemplate.name,
+      description: insertTemplate.description ?? null,
+      imageUrl: insertTemplate.imageUrl,
+      width: insertTemplate.width,
+      height: insertTemplate.height,
+      textBoxes: insertTemplate.textBoxes,
+      createdBy: insertTemplate.createdBy ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.memeTemplates.set(id, template);
+    return template;
+  }
+  
+  async getMemeTemplateStats(recentSince: Date): Promise<MemeTemplateStats[]> {
+    const stats = new Map<number, MemeTemplateStats>();
     
-    const voteKey = `meme:${id}:user:${userId}`;
-    const existingVote = this.userVotes.get(voteKey);
+    this.memes.forEach(meme => {
+      if (!meme.templateId) return;
+      
+      const entry = stats.get(meme.templateId)
+        ?? { templateId: meme.templateId, memeCount: 0, recentMemeCount: 0, upvotes: 0, lastUsedAt: null };
+      entry.memeCount++;
+      entry.upvotes += meme.upvotes ?? 0;
+      if (timeOf(meme.createdAt) >= recentSince.getTime()) entry.recentMemeCount++;
+      if (timeOf(meme.createdAt) > timeOf(entry.lastUsedAt)) entry.lastUsedAt = meme.createdAt;
+      stats.set(meme.templateId, entry);
+    });
     
-    // Remove existing vote
-    if (existingVote === 'up') meme.upvotes--;
-    if (existingVote === 'down') meme.downvotes--;
+    return Array.from(stats.values());
+  }
+  
+  // Tag operations
+  async getTag(id: number): Promise<Tag | undefined> {
+    return this.tags.get(id);
+  }
+  
+  async getTagBySlug(slug: string): Promise<Tag | undefined> {
+    return Array.from(this.tags.values()).find(tag => tag.slug === slug);
+  }
+  
+  async getTagsBySlugs(slugs: string[]): Promise<Tag[]> {
+    return Array.from(this.tags.values()).filter(tag => slugs.includes(tag.slug));
+  }
+  
+  async getTags({ prefix, curatedOnly, sort, limit, offset = 0 }: TagQuery): Promise<TagWithCount[]> {
+    const needle = prefix?.toLowerCase();
+    const matches = Array.from(this.tags.values())
+      .filter(tag => tag.aliasOf === null && (!curatedOnly || tag.curated))
+      .filter(tag => !needle || tag.slug.startsWith(needle) || tag.name.toLowerCase().startsWith(needle));
     
-    // Apply new vote if it's different
-    if (existingVote !== vote) {
-      if (vote === 'up') meme.upvotes++;
-      if (vote === 'down') meme.downvotes++;
-      this.userVotes.set(voteKey, vote);
-    } else {
-      // If same vote, remove it (toggle)
-      this.userVotes.delete(voteKey);
+    const withCounts = await Promise.all(matches.map(async tag => ({ ...tag, memeCount: await this.countTagMemes(tag.id) })));
+    return withCounts
+      .sort((a, b) => sort === 'name'
+        ? a.slug.localeCompare(b.slug)
+        : b.memeCount - a.memeCount || Number(b.curated) - Number(a.curated) || a.slug.localeCompare(b.slug))
+      .slice(offset, offset + limit);
+  }
+  
+  async getTagAliases(tagId: number): Promise<Tag[]> {
+    return Array.from(this.tags.values())
+      .filter(tag => tag.aliasOf === tagId)
+      .sort((a, b) => a.slug.localeCompare(b.slug));
+  }
+  
+  async countTagMemes(tagId: number): Promise<number> {
+    let count = 0;
+    this.memeTags.forEach((tagIds, memeId) => {
+      if (tagIds.has(tagId) && this.memes.get(memeId)?.moderationStatus === 'visible') count++;
+    });
+    return count;
+  }
+  
+  async createTag(insertTag: InsertTag): Promise<Tag> {
+    const id = this.tagId++;
+    const tag: Tag = {
+      slug: insertTag.slug,
+      name: insertTag.name,
+      description: insertTag.description ?? null,
+      curated: insertTag.curated ?? false,
+      aliasOf: insertTag.aliasOf ?? null,
+      createdBy: insertTag.createdBy ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.tags.set(id, tag);
+    return tag;
+  }
+  
+  async updateTag(id: number, data: Partial<InsertTag>): Promise<Tag | undefined> {
+    const tag = this.tags.get(id);
+    if (!tag) return undefined;
+    
+    const updated = { ...tag, ...data };
+    this.tags.set(id, updated);
+    return updated;
+  }
+  
+  async getMemeTags(memeIds: number[]): Promise<Map<number, Tag[]>> {
+    const result = new Map<number, Tag[]>();
+    for (const memeId of memeIds) {
+      const tagIds = Array.from(this.memeTags.get(memeId) ?? []);
+      result.set(memeId, tagIds.map(tagId => this.tags.get(tagId)!).filter(Boolean));
     }
+    return result;
+  }
+  
+  async setMemeTags(memeId: number, tagIds: number[]): Promise<void> {
+    this.memeTags.set(memeId, new Set(tagIds));
+  }
+  
+  async mergeTags(sourceId: number, targetId: number): Promise<number> {
+    let moved = 0;
+    this.memeTags.forEach(tagIds => {
+      if (!tagIds.delete(sourceId)) return;
+      if (!tagIds.has(targetId)) moved++;
+      tagIds.add(targetId);
+    });
     
-    this.memes.set(id, meme);
-    return meme;
+    // The source and anything that pointed at it now resolve to the target
+    this.tags.forEach(tag => {
+      if (tag.id === sourceId || tag.aliasOf === sourceId) {
+        this.tags.set(tag.id, { ...tag, aliasOf: targetId });
+      }
+    });
+    return moved;
   }
   
   // Comment operations
-  async getComments(memeId: number): Promise<Comment[]> {
+  async getComments(memeId: number, maxId?: number): Promise<Comment[]> {
+    return Array.from(this.comments.values())
+      .filter(comment => comment.memeId === memeId && comment.moderationStatus === 'visible')
+      .filter(comment => maxId === undefined || comment.id <= maxId)
+      .sort((a, b) => timeOf(b.createdAt) - timeOf(a.createdAt));
+  }
+  
+  async getComment(id: number): Promise<Comment | undefined> {
+    return this.comments.get(id);
+  }
+  
+  async getCommentsByUser(userId: number, limit: number): Promise<Comment[]> {
+    return Array.from(this.comments.values())
+      .filter(comment => comment.authorId === userId && comment.moderationStatus === 'visible')
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  async countComments(memeId: number): Promise<number> {
     return Array.from(this.comments.values())
-      .filter(comment => comment.memeId === memeId)
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      .filter(comment => comment.memeId === memeId && comment.moderationStatus === 'visible')
+      .length;
+  }
+  
+  async getCommentThreads(since: Date, limit: number): Promise<CommentThread[]> {
+    const visible = Array.from(this.comments.values()).filter(comment => comment.moderationStatus === 'visible');
+    const replyCounts = new Map<number, number>();
+    visible.forEach(comment => {
+      if (comment.parentId) replyCounts.set(comment.parentId, (replyCounts.get(comment.parentId) ?? 0) + 1);
+    });
+    const net = (comment: Comment) => (comment.upvotes ?? 0) - (comment.downvotes ?? 0);
+    
+    // A thread under a hidden or removed meme is out of sight too
+    const onVisibleMeme = (comment: Comment) =>
+      Boolean(comment.memeId && this.memes.get(comment.memeId)?.moderationStatus === 'visible');
+    
+    return visible
+      .filter(comment => !comment.parentId && timeOf(comment.createdAt) > since.getTime() && onVisibleMeme(comment))
+      .map(comment => ({ ...comment, replyCount: replyCounts.get(comment.id) ?? 0 }))
+      .sort((a, b) => b.replyCount - a.replyCount || net(b) - net(a) || b.id - a.id)
+      .slice(0, limit);
   }
   
   async createComment(insertComment: InsertComment): Promise<Comment> {
     const id = this.commentId++;
     const now = new Date();
     const comment: Comment = {
-      ...insertComment,
+      memeId: insertComment.memeId ?? null,
+      authorId: insertComment.authorId ?? null,
+      body: insertComment.body,
+      parentId: insertComment.parentId ?? null,
+      moderationStatus: 'visible',
       id,
       upvotes: 0,
+      downvotes: 0,
+      bestScore: 0,
       createdAt: now
     };
     this.comments.set(id, comment);
-    return comment;
-  }
-  
-  async voteComment(id: number, userId: number, vote: 'up'): Promise<Comment> {
-    const comment = this.comments.get(id);
-    if (!comment) throw new Error('Comment not found');
-    
-    const voteKey = `comment:${id}:user:${userId}`;
-    const existingVote = this.userVotes.get(voteKey);
-    
-    // Toggle vote
-    if (existingVote === vote) {
-      comment.upvotes--;
-      this.userVotes.delete(voteKey);
-    } else {
-      comment.upvotes++;
-      this.userVotes.set(voteKey, vote);
-    }
-    
-    this.comments.set(id, comment);
+    this.searchIndex.add('comment', id, [{ text: comment.body, weight: 1 }]);
     return comment;
   }
   
@@ -301,7 +964,7 @@ export class MemStorage implements IStorage {
   async getGameSessions(userId: number, limit: number = 10): Promise<GameSession[]> {
     return Array.from(this.gameSessions.values())
       .filter(session => session.userId === userId)
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .sort((a, b) => timeOf(b.createdAt) - timeOf(a.createdAt))
       .slice(0, limit);
   }
   
@@ -313,7 +976,10 @@ export class MemStorage implements IStorage {
     const id = this.gameSessionId++;
     const now = new Date();
     const session: GameSession = {
-      ...insertSession,
+      userId: insertSession.userId ?? null,
+      score: insertSession.score ?? null,
+      sanityLeft: insertSession.sanityLeft ?? null,
+      choices: insertSession.choices ?? [],
       id,
       createdAt: now,
       endedAt: null
@@ -331,15 +997,56 @@ export class MemStorage implements IStorage {
     return updatedSession;
   }
   
-  // Resource operations
-  async getResources(category?: string): Promise<Resource[]> {
-    let resources = Array.from(this.resources.values());
-    
-    if (category) {
-      resources = resources.filter(resource => resource.category === category);
+  async getGameLeaderboard({ since, userIds, limit, offset = 0 }: GameLeaderboardQuery): Promise<GameLeaderboardEntry[]> {
+    return this.rankGameSessions(since, userIds).slice(offset, offset + limit);
+  }
+  
+  async getGameLeaderboardEntry(userId: number, { since, userIds }: Pick<GameLeaderboardQuery, 'since' | 'userIds'>): Promise<GameLeaderboardEntry | undefined> {
+    return this.rankGameSessions(since, userIds).find(entry => entry.userId === userId);
+  }
+  
+  private rankGameSessions(since?: Date, userIds?: number[]): GameLeaderboardEntry[] {
+    const best = new Map<number, GameSession>();
+    for (const session of Array.from(this.gameSessions.values())) {
+      if (!session.endedAt || !session.userId) continue;
+      if (userIds && !userIds.includes(session.userId)) continue;
+      if (since && timeOf(session.endedAt) < since.getTime()) continue;
+      
+      const current = best.get(session.userId);
+      if (!current || compareLeaderboardSessions(session, current) < 0) {
+        best.set(session.userId, session);
+      }
     }
     
-    return resources.sort((a, b) => b.votes - a.votes);
+    return Array.from(best.values())
+      .sort(compareLeaderboardSessions)
+      .map((session, index) => {
+        const user = this.users.get(session.userId!);
+        return {
+          rank: index + 1,
+          userId: session.userId!,
+          username: user?.username ?? 'unknown',
+          avatar: user?.avatar ?? null,
+          level: user?.level ?? 1,
+          sessionId: session.id,
+          score: session.score ?? 0,
+          sanityLeft: session.sanityLeft ?? 0,
+          endedAt: session.endedAt!
+        };
+      });
+  }
+  
+  // Resource operations
+  async getResources({ category, since, after, limit }: ResourceQuery): Promise<Page<Resource>> {
+    const positionOf = (resource: Resource) => ({ score: resource.votes ?? 0, id: resource.id });
+    const resources = Array.from(this.resources.values())
+      .filter(resource => resource.moderationStatus === 'visible'
+        && (!category || resource.category === category)
+        && (!since || timeOf(resource.createdAt) > since.getTime())
+        && isAfter(positionOf(resource), after))
+      .sort((a, b) => (b.votes ?? 0) - (a.votes ?? 0) || b.id - a.id);
+    
+    return toPage(resources.slice(0, limit + 1), limit, positionOf);
   }
   
   async getResource(id: number): Promise<Resource | undefined> {
@@ -350,59 +1057,492 @@ export class MemStorage implements IStorage {
     const id = this.resourceId++;
     const now = new Date();
     const resource: Resource = {
-      ...insertResource,
+      title: insertResource.title,
+      category: insertResource.category ?? null,
+      markdown: insertResource.markdown ?? null,
+      downloadUrl: insertResource.downloadUrl ?? null,
+      createdBy: insertResource.createdBy ?? null,
+      moderationStatus: 'visible',
       id,
       votes: 0,
       createdAt: now
     };
     this.resources.set(id, resource);
+    this.indexResource(resource);
     return resource;
   }
   
-  async voteResource(id: number, userId: number, vote: 'up' | 'down'): Promise<Resource> {
-    const resource = this.resources.get(id);
-    if (!resource) throw new Error('Resource not found');
+  // Vote operations
+  async getUserVotes(userId: number, targetType: VoteTargetType, targetIds: number[]): Promise<Map<number, VoteValue>> {
+    const userVotes = new Map<number, VoteValue>();
+    for (const targetId of targetIds) {
+      const vote = this.votes.get(`${targetType}:${targetId}:user:${userId}`);
+      if (vote) userVotes.set(targetId, vote.value as VoteValue);
+    }
+    return userVotes;
+  }
+  
+  async castVote(userId: number, targetType: VoteTargetType, targetId: number, value: VoteValue): Promise<VoteValue | undefined> {
+    const target = targetType === 'meme'
+      ? this.memes.get(targetId)
+      : targetType === 'comment' ? this.comments.get(targetId) : this.resources.get(targetId);
+    if (target?.moderationStatus !== 'visible') return undefined;
+
+    const voteKey = `${targetType}:${targetId}:user:${userId}`;
+    const existingVote = this.votes.get(voteKey);
+    const previous = (existingVote?.value ?? 0) as VoteValue;
+    const now = new Date();
     
-    const voteKey = `resource:${id}:user:${userId}`;
-    const existingVote = this.userVotes.get(voteKey);
+    if (value === 0) {
+      this.votes.delete(voteKey);
+    } else {
+      this.votes.set(voteKey, {
+        id: existingVote?.id ?? this.voteId++,
+        userId,
+        targetType,
+        targetId,
+        value,
+        createdAt: existingVote?.createdAt ?? now,
+        updatedAt: now
+      });
+    }
     
-    // Toggle vote
-    if (existingVote === vote) {
-      resource.votes += (vote === 'up' ? -1 : 1);
-      this.userVotes.delete(voteKey);
-    } else if (existingVote) {
-      // Change vote
-      resource.votes += (vote === 'up' ? 2 : -2);
-      this.userVotes.set(voteKey, vote);
+    const { up, down } = voteTallyDelta(previous, value);
+    if (targetType === 'meme') {
+      const meme = this.memes.get(targetId);
+      if (meme) {
+        meme.upvotes = (meme.upvotes ?? 0) + up;
+        meme.downvotes = (meme.downvotes ?? 0) + down;
+        meme.hotScore = hotScore(meme.upvotes, meme.downvotes, meme.createdAt);
+      }
+    } else if (targetType === 'comment') {
+      const comment = this.comments.get(targetId);
+      if (comment) {
+        comment.upvotes = (comment.upvotes ?? 0) + up;
+        comment.downvotes = (comment.downvotes ?? 0) + down;
+        comment.bestScore = wilsonScore(comment.upvotes, comment.downvotes);
+      }
     } else {
-      // New vote
-      resource.votes += (vote === 'up' ? 1 : -1);
-      this.userVotes.set(voteKey, vote);
+      const resource = this.resources.get(targetId);
+      if (resource) {
+        resource.votes = (resource.votes ?? 0) + up - down;
+      }
     }
     
-    this.resources.set(id, resource);
-    return resource;
+    return previous;
+  }
+  
+  // XP operations
+  async recordXpEvent(
+    insertEvent: InsertXpEvent,
+    cap: { daily: number; since: Date },
+    levelFor: (xp: number) => number,
+  ): Promise<{ event: XpEvent; user: User; previousLevel: number } | undefined> {
+    // No awaits until the write, so concurrent awards can't both read the same total
+    const user = this.users.get(insertEvent.userId);
+    if (!user) throw new Error(`User with id ${insertEvent.userId} not found`);
+    
+    const events = Array.from(this.xpEvents.values())
+      .filter(event => event.userId === insertEvent.userId && event.reason === insertEvent.reason);
+    const actorId = insertEvent.actorId ?? null;
+    if (actorId !== null && events.some(event =>
+      event.actorId === actorId &&
+      event.sourceType === (insertEvent.sourceType ?? null) &&
+      event.sourceId === (insertEvent.sourceId ?? null)
+    )) {
+      return undefined;
+    }
+    
+    const earned = events
+      .filter(event => timeOf(event.createdAt) >= cap.since.getTime())
+      .reduce((total, event) => total + event.amount, 0);
+    const amount = Math.min(insertEvent.amount, cap.daily - earned);
+    if (amount <= 0) return undefined;
+    
+    const id = this.xpEventId++;
+    const event: XpEvent = {
+      id,
+      userId: insertEvent.userId,
+      reason: insertEvent.reason,
+      amount,
+      sourceType: insertEvent.sourceType ?? null,
+      sourceId: insertEvent.sourceId ?? null,
+      actorId,
+      createdAt: new Date()
+    };
+    this.xpEvents.set(id, event);
+    
+    const xp = (user.xp ?? 0) + amount;
+    const updatedUser = { ...user, xp, level: levelFor(xp), updatedAt: new Date() };
+    this.users.set(user.id, updatedUser);
+    return { event, user: updatedUser, previousLevel: user.level ?? 1 };
+  }
+  
+  async getXpEarnedSince(userId: number, reason: XpReason, since: Date): Promise<number> {
+    return Array.from(this.xpEvents.values())
+      .filter(event => event.userId === userId && event.reason === reason && timeOf(event.createdAt) >= since.getTime())
+      .reduce((total, event) => total + event.amount, 0);
+  }
+  
+  async getXpEvents(userId: number, limit: number = 50): Promise<XpEvent[]> {
+    return Array.from(this.xpEvents.values())
+      .filter(event => event.userId === userId)
+      .sort((a, b) => timeOf(b.createdAt) - timeOf(a.createdAt) || b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  // Moderation operations
+  async createReport(insertReport: InsertReport): Promise<Report | undefined> {
+    const duplicate = Array.from(this.reports.values()).some(report =>
+      report.reporterId === insertReport.reporterId &&
+      report.targetType === insertReport.targetType &&
+      report.targetId === insertReport.targetId
+    );
+    if (duplicate) return undefined;
+    
+    const id = this.reportId++;
+    const report: Report = {
+      reporterId: insertReport.reporterId,
+      targetType: insertReport.targetType,
+      targetId: insertReport.targetId,
+      reason: insertReport.reason,
+      details: insertReport.details ?? null,
+      status: 'open',
+      resolvedBy: null,
+      resolvedAt: null,
+      id,
+      createdAt: new Date()
+    };
+    this.reports.set(id, report);
+    return report;
+  }
+  
+  async getReports(targetType: ReportTargetType, targetId: number, status?: ReportStatus): Promise<Report[]> {
+    return Array.from(this.reports.values())
+      .filter(report => report.targetType === targetType && report.targetId === targetId)
+      .filter(report => !status || report.status === status)
+      .sort((a, b) => timeOf(b.createdAt) - timeOf(a.createdAt) || b.id - a.id);
+  }
+  
+  async countReports(targetType: ReportTargetType, targetId: number, status: ReportStatus): Promise<number> {
+    return (await this.getReports(targetType, targetId, status)).length;
+  }
+  
+  async getReportQueue({ status, targetType, limit, offset = 0 }: ReportQueueQuery): Promise<ReportQueueEntry[]> {
+    const entries = new Map<string, ReportQueueEntry>();
+    
+    this.reports.forEach(report => {
+      if (report.status !== status || (targetType && report.targetType !== targetType)) return;
+      
+      const key = `${report.targetType}:${report.targetId}`;
+      const createdAt = report.createdAt ?? new Date(0);
+      const entry = entries.get(key) ?? {
+        targetType: report.targetType,
+        targetId: report.targetId,
+        reportCount: 0,
+        reasons: {},
+        firstReportedAt: createdAt,
+        lastReportedAt: createdAt
+      };
+      entry.reportCount++;
+      entry.reasons[report.reason] = (entry.reasons[report.reason] ?? 0) + 1;
+      if (timeOf(createdAt) < timeOf(entry.firstReportedAt)) entry.firstReportedAt = createdAt;
+      if (timeOf(createdAt) > timeOf(entry.lastReportedAt)) entry.lastReportedAt = createdAt;
+      entries.set(key, entry);
+    });
+    
+    // Most reported first, then most recently reported
+    return Array.from(entries.values())
+      .sort((a, b) => b.reportCount - a.reportCount
+        || timeOf(b.lastReportedAt) - timeOf(a.lastReportedAt)
+        || a.targetType.localeCompare(b.targetType)
+        || a.targetId - b.targetId)
+      .slice(offset, offset + limit);
+  }
+  
+  async resolveReports(targetType: ReportTargetType, targetId: number, status: ReportStatus, resolvedBy: number | null): Promise<number> {
+    const open = await this.getReports(targetType, targetId, 'open');
+    const now = new Date();
+    open.forEach(report => {
+      this.reports.set(report.id, { ...report, status, resolvedBy, resolvedAt: now });
+    });
+    return open.length;
+  }
+  
+  async setModerationStatus(targetType: ReportTargetType, targetId: number, status: ModerationStatus): Promise<boolean> {
+    const items: Map<number, { moderationStatus: ModerationStatus }> =
+      targetType === 'meme' ? this.memes : targetType === 'comment' ? this.comments : this.resources;
+    const item = items.get(targetId);
+    if (!item) return false;
+    
+    items.set(targetId, { ...item, moderationStatus: status });
+    return true;
+  }
+  
+  async recordModerationAction(insertAction: InsertModerationAction): Promise<ModerationAction> {
+    const id = this.moderationActionId++;
+    const action: ModerationAction = {
+      moderatorId: insertAction.moderatorId ?? null,
+      action: insertAction.action,
+      targetType: insertAction.targetType,
+      targetId: insertAction.targetId,
+      userId: insertAction.userId ?? null,
+      note: insertAction.note ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.moderationActions.set(id, action);
+    return action;
+  }
+  
+  async getModerationActions(targetType: ReportTargetType, targetId: number): Promise<ModerationAction[]> {
+    return Array.from(this.moderationActions.values())
+      .filter(action => action.targetType === targetType && action.targetId === targetId)
+      .sort((a, b) => timeOf(b.createdAt) - timeOf(a.createdAt) || b.id - a.id);
+  }
+  
+  // Search operations
+  async search({ text, types, limit, offset = 0 }: SearchQuery): Promise<{ total: number; hits: SearchHit[] }> {
+    const visible = (hit: SearchHit) => {
+      if (hit.type === 'comment') {
+        // A comment under a hidden or removed meme is out of sight too
+        const comment = this.comments.get(hit.id);
+        const meme = comment?.memeId ? this.memes.get(comment.memeId) : undefined;
+        return comment?.moderationStatus === 'visible' && meme?.moderationStatus === 'visible';
+      }
+      const item = hit.type === 'meme' ? this.memes.get(hit.id) : this.resources.get(hit.id);
+      return item?.moderationStatus === 'visible';
+    };
+    
+    const hits = this.searchIndex.search(text, types)
+      .filter(visible)
+      .sort((a, b) => b.score - a.score || a.type.localeCompare(b.type) || b.id - a.id);
+    
+    return { total: hits.length, hits: hits.slice(offset, offset + limit) };
+  }
+  
+  private indexResource(resource: Resource) {
+    this.searchIndex.add('resource', resource.id, [
+      { text: resource.title, weight: 3 },
+      { text: resource.markdown, weight: 1 },
+    ]);
+  }
+  
+  // Notification operations
+  async addNotification({ userId, type, targetType, targetId, actorId }: NotificationEvent): Promise<Notification> {
+    const now = new Date();
+    const group = Array.from(this.notifications.values()).find(notification =>
+      notification.userId === userId && notification.readAt === null && notification.type === type
+      && notification.targetType === targetType && notification.targetId === targetId);
+    
+    if (group) {
+      if (!group.actorIds.includes(actorId)) group.actorCount++;
+      group.actorIds = [actorId, ...group.actorIds.filter(id => id !== actorId)].slice(0, MAX_NOTIFICATION_ACTORS);
+      group.updatedAt = now;
+      return group;
+    }
+    
+    const id = this.notificationId++;
+    const notification: Notification = {
+      id,
+      userId,
+      type,
+      targetType,
+      targetId,
+      actorIds: [actorId],
+      actorCount: 1,
+      readAt: null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.notifications.set(id, notification);
+    return notification;
+  }
+  
+  async getNotifications(userId: number, { unreadOnly, after, limit }: NotificationQuery): Promise<Page<Notification>> {
+    const positionOf = (notification: Notification) => ({ score: timeOf(notification.updatedAt), id: notification.id });
+    const notifications = Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId
+        && (!unreadOnly || notification.readAt === null)
+        && isAfter(positionOf(notification), after))
+      .sort((a, b) => timeOf(b.updatedAt) - timeOf(a.updatedAt) || b.id - a.id);
+    
+    return toPage(notifications.slice(0, limit + 1), limit, positionOf);
+  }
+  
+  async countUnreadNotifications(userId: number): Promise<number> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId && notification.readAt === null)
+      .length;
+  }
+  
+  async markNotificationsRead(userId: number, ids?: number[]): Promise<number> {
+    const now = new Date();
+    let updated = 0;
+    this.notifications.forEach(notification => {
+      if (notification.userId !== userId || notification.readAt !== null) return;
+      if (ids && !ids.includes(notification.id)) return;
+      notification.readAt = now;
+      updated++;
+    });
+    return updated;
   }
   
-  // Helper to seed initial resources
   // Newsletter operations
-  async addNewsletterSubscriber(email: string): Promise<boolean> {
+  async addNewsletterSubscriber(email: string): Promise<NewsletterSubscriber> {
     // Normalize email (lowercase)
     const normalizedEmail = email.toLowerCase();
     
     // Don't add duplicates
-    if (this.newsletterSubscribers.has(normalizedEmail)) {
-      return false;
+    const existing = this.newsletterSubscribers.get(normalizedEmail);
+    if (existing) {
+      return existing;
     }
     
-    this.newsletterSubscribers.add(normalizedEmail);
-    return true;
+    const subscriber: NewsletterSubscriber = {
+      id: this.newsletterSubscriberId++,
+      email: normalizedEmail,
+      status: 'pending',
+      confirmationSentAt: null,
+      confirmedAt: null,
+      unsubscribedAt: null,
+      createdAt: new Date(),
+    };
+    this.newsletterSubscribers.set(normalizedEmail, subscriber);
+    return subscriber;
   }
   
   async getNewsletterSubscribers(): Promise<string[]> {
-    return Array.from(this.newsletterSubscribers);
+    return Array.from(this.newsletterSubscribers.values())
+      .filter(subscriber => subscriber.status === 'subscribed')
+      .sort((a, b) => a.id - b.id)
+      .map(subscriber => subscriber.email);
+  }
+  
+  async getNewsletterSubscriber(email: string): Promise<NewsletterSubscriber | undefined> {
+    return this.newsletterSubscribers.get(email.toLowerCase());
+  }
+  
+  async updateNewsletterSubscriber(id: number, data: Partial<NewsletterSubscriber>): Promise<NewsletterSubscriber> {
+    const subscriber = Array.from(this.newsletterSubscribers.values()).find(entry => entry.id === id);
+    if (!subscriber) {
+      throw new Error(`Newsletter subscriber with id ${id} not found`);
+    }
+    
+    const updated = { ...subscriber, ...data, id, email: subscriber.email };
+    this.newsletterSubscribers.set(subscriber.email, updated);
+    return updated;
+  }
+  
+  async backfillNewsletterStatuses(): Promise<number> {
+    // A 'subscribed' row is only ever written with a confirmation time and without an unsubscribe
+    // time, so anything else in that state predates double opt-in
+    let updated = 0;
+    this.newsletterSubscribers.forEach(subscriber => {
+      if (subscriber.status !== 'subscribed' || (subscriber.confirmedAt && !subscriber.unsubscribedAt)) return;
+      subscriber.status = subscriber.unsubscribedAt ? 'unsubscribed' : 'subscribed';
+      subscriber.confirmedAt = subscriber.confirmedAt ?? subscriber.createdAt;
+      updated++;
+    });
+    return updated;
+  }
+  
+  // Email send log
+  async logEmailSend(insertSend: InsertEmailSend): Promise<EmailSend> {
+    const send: EmailSend = {
+      id: this.emailSendId++,
+      kind: insertSend.kind,
+      batch: insertSend.batch,
+      recipient: insertSend.recipient,
+      subject: insertSend.subject,
+      status: insertSend.status,
+      messageId: insertSend.messageId ?? null,
+      error: insertSend.error ?? null,
+      createdAt: new Date(),
+    };
+    this.emailSends.set(send.id, send);
+    return send;
+  }
+  
+  async getSentRecipients(kind: EmailKind, batch: string): Promise<string[]> {
+    const recipients = Array.from(this.emailSends.values())
+      .filter(send => send.kind === kind && send.batch === batch && send.status === 'sent')
+      .map(send => send.recipient);
+    return Array.from(new Set(recipients));
+  }
+  
+  async getEmailSends({ kind, batch, limit }: { kind?: EmailKind; batch?: string; limit: number }): Promise<EmailSend[]> {
+    return Array.from(this.emailSends.values())
+      .filter(send => (!kind || send.kind === kind) && (!batch || send.batch === batch))
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+  
+  // Newsletter provider outbox
+  async queueNewsletterSync({ email, memberHash, action }: { email: string; memberHash: string; action: NewsletterSyncAction }): Promise<NewsletterSyncJob> {
+    const now = new Date();
+    const pending = await this.getPendingNewsletterSync(memberHash);
+    const job: NewsletterSyncJob = pending
+      ? { ...pending, email, action, revision: pending.revision + 1, attempts: 0, nextAttemptAt: now, lastError: null, updatedAt: now }
+      : {
+          id: this.newsletterSyncJobId++,
+          email,
+          memberHash,
+          action,
+          status: 'pending',
+          revision: 1,
+          attempts: 0,
+          nextAttemptAt: now,
+          lastError: null,
+          createdAt: now,
+          updatedAt: now,
+        };
+    this.newsletterSyncJobs.set(job.id, job);
+    return job;
+  }
+  
+  async getDueNewsletterSyncJobs(now: Date, limit: number): Promise<NewsletterSyncJob[]> {
+    return Array.from(this.newsletterSyncJobs.values())
+      .filter(job => job.status === 'pending' && timeOf(job.nextAttemptAt) <= now.getTime())
+      .sort((a, b) => timeOf(a.nextAttemptAt) - timeOf(b.nextAttemptAt) || a.id - b.id)
+      .slice(0, limit);
+  }
+  
+  async getPendingNewsletterSync(memberHash: string): Promise<NewsletterSyncJob | undefined> {
+    return Array.from(this.newsletterSyncJobs.values())
+      .find(job => job.memberHash === memberHash && job.status === 'pending');
+  }
+  
+  async updateNewsletterSyncJob(id: number, revision: number, data: Partial<NewsletterSyncJob>): Promise<boolean> {
+    const job = this.newsletterSyncJobs.get(id);
+    if (!job || job.revision !== revision) return false;
+    this.newsletterSyncJobs.set(id, { ...job, ...data, id, revision, updatedAt: new Date() });
+    return true;
   }
   
+  async pruneNewsletterSyncJobs(before: Date): Promise<number> {
+    let deleted = 0;
+    this.newsletterSyncJobs.forEach((job, id) => {
+      if (job.status === 'done' && timeOf(job.updatedAt) < before.getTime()) {
+        this.newsletterSyncJobs.delete(id);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+  
+  async getNewsletterSyncStats(): Promise<NewsletterSyncStats> {
+    const stats: NewsletterSyncStats = { pending: 0, failed: 0, done: 0, oldestPendingAt: null };
+    this.newsletterSyncJobs.forEach(job => {
+      stats[job.status]++;
+      if (job.status === 'pending' && (!stats.oldestPendingAt || timeOf(job.createdAt) < stats.oldestPendingAt.getTime())) {
+        stats.oldestPendingAt = job.createdAt;
+      }
+    });
+    return stats;
+  }
+  
+  // Helper to seed initial resources
   private seedResources() {
     const resources: InsertResource[] = [
       {
@@ -428,14 +1568,36 @@ export class MemStorage implements IStorage {
     resources.forEach(resource => {
       const id = this.resourceId++;
       const now = new Date();
-      this.resources.set(id, {
-        ...resource,
+      const seeded: Resource = {
+        title: resource.title,
+        category: resource.category ?? null,
+        markdown: resource.markdown ?? null,
+        downloadUrl: resource.downloadUrl ?? null,
+        createdBy: null,
+        moderationStatus: 'visible',
         id,
         votes: 0,
         createdAt: now
-      });
+      };
+      this.resources.set(id, seeded);
+      this.indexResource(seeded);
     });
   }
 }
 
-export const storage = new MemStorage();
+// Pick the storage backend from STORAGE_BACKEND ('memory' or 'database'),
+// falling back to the database whenever DATABASE_URL is configured
+export function createStorage(backend = process.env.STORAGE_BACKEND): IStorage {
+  const selected = backend || (process.env.DATABASE_URL ? 'database' : 'memory');
+  
+  switch (selected) {
+    case 'database':
+      return new DatabaseStorage(connectDatabase().db);
+    case 'memory':
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${selected}"`);
+  }
+}
+
+export const storage = createStorage();
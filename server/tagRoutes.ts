@@ -0,0 +1,142 @@
+import express from 'express';
+import { z } from 'zod';
+import { isAuthenticated, requirePermission } from './auth';
+import { storage } from './storage';
+import { addTagAlias, findTag, getTagPage, mergeTags, suggestTags, TagError, tagSlug } from './tags';
+import { insertTagSchema } from '@shared/schema';
+
+const router = express.Router();
+
+const tagListQuerySchema = z.object({
+  sort: z.enum(['popular', 'name']).default('popular'),
+  curated: z.enum(['true', 'false']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const suggestQuerySchema = z.object({
+  q: z.string().trim().max(32).optional(),
+  caption: z.string().max(500).optional(),
+  limit: z.coerce.number().int().min(1).max(20).default(8),
+});
+
+const curatedTagSchema = insertTagSchema.pick({ name: true, description: true });
+
+const updateTagSchema = insertTagSchema
+  .pick({ name: true, description: true, curated: true })
+  .partial();
+
+const mergeSchema = z.object({
+  into: z.string().trim().min(1),
+});
+
+const aliasSchema = z.object({
+  alias: z.string().trim().min(1).max(32),
+});
+
+function sendTagError(res: express.Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: 'Invalid tag data', errors: error.errors });
+  }
+  if (error instanceof TagError) {
+    return res.status(error.status).json({ message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+// Tag directory, most used first by default
+router.get('/', async (req, res) => {
+  try {
+    const query = tagListQuerySchema.parse(req.query);
+    res.json(await storage.getTags({
+      sort: query.sort,
+      curatedOnly: query.curated === 'true',
+      limit: query.limit,
+      offset: query.offset,
+    }));
+  } catch (error) {
+    sendTagError(res, error, 'Failed to fetch tags');
+  }
+});
+
+// Suggestions while posting, from what's typed and the caption so far
+router.get('/suggest', async (req, res) => {
+  try {
+    const { q, caption, limit } = suggestQuerySchema.parse(req.query);
+    res.json(await suggestTags(q, caption, limit));
+  } catch (error) {
+    sendTagError(res, error, 'Failed to suggest tags');
+  }
+});
+
+// Tag page details; aliases resolve to the tag they point at
+router.get('/:slug', async (req, res) => {
+  try {
+    const tag = await getTagPage(req.params.slug);
+    if (!tag) {
+      return res.status(404).json({ message: 'Tag not found' });
+    }
+    res.json(tag);
+  } catch (error) {
+    sendTagError(res, error, 'Failed to fetch tag');
+  }
+});
+
+// Create a curated tag, or promote an existing free-form one
+router.post('/', isAuthenticated, requirePermission('manage_tags'), async (req: any, res) => {
+  try {
+    const { name, description } = curatedTagSchema.parse(req.body);
+    const slug = tagSlug(name);
+    if (slug.length < 2) {
+      throw new TagError('Tag name needs at least two letters or digits');
+    }
+
+    const existing = await findTag(slug);
+    if (existing) {
+      const tag = await storage.updateTag(existing.id, { curated: true, ...(description ? { description } : {}) });
+      return res.json(tag);
+    }
+
+    const tag = await storage.createTag({ slug, name, description, curated: true, createdBy: req.user.id });
+    res.status(201).json(tag);
+  } catch (error) {
+    sendTagError(res, error, 'Failed to create tag');
+  }
+});
+
+// Rename, describe or (un)curate a tag; the slug never changes
+router.patch('/:slug', isAuthenticated, requirePermission('manage_tags'), async (req, res) => {
+  try {
+    const data = updateTagSchema.parse(req.body);
+    const tag = await findTag(req.params.slug);
+    if (!tag) {
+      return res.status(404).json({ message: 'Tag not found' });
+    }
+    res.json(await storage.updateTag(tag.id, data));
+  } catch (error) {
+    sendTagError(res, error, 'Failed to update tag');
+  }
+});
+
+// Fold this tag into another; its memes move over and its slug becomes an alias
+router.post('/:slug/merge', isAuthenticated, requirePermission('manage_tags'), async (req, res) => {
+  try {
+    const { into } = mergeSchema.parse(req.body);
+    res.json(await mergeTags(req.params.slug, into));
+  } catch (error) {
+    sendTagError(res, error, 'Failed to merge tags');
+  }
+});
+
+// Add another spelling that resolves to this tag
+router.post('/:slug/aliases', isAuthenticated, requirePermission('manage_tags'), async (req: any, res) => {
+  try {
+    const { alias } = aliasSchema.parse(req.body);
+    res.status(201).json(await addTagAlias(req.params.slug, alias, req.user.id));
+  } catch (error) {
+    sendTagError(res, error, 'Failed to add alias');
+  }
+});
+
+export default router;
@@ -0,0 +1,160 @@
+import { storage } from './storage';
+import { words } from './searchIndex';
+import type { Tag, TagWithCount } from '@shared/schema';
+
+export const MAX_TAGS_PER_MEME = 5;
+const MIN_TAG_LENGTH = 2;
+const MAX_TAG_LENGTH = 32;
+
+export class TagError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'TagError';
+  }
+}
+
+// "Scope Creep!" -> "scope-creep"
+export function tagSlug(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function validSlug(slug: string): boolean {
+  return slug.length >= MIN_TAG_LENGTH && slug.length <= MAX_TAG_LENGTH;
+}
+
+// Follow an alias to the tag it was merged into
+export async function canonicalTag(tag: Tag | undefined): Promise<Tag | undefined> {
+  let current = tag;
+  // Aliases are always repointed on merge, so one hop is normal; the limit guards against bad data
+  for (let hops = 0; current?.aliasOf && hops < 5; hops++) {
+    current = await storage.getTag(current.aliasOf);
+  }
+  return current;
+}
+
+export async function findTag(slugOrName: string): Promise<Tag | undefined> {
+  return canonicalTag(await storage.getTagBySlug(tagSlug(slugOrName)));
+}
+
+// Turn the names typed by a poster into canonical tags, creating free-form tags as needed
+export async function resolveTags(names: string[], createdBy: number): Promise<Tag[]> {
+  const slugs = Array.from(new Set(names.map(tagSlug).filter(slug => slug.length > 0)));
+  if (slugs.length > MAX_TAGS_PER_MEME) {
+    throw new TagError(`A meme can have at most ${MAX_TAGS_PER_MEME} tags`);
+  }
+  const invalid = slugs.find(slug => !validSlug(slug));
+  if (invalid) {
+    throw new TagError(`Tags must be between ${MIN_TAG_LENGTH} and ${MAX_TAG_LENGTH} characters`);
+  }
+
+  const existing = new Map((await storage.getTagsBySlugs(slugs)).map(tag => [tag.slug, tag]));
+  const resolved = new Map<number, Tag>();
+
+  for (const slug of slugs) {
+    let tag = existing.get(slug);
+    if (!tag) {
+      const typed = names.find(entry => tagSlug(entry) === slug)!.trim();
+      tag = await storage.createTag({ slug, name: typed.length <= MAX_TAG_LENGTH ? typed : slug, createdBy })
+        // Someone else may have created the same tag a moment ago
+        .catch(async (error) => {
+          const created = await storage.getTagBySlug(slug);
+          if (!created) throw error;
+          return created;
+        });
+    }
+    const canonical = await canonicalTag(tag);
+    if (canonical) resolved.set(canonical.id, canonical);
+  }
+
+  return Array.from(resolved.values());
+}
+
+function tagSummary(tag: Tag) {
+  return { slug: tag.slug, name: tag.name, curated: tag.curated };
+}
+
+// Attach each meme's tags for API responses
+export async function withTags<T extends { id: number }>(memes: T[]): Promise<Array<T & { tags: ReturnType<typeof tagSummary>[] }>> {
+  const tagsByMeme = await storage.getMemeTags(memes.map(meme => meme.id));
+  return memes.map(meme => ({ ...meme, tags: (tagsByMeme.get(meme.id) ?? []).map(tagSummary) }));
+}
+
+// Suggestions while posting: tags starting with what's being typed,
+// plus existing tags whose name appears in the caption
+export async function suggestTags(prefix: string | undefined, caption: string | undefined, limit: number): Promise<TagWithCount[]> {
+  const suggestions = new Map<number, TagWithCount>();
+
+  const slugPrefix = prefix ? tagSlug(prefix) : '';
+  if (slugPrefix) {
+    const matches = await storage.getTags({ prefix: slugPrefix, sort: 'popular', limit });
+    matches.forEach(tag => suggestions.set(tag.id, tag));
+  }
+
+  if (caption && suggestions.size < limit) {
+    const captionWords = words(caption).map(({ word }) => tagSlug(word));
+    // Single words and adjacent pairs, so "scope creep" in a caption finds the scope-creep tag
+    const candidates = new Set(captionWords.flatMap((word, index) =>
+      index + 1 < captionWords.length ? [word, `${word}-${captionWords[index + 1]}`] : [word]));
+
+    const found = await storage.getTagsBySlugs(Array.from(candidates).filter(validSlug));
+    for (const tag of found) {
+      const canonical = await canonicalTag(tag);
+      if (canonical && !suggestions.has(canonical.id)) {
+        suggestions.set(canonical.id, { ...canonical, memeCount: await storage.countTagMemes(canonical.id) });
+      }
+    }
+  }
+
+  return Array.from(suggestions.values()).slice(0, limit);
+}
+
+// Everything shown on a tag page; memes themselves come from GET /api/memes?tag=
+export async function getTagPage(slug: string) {
+  const tag = await findTag(slug);
+  if (!tag) return undefined;
+
+  const [memeCount, aliases] = await Promise.all([
+    storage.countTagMemes(tag.id),
+    storage.getTagAliases(tag.id),
+  ]);
+  return { ...tag, memeCount, aliases: aliases.map(alias => alias.slug) };
+}
+
+// Moderator tool: fold one tag into another; the old slug keeps working as an alias
+export async function mergeTags(sourceSlug: string, targetSlug: string) {
+  const source = await findTag(sourceSlug);
+  const target = await findTag(targetSlug);
+  if (!source || !target) {
+    throw new TagError('Tag not found', 404);
+  }
+  if (source.id === target.id) {
+    throw new TagError('Cannot merge a tag into itself');
+  }
+
+  const moved = await storage.mergeTags(source.id, target.id);
+  return { tag: await getTagPage(target.slug), merged: source.slug, movedMemes: moved };
+}
+
+// Moderator tool: make another spelling resolve to an existing tag
+export async function addTagAlias(targetSlug: string, aliasName: string, createdBy: number) {
+  const target = await findTag(targetSlug);
+  if (!target) {
+    throw new TagError('Tag not found', 404);
+  }
+
+  const slug = tagSlug(aliasName);
+  if (!validSlug(slug)) {
+    throw new TagError(`Tags must be between ${MIN_TAG_LENGTH} and ${MAX_TAG_LENGTH} characters`);
+  }
+  if (await storage.getTagBySlug(slug)) {
+    throw new TagError(`"${slug}" is already a tag - merge it instead`, 409);
+  }
+
+  await storage.createTag({ slug, name: aliasName.trim(), aliasOf: target.id, createdBy });
+  return getTagPage(target.slug);
+}
@@ -0,0 +1,43 @@
+import express from 'express';
+import multer from 'multer';
+import { isAuthenticated, requireVerifiedEmail } from './auth';
+import { ImageUploadError, MAX_UPLOAD_BYTES, processImageUpload } from './imagePipeline';
+
+const router = express.Router();
+
+// Keep uploads in memory - they are validated and re-encoded before anything touches storage
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+});
+
+// Protected route - upload a meme image; the returned url can be used as imageUrl in POST /api/memes
+router.post('/images', isAuthenticated, requireVerifiedEmail('upload_images'), (req, res) => {
+  upload.single('image')(req, res, async (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      const status = err.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      return res.status(status).json({ message: err.message });
+    }
+    if (err) {
+      console.error('Upload error:', err);
+      return res.status(500).json({ message: 'Failed to upload image' });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ message: 'An image file is required in the "image" field' });
+    }
+
+    try {
+      const image = await processImageUpload(req.file.buffer);
+      res.status(201).json(image);
+    } catch (error) {
+      if (error instanceof ImageUploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Image processing error:', error);
+      res.status(500).json({ message: 'Failed to process image' });
+    }
+  });
+});
+
+export default router;
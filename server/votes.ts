@@ -0,0 +1,81 @@
+import { storage } from './storage';
+import { awardXpInBackground } from './xp';
+import { queueVoteUpdate } from './liveUpdates';
+import { notifyInBackground } from './notifications';
+import type { VoteTargetType, VoteValue } from '@shared/schema';
+
+// 'up' and 'down' set the caller's vote (repeating one is a no-op), 'clear' removes it
+export type VoteDirection = 'up' | 'down' | 'clear';
+export type UserVote = 'up' | 'down' | null;
+
+const directionValues: Record<VoteDirection, VoteValue> = {
+  up: 1,
+  down: -1,
+  clear: 0,
+};
+
+export function isVoteDirection(value: unknown): value is VoteDirection {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(directionValues, value);
+}
+
+export function toUserVote(value: VoteValue | undefined): UserVote {
+  if (value === 1) return 'up';
+  if (value === -1) return 'down';
+  return null;
+}
+
+function loadTarget(targetType: VoteTargetType, targetId: number) {
+  switch (targetType) {
+    case 'meme':
+      return storage.getMeme(targetId);
+    case 'comment':
+      return storage.getComment(targetId);
+    case 'resource':
+      return storage.getResource(targetId);
+  }
+}
+
+// Decorate items with the caller's own vote so the UI can highlight it
+export async function withUserVotes<T extends { id: number }>(
+  items: T[],
+  targetType: VoteTargetType,
+  userId?: number,
+): Promise<Array<T & { userVote: UserVote }>> {
+  const userVotes = userId
+    ? await storage.getUserVotes(userId, targetType, items.map(item => item.id))
+    : new Map<number, VoteValue>();
+
+  return items.map(item => ({ ...item, userVote: toUserVote(userVotes.get(item.id)) }));
+}
+
+// Record a vote and return the refreshed item, or undefined if it doesn't exist or is hidden
+export async function castVote(
+  userId: number,
+  targetType: VoteTargetType,
+  targetId: number,
+  direction: VoteDirection,
+) {
+  const target = await loadTarget(targetType, targetId);
+  if (!target || target.moderationStatus !== 'visible') return undefined;
+
+  const value = directionValues[direction];
+  const previous = await storage.castVote(userId, targetType, targetId, value);
+  // Moderated since it was loaded above
+  if (previous === undefined) return undefined;
+  const updated = await loadTarget(targetType, targetId);
+  if (value !== previous) {
+    queueVoteUpdate(targetType, targetId, 'memeId' in target ? target.memeId : undefined);
+  }
+
+  // Self-votes earn nothing, and each voter earns the owner XP for an item once however often they toggle
+  const ownerId = 'createdBy' in target ? target.createdBy : target.authorId;
+  if (value === 1 && previous !== 1 && ownerId && ownerId !== userId) {
+    awardXpInBackground(ownerId, 'upvote_received', { type: targetType, id: targetId, actorId: userId });
+    notifyInBackground({ userId: ownerId, type: 'upvote', targetType, targetId, actorId: userId });
+  }
+
+  return {
+    target: { ...(updated ?? target), userVote: toUserVote(value) },
+    previousVote: toUserVote(previous),
+  };
+}
@@ -0,0 +1,116 @@
+import { EventEmitter } from 'events';
+import { storage } from './storage';
+import type { User, XpEvent, XpReason } from '@shared/schema';
+
+export interface XpRule {
+  amount: number;
+  // Most XP a user can earn for this reason per UTC day
+  dailyCap: number;
+}
+
+export const xpRules: Record<XpReason, XpRule> = {
+  meme_posted: { amount: 25, dailyCap: 100 },
+  upvote_received: { amount: 5, dailyCap: 250 },
+  comment_posted: { amount: 5, dailyCap: 50 },
+  game_completed: { amount: 20, dailyCap: 100 },
+};
+
+// XP needed to reach a level is base * (level - 1) ^ exponent
+export interface LevelCurve {
+  base: number;
+  exponent: number;
+}
+
+export const levelCurve: LevelCurve = {
+  base: Number(process.env.XP_CURVE_BASE) || 100,
+  exponent: Number(process.env.XP_CURVE_EXPONENT) || 1.5,
+};
+
+const MAX_LEVEL = 100;
+
+export function xpForLevel(level: number, curve: LevelCurve = levelCurve): number {
+  return Math.round(curve.base * Math.pow(Math.max(level - 1, 0), curve.exponent));
+}
+
+export function levelForXp(xp: number, curve: LevelCurve = levelCurve): number {
+  let level = 1;
+  while (level < MAX_LEVEL && xp >= xpForLevel(level + 1, curve)) {
+    level++;
+  }
+  return level;
+}
+
+export function levelProgress(xp: number, curve: LevelCurve = levelCurve) {
+  const level = levelForXp(xp, curve);
+  return {
+    level,
+    xp,
+    currentLevelXp: xpForLevel(level, curve),
+    nextLevelXp: level < MAX_LEVEL ? xpForLevel(level + 1, curve) : null,
+  };
+}
+
+export interface LevelUpEvent {
+  userId: number;
+  previousLevel: number;
+  level: number;
+  xp: number;
+}
+
+// Emits 'level-up' with a LevelUpEvent whenever an award crosses a level boundary
+export const xpNotifier = new EventEmitter();
+
+function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export interface AwardResult {
+  event: XpEvent;
+  user: User;
+  leveledUp: boolean;
+}
+
+// What earned the XP; `actorId` is whoever caused it when that isn't the user, e.g. a voter
+export interface XpSource {
+  type: string;
+  id: number;
+  actorId?: number;
+}
+
+// Grant XP for an action, trimmed to what is left of the daily cap. Returns undefined when
+// the cap is already used up, or the source's actor has earned the user this XP before.
+export async function awardXp(
+  userId: number,
+  reason: XpReason,
+  source?: XpSource,
+): Promise<AwardResult | undefined> {
+  const rule = xpRules[reason];
+  const recorded = await storage.recordXpEvent({
+    userId,
+    reason,
+    amount: rule.amount,
+    sourceType: source?.type ?? null,
+    sourceId: source?.id ?? null,
+    actorId: source?.actorId ?? null,
+  }, { daily: rule.dailyCap, since: startOfUtcDay(new Date()) }, xp => levelForXp(xp));
+  if (!recorded) return undefined;
+
+  // The level is set in the same step as the XP, so of several awards at once only the one that
+  // actually crossed the boundary reports it
+  const { event, user, previousLevel } = recorded;
+  const level = user.level ?? 1;
+  const leveledUp = level > previousLevel;
+  if (leveledUp) {
+    const levelUp: LevelUpEvent = { userId: user.id, previousLevel, level, xp: user.xp ?? 0 };
+    xpNotifier.emit('level-up', levelUp);
+  }
+
+  return { event, user, leveledUp };
+}
+
+// XP hooks must never fail the request that triggered them
+export function awardXpInBackground(userId: number, reason: XpReason, source?: XpSource) {
+  awardXp(userId, reason, source).catch((error) => {
+    console.error(`Failed to award XP (${reason}) to user ${userId}:`, error);
+  });
+}
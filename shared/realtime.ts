@@ -0,0 +1,40 @@
+import { z } from "zod";
+
+// Channels clients can subscribe to over /ws:
+//   feed          - new memes across the site
+//   leaderboard   - game leaderboard rank changes
+//   meme:<id>     - activity on a single meme and its comments
+//   resource:<id> - activity on a single resource
+//   user:<id>     - private events for the signed-in user only
+export const channelSchema = z.string().regex(/^(feed|leaderboard|meme:\d+|resource:\d+|user:\d+)$/, "Unknown channel");
+export type Channel = z.infer<typeof channelSchema>;
+
+export const memeChannel = (memeId: number): Channel => `meme:${memeId}`;
+export const resourceChannel = (resourceId: number): Channel => `resource:${resourceId}`;
+export const userChannel = (userId: number): Channel => `user:${userId}`;
+
+export function channelOwner(channel: Channel): number | undefined {
+  const match = /^user:(\d+)$/.exec(channel);
+  return match ? Number(match[1]) : undefined;
+}
+
+// Messages sent by clients
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("auth"), token: z.string() }),
+  z.object({ type: z.literal("subscribe"), channel: channelSchema }),
+  z.object({ type: z.literal("unsubscribe"), channel: channelSchema }),
+  z.object({ type: z.literal("ping") }),
+  z.object({ type: z.literal("get_memes") }),
+]);
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+// Messages sent by the server
+export type ServerMessage =
+  | { type: "welcome"; message: string; userId: number | null; timestamp: string }
+  | { type: "authenticated"; userId: number }
+  | { type: "subscribed"; channel: Channel }
+  | { type: "unsubscribed"; channel: Channel }
+  | { type: "pong"; timestamp: string }
+  | { type: "memes_list"; data: unknown }
+  | { type: "event"; channel: Channel; event: string; data: unknown }
+  | { type: "error"; message: string };
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json, varchar, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, doublePrecision, timestamp, json, varchar, jsonb, index, uniqueIndex, primaryKey, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,6 +14,15 @@ export const sessions = pgTable(
   (table) => [index("IDX_session_expire").on(table.expire)],
 );
 
+// Roles, from least to most privileged
+export const userRoles = ["user", "moderator", "admin"] as const;
+
+// In-app notification kinds; each can be switched off in the user's preferences
+export const notificationTypes = ["comment", "reply", "upvote", "follow"] as const;
+export type NotificationType = typeof notificationTypes[number];
+// Types missing from a user's preferences are on
+export type NotificationPreferences = Partial<Record<NotificationType, boolean>>;
+
 // Users table
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -26,10 +36,65 @@ export const users = pgTable("users", {
   refreshToken: text("refresh_token"),
   level: integer("level").default(1),
   xp: integer("xp").default(0),
+  role: text("role", { enum: userRoles }).notNull().default("user"),
+  notificationPreferences: jsonb("notification_preferences").$type<NotificationPreferences>().notNull().default({}),
+  // Only set once the owner proves the address, through the emailed link or a provider that vouches for it
+  emailVerified: boolean("email_verified").notNull().default(false),
+  // Accounts from before verification existed: the unverified restrictions don't apply to them, but their
+  // address still counts as unproven. The default only fills in those rows; createUser writes false.
+  legacyAccount: boolean("legacy_account").notNull().default(true),
+  // Last verification email, for throttling resends
+  emailVerificationSentAt: timestamp("email_verification_sent_at"),
+  // Bumped when the password changes; sessions and JWTs carrying an older value stop working
+  sessionVersion: integer("session_version").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// External accounts a user can log in with; one user may link several providers
+export const oauthProviders = ["google", "github"] as const;
+
+export const userIdentities = pgTable(
+  "user_identities",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").references(() => users.id).notNull(),
+    provider: text("provider", { enum: oauthProviders }).notNull(),
+    // The account's id at the provider, which unlike the email never changes
+    providerId: text("provider_id").notNull(),
+    email: text("email"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_user_identities_provider").on(table.provider, table.providerId),
+    // One account per provider and user, so unlinking by provider is unambiguous
+    uniqueIndex("UQ_user_identities_user_provider").on(table.userId, table.provider),
+  ],
+);
+
+// Single-use tokens mailed to users, such as password reset links.
+// Only a SHA-256 hash of each token is stored.
+export const authTokenPurposes = ["password_reset"] as const;
+
+export const authTokens = pgTable(
+  "auth_tokens",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").references(() => users.id).notNull(),
+    purpose: text("purpose", { enum: authTokenPurposes }).notNull(),
+    tokenHash: text("token_hash").notNull().unique(),
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_auth_tokens_user").on(table.userId, table.purpose),
+  ],
+);
+
+// Moderation state shared by memes, comments and resources - only visible items are listed
+export const moderationStatuses = ["visible", "hidden", "removed"] as const;
+
 // Memes table
 export const memes = pgTable("memes", {
   id: serial("id").primaryKey(),
@@ -38,9 +103,91 @@ export const memes = pgTable("memes", {
   caption: text("caption"),
   upvotes: integer("upvotes").default(0),
   downvotes: integer("downvotes").default(0),
+  templateId: integer("template_id").references(() => memeTemplates.id),
+  // Text entered per template text box, keyed by box id
+  captions: jsonb("captions").$type<Record<string, string>>(),
+  moderationStatus: text("moderation_status", { enum: moderationStatuses }).notNull().default("visible"),
+  // Precomputed by server/ranking.ts whenever the votes change
+  hotScore: doublePrecision("hot_score").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_memes_template").on(table.templateId),
+  index("IDX_memes_hot").on(table.hotScore),
+  index("IDX_memes_created").on(table.createdAt),
+  index("IDX_memes_search").using("gin", sql`to_tsvector('english', coalesce(${table.caption}, ''))`),
+]);
+
+// Meme templates - a base image plus the text boxes captions are drawn into.
+// Box geometry is stored as fractions of the image so it holds for every size variant.
+export const templateTextBoxSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_-]{1,32}$/i, "Box ids may only contain letters, numbers, - and _"),
+  label: z.string().max(50).optional(),
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().gt(0).max(1),
+  height: z.number().gt(0).max(1),
+  align: z.enum(["left", "center", "right"]).default("center"),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i).default("#ffffff"),
+  strokeColor: z.string().regex(/^#[0-9a-f]{6}$/i).default("#000000"),
+  uppercase: z.boolean().default(true),
+  maxLength: z.number().int().min(1).max(500).default(120),
+}).refine(box => box.x + box.width <= 1 && box.y + box.height <= 1, "Text box must fit inside the image");
+
+export type TemplateTextBox = z.infer<typeof templateTextBoxSchema>;
+
+export const memeTemplates = pgTable("meme_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  imageUrl: text("image_url").notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  textBoxes: jsonb("text_boxes").$type<TemplateTextBox[]>().notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Tags - free-form ones are created as people use them, curated ones by moderators.
+// An alias points at the tag it was merged into and is resolved to it everywhere.
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(),
+  name: text("name").notNull(),
+  description: text("description"),
+  curated: boolean("curated").notNull().default(false),
+  aliasOf: integer("alias_of").references((): AnyPgColumn => tags.id),
+  createdBy: integer("created_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const memeTags = pgTable(
+  "meme_tags",
+  {
+    memeId: integer("meme_id").references(() => memes.id).notNull(),
+    tagId: integer("tag_id").references(() => tags.id).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.memeId, table.tagId] }),
+    index("IDX_meme_tags_tag").on(table.tagId),
+  ],
+);
+
+// The order of a ranked meme feed, frozen when its first page was read so later pages
+// can't skip or repeat memes whose votes changed in between. The id is random and
+// travels in the feed cursor.
+export const feedSnapshots = pgTable(
+  "feed_snapshots",
+  {
+    id: varchar("id").primaryKey(),
+    memeIds: jsonb("meme_ids").$type<number[]>().notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("IDX_feed_snapshots_created").on(table.createdAt),
+  ],
+);
+
 // Comments table
 export const comments = pgTable("comments", {
   id: serial("id").primaryKey(),
@@ -49,8 +196,14 @@ export const comments = pgTable("comments", {
   body: text("body").notNull(),
   parentId: integer("parent_id"),
   upvotes: integer("upvotes").default(0),
+  downvotes: integer("downvotes").default(0),
+  moderationStatus: text("moderation_status", { enum: moderationStatuses }).notNull().default("visible"),
+  // Wilson score lower bound, precomputed by server/ranking.ts whenever the votes change
+  bestScore: doublePrecision("best_score").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("IDX_comments_search").using("gin", sql`to_tsvector('english', ${table.body})`),
+]);
 
 // Game session table
 export const gameSessions = pgTable("game_sessions", {
@@ -72,9 +225,226 @@ export const resources = pgTable("resources", {
   downloadUrl: text("download_url"),
   votes: integer("votes").default(0),
   createdBy: integer("created_by").references(() => users.id),
+  moderationStatus: text("moderation_status", { enum: moderationStatuses }).notNull().default("visible"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_resources_search").using("gin", sql`(setweight(to_tsvector('english', ${table.title}), 'A') || setweight(to_tsvector('english', coalesce(${table.markdown}, '')), 'B'))`),
+]);
+
+// Votes table - one row per user and voted item, value is 1 (up) or -1 (down)
+export const voteTargetTypes = ["meme", "comment", "resource"] as const;
+
+export const votes = pgTable(
+  "votes",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").references(() => users.id).notNull(),
+    targetType: text("target_type", { enum: voteTargetTypes }).notNull(),
+    targetId: integer("target_id").notNull(),
+    value: integer("value").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_votes_user_target").on(table.userId, table.targetType, table.targetId),
+    index("IDX_votes_target").on(table.targetType, table.targetId),
+  ],
+);
+
+// XP ledger - every change to users.xp is recorded here
+export const xpReasons = ["meme_posted", "upvote_received", "comment_posted", "game_completed"] as const;
+
+export const xpEvents = pgTable(
+  "xp_events",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").references(() => users.id).notNull(),
+    reason: text("reason", { enum: xpReasons }).notNull(),
+    amount: integer("amount").notNull(),
+    sourceType: text("source_type"),
+    sourceId: integer("source_id"),
+    // Who caused the award, e.g. the voter; each actor earns the user XP once per source
+    actorId: integer("actor_id").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_xp_events_user_reason_created").on(table.userId, table.reason, table.createdAt),
+    uniqueIndex("UQ_xp_events_actor_source")
+      .on(table.userId, table.reason, table.sourceType, table.sourceId, table.actorId)
+      .where(sql`${table.actorId} is not null`),
+  ],
+);
+
+// Content reports - one per user and reported item
+export const reportTargetTypes = ["meme", "comment", "resource"] as const;
+export const reportReasons = ["spam", "harassment", "hate", "nsfw", "off_topic", "other"] as const;
+export const reportStatuses = ["open", "dismissed", "actioned"] as const;
+
+export const reports = pgTable(
+  "reports",
+  {
+    id: serial("id").primaryKey(),
+    reporterId: integer("reporter_id").references(() => users.id).notNull(),
+    targetType: text("target_type", { enum: reportTargetTypes }).notNull(),
+    targetId: integer("target_id").notNull(),
+    reason: text("reason", { enum: reportReasons }).notNull(),
+    details: text("details"),
+    status: text("status", { enum: reportStatuses }).notNull().default("open"),
+    resolvedBy: integer("resolved_by").references(() => users.id),
+    resolvedAt: timestamp("resolved_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_reports_reporter_target").on(table.reporterId, table.targetType, table.targetId),
+    index("IDX_reports_status_target").on(table.status, table.targetType, table.targetId),
+  ],
+);
+
+// Moderation log - every hide, removal, dismissal and warning, including automatic ones
+export const moderationActionTypes = ["hide", "remove", "dismiss", "warn", "auto_hide"] as const;
+
+export const moderationActions = pgTable(
+  "moderation_actions",
+  {
+    id: serial("id").primaryKey(),
+    // Null for actions taken automatically
+    moderatorId: integer("moderator_id").references(() => users.id),
+    action: text("action", { enum: moderationActionTypes }).notNull(),
+    targetType: text("target_type", { enum: reportTargetTypes }).notNull(),
+    targetId: integer("target_id").notNull(),
+    // Author of the moderated item
+    userId: integer("user_id").references(() => users.id),
+    note: text("note"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_moderation_actions_target").on(table.targetType, table.targetId)],
+);
+
+// Audit log of role grants and revocations
+export const roleChanges = pgTable(
+  "role_changes",
+  {
+    id: serial("id").primaryKey(),
+    // Null when the change came from configuration rather than an admin
+    actorId: integer("actor_id").references(() => users.id),
+    userId: integer("user_id").references(() => users.id).notNull(),
+    previousRole: text("previous_role", { enum: userRoles }).notNull(),
+    newRole: text("new_role", { enum: userRoles }).notNull(),
+    reason: text("reason"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_role_changes_user").on(table.userId, table.createdAt)],
+);
+
+// Who follows whom - followers get the authors they follow in their following feed
+export const follows = pgTable(
+  "follows",
+  {
+    followerId: integer("follower_id").references(() => users.id).notNull(),
+    followeeId: integer("followee_id").references(() => users.id).notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.followerId, table.followeeId] }),
+    index("IDX_follows_followee").on(table.followeeId),
+  ],
+);
+
+// In-app notifications. While unread, notifications of one type about the same item
+// share a row, so twelve upvotes become "12 people upvoted your meme".
+export const notificationTargetTypes = ["meme", "comment", "resource", "user"] as const;
+
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").references(() => users.id).notNull(),
+    type: text("type", { enum: notificationTypes }).notNull(),
+    targetType: text("target_type", { enum: notificationTargetTypes }).notNull(),
+    targetId: integer("target_id").notNull(),
+    // Most recent first, capped; actorCount keeps counting past the cap
+    actorIds: jsonb("actor_ids").$type<number[]>().notNull().default([]),
+    actorCount: integer("actor_count").notNull().default(1),
+    readAt: timestamp("read_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    // Bumped each time another actor joins the group
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_notifications_user").on(table.userId, table.updatedAt),
+    uniqueIndex("UQ_notifications_unread_group")
+      .on(table.userId, table.type, table.targetType, table.targetId)
+      .where(sql`${table.readAt} is null`),
+  ],
+);
+
+// Newsletter subscribers table. Signups stay 'pending' until the address is confirmed
+// (double opt-in); only 'subscribed' addresses receive mail or reach the provider.
+export const newsletterStatuses = ["pending", "subscribed", "unsubscribed"] as const;
+
+export const newsletterSubscribers = pgTable("newsletter_subscribers", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull().unique(),
+  // The default is for rows from before double opt-in, which were all subscribed when they signed up -
+  // see backfillNewsletterStatuses(). New signups are inserted as 'pending'.
+  status: text("status", { enum: newsletterStatuses }).notNull().default("subscribed"),
+  // Last confirmation email, so repeated signups don't flood an inbox
+  confirmationSentAt: timestamp("confirmation_sent_at"),
+  confirmedAt: timestamp("confirmed_at"),
+  unsubscribedAt: timestamp("unsubscribed_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Outbox of subscriber changes to push to the newsletter provider. There is at most one
+// pending job per member (keyed like Mailchimp, by the MD5 of the lowercase email); a newer
+// change replaces the queued one and bumps `revision`.
+export const newsletterSyncActions = ["subscribe", "unsubscribe"] as const;
+export const newsletterSyncStatuses = ["pending", "done", "failed"] as const;
+
+export const newsletterSyncJobs = pgTable(
+  "newsletter_sync_jobs",
+  {
+    id: serial("id").primaryKey(),
+    email: text("email").notNull(),
+    memberHash: text("member_hash").notNull(),
+    action: text("action", { enum: newsletterSyncActions }).notNull(),
+    status: text("status", { enum: newsletterSyncStatuses }).notNull().default("pending"),
+    revision: integer("revision").notNull().default(1),
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+    lastError: text("last_error"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_newsletter_sync_pending").on(table.memberHash).where(sql`${table.status} = 'pending'`),
+    index("IDX_newsletter_sync_due").on(table.status, table.nextAttemptAt),
+  ],
+);
+
+// Send log for outgoing email. `batch` identifies one issue of a mailing (e.g. the digest's week),
+// so a rerun only mails recipients without a successful send in that batch.
+export const emailKinds = ["weekly_digest"] as const;
+export const emailSendStatuses = ["sent", "failed"] as const;
+
+export const emailSends = pgTable(
+  "email_sends",
+  {
+    id: serial("id").primaryKey(),
+    kind: text("kind", { enum: emailKinds }).notNull(),
+    batch: text("batch").notNull(),
+    recipient: text("recipient").notNull(),
+    subject: text("subject").notNull(),
+    status: text("status", { enum: emailSendStatuses }).notNull(),
+    messageId: text("message_id"),
+    error: text("error"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_email_sends_batch").on(table.kind, table.batch, table.recipient),
+  ],
+);
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users);
 
@@ -82,6 +452,35 @@ export const insertMemeSchema = createInsertSchema(memes).pick({
   authorId: true,
   imageUrl: true,
   caption: true,
+  templateId: true,
+  captions: true,
+});
+
+export const insertMemeTemplateSchema = createInsertSchema(memeTemplates, {
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).nullish(),
+  textBoxes: z.array(templateTextBoxSchema).min(1).max(10)
+    .refine(boxes => new Set(boxes.map(box => box.id)).size === boxes.length, "Text box ids must be unique"),
+}).pick({
+  name: true,
+  description: true,
+  imageUrl: true,
+  width: true,
+  height: true,
+  textBoxes: true,
+  createdBy: true,
+});
+
+export const insertTagSchema = createInsertSchema(tags, {
+  name: z.string().trim().min(2).max(32),
+  description: z.string().trim().max(300).nullish(),
+}).pick({
+  slug: true,
+  name: true,
+  description: true,
+  curated: true,
+  aliasOf: true,
+  createdBy: true,
 });
 
 export const insertCommentSchema = createInsertSchema(comments).pick({
@@ -98,6 +497,44 @@ export const insertGameSessionSchema = createInsertSchema(gameSessions).pick({
   choices: true,
 });
 
+export const insertXpEventSchema = createInsertSchema(xpEvents).pick({
+  userId: true,
+  reason: true,
+  amount: true,
+  sourceType: true,
+  sourceId: true,
+  actorId: true,
+});
+
+export const insertReportSchema = createInsertSchema(reports, {
+  details: z.string().trim().max(1000).nullish(),
+}).pick({
+  reporterId: true,
+  targetType: true,
+  targetId: true,
+  reason: true,
+  details: true,
+});
+
+export const insertEmailSendSchema = createInsertSchema(emailSends).pick({
+  kind: true,
+  batch: true,
+  recipient: true,
+  subject: true,
+  status: true,
+  messageId: true,
+  error: true,
+});
+
+export const insertModerationActionSchema = createInsertSchema(moderationActions).pick({
+  moderatorId: true,
+  action: true,
+  targetType: true,
+  targetId: true,
+  userId: true,
+  note: true,
+});
+
 export const insertResourceSchema = createInsertSchema(resources).pick({
   title: true,
   category: true,
@@ -110,14 +547,139 @@ export const insertResourceSchema = createInsertSchema(resources).pick({
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type UserRole = typeof userRoles[number];
+
+export type RoleChange = typeof roleChanges.$inferSelect;
+
+export type Follow = typeof follows.$inferSelect;
+
+export interface FollowCounts {
+  followers: number;
+  following: number;
+}
+
+// Totals over a user's visible memes and comments; karma is net votes received
+export interface UserKarma {
+  memeCount: number;
+  memeKarma: number;
+  commentCount: number;
+  commentKarma: number;
+}
+
 export type Meme = typeof memes.$inferSelect;
 export type InsertMeme = z.infer<typeof insertMemeSchema>;
 
+// Public author fields attached to memes in API responses
+export type MemeAuthor = Pick<User, 'id' | 'username' | 'avatar'> & { level: number; title: string };
+export type MemeWithAuthor = Meme & { author: MemeAuthor | null };
+
+export type FeedSnapshot = typeof feedSnapshots.$inferSelect;
+
+export type MemeTemplate = typeof memeTemplates.$inferSelect;
+export type InsertMemeTemplate = z.infer<typeof insertMemeTemplateSchema>;
+
+// Usage of a template across all memes made from it
+export interface MemeTemplateStats {
+  templateId: number;
+  memeCount: number;
+  recentMemeCount: number;
+  upvotes: number;
+  lastUsedAt: Date | null;
+}
+
+export type Tag = typeof tags.$inferSelect;
+export type InsertTag = z.infer<typeof insertTagSchema>;
+export type TagWithCount = Tag & { memeCount: number };
+
 export type Comment = typeof comments.$inferSelect;
+// A top-level comment with the number of direct replies it drew
+export type CommentThread = Comment & { replyCount: number };
 export type InsertComment = z.infer<typeof insertCommentSchema>;
 
 export type GameSession = typeof gameSessions.$inferSelect;
 export type InsertGameSession = z.infer<typeof insertGameSessionSchema>;
 
+// A user's best completed game session within a leaderboard window
+export interface GameLeaderboardEntry {
+  rank: number;
+  userId: number;
+  username: string;
+  avatar: string | null;
+  level: number;
+  sessionId: number;
+  score: number;
+  sanityLeft: number;
+  endedAt: Date;
+}
+
 export type Resource = typeof resources.$inferSelect;
 export type InsertResource = z.infer<typeof insertResourceSchema>;
+
+export type Vote = typeof votes.$inferSelect;
+export type VoteTargetType = typeof voteTargetTypes[number];
+export type VoteValue = -1 | 0 | 1;
+
+export type XpEvent = typeof xpEvents.$inferSelect;
+export type InsertXpEvent = z.infer<typeof insertXpEventSchema>;
+export type XpReason = typeof xpReasons[number];
+
+export type ModerationStatus = typeof moderationStatuses[number];
+
+export type Report = typeof reports.$inferSelect;
+export type InsertReport = z.infer<typeof insertReportSchema>;
+export type ReportTargetType = typeof reportTargetTypes[number];
+export type ReportReason = typeof reportReasons[number];
+export type ReportStatus = typeof reportStatuses[number];
+
+// Reports grouped by the item they are about, as shown in the moderation queue
+export interface ReportQueueEntry {
+  targetType: ReportTargetType;
+  targetId: number;
+  reportCount: number;
+  reasons: Partial<Record<ReportReason, number>>;
+  firstReportedAt: Date;
+  lastReportedAt: Date;
+}
+
+export type ModerationAction = typeof moderationActions.$inferSelect;
+export type InsertModerationAction = z.infer<typeof insertModerationActionSchema>;
+export type ModerationActionType = typeof moderationActionTypes[number];
+
+// Full-text search
+export const searchTargetTypes = ["meme", "comment", "resource"] as const;
+export type SearchTargetType = typeof searchTargetTypes[number];
+
+export interface SearchHit {
+  type: SearchTargetType;
+  id: number;
+  score: number;
+}
+
+export type Notification = typeof notifications.$inferSelect;
+export type NotificationTargetType = typeof notificationTargetTypes[number];
+
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type OAuthProvider = typeof oauthProviders[number];
+
+export type AuthToken = typeof authTokens.$inferSelect;
+export type AuthTokenPurpose = typeof authTokenPurposes[number];
+
+export type NewsletterSubscriber = typeof newsletterSubscribers.$inferSelect;
+export type NewsletterStatus = typeof newsletterStatuses[number];
+
+export type NewsletterSyncJob = typeof newsletterSyncJobs.$inferSelect;
+export type NewsletterSyncAction = typeof newsletterSyncActions[number];
+export type NewsletterSyncStatus = typeof newsletterSyncStatuses[number];
+
+export interface NewsletterSyncStats {
+  pending: number;
+  failed: number;
+  done: number;
+  // When the longest-waiting pending job was queued
+  oldestPendingAt: Date | null;
+}
+
+export type EmailSend = typeof emailSends.$inferSelect;
+export type InsertEmailSend = z.infer<typeof insertEmailSendSchema>;
+export type EmailKind = typeof emailKinds[number];
+export type EmailSendStatus = typeof emailSendStatuses[number];